@@ -8,6 +8,9 @@ import WarningLevels from "@/pages/warning-levels";
 import Settings from "@/pages/settings";
 import History from "@/pages/history";
 import Users from "@/pages/users";
+import Reviews from "@/pages/reviews";
+import Appeals from "@/pages/appeals";
+import Audit from "@/pages/audit";
 import { Navbar } from "@/components/ui/navbar";
 import AuthPage from "@/pages/auth-page";
 import { useUser } from "@/hooks/use-user";
@@ -37,6 +40,9 @@ function Router() {
         <Route path="/settings" component={Settings} />
         <Route path="/history" component={History} />
         <Route path="/users" component={Users} />
+        <Route path="/reviews" component={Reviews} />
+        <Route path="/appeals" component={Appeals} />
+        <Route path="/audit" component={Audit} />
         <Route component={NotFound} />
       </Switch>
     </div>
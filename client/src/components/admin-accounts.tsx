@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Copy, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+
+interface AdminAccount {
+  id: number;
+  username: string;
+  discordId: string | null;
+  role: string;
+  createdAt: string;
+}
+
+interface AdminInvite {
+  id: number;
+  token: string;
+  role: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+// Ordered from most to least privileged, matching the server
+const ROLES = [
+  { value: "owner", label: "Owner", description: "Everything, including bot and AI credentials" },
+  { value: "admin", label: "Admin", description: "Configuration, resets, audit log and accounts" },
+  { value: "moderator", label: "Moderator", description: "Ignore warnings, decide reviews and appeals" },
+  { value: "viewer", label: "Viewer", description: "Read-only access" },
+];
+
+const roleRank = (role: string) => ROLES.findIndex((r) => r.value === role);
+
+function inviteLink(invite: AdminInvite) {
+  return `${window.location.origin}/?invite=${invite.token}`;
+}
+
+async function sendRequest(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Request failed");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+export function AdminAccounts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useUser();
+  const [inviteRole, setInviteRole] = useState("moderator");
+
+  const { data: accounts = [], isLoading: isLoadingAccounts } = useQuery<AdminAccount[]>({
+    queryKey: ["/api/admin-users"],
+  });
+
+  const { data: invites = [] } = useQuery<AdminInvite[]>({
+    queryKey: ["/api/admin-invites"],
+  });
+
+  // Roles above your own can't be handed out
+  const assignableRoles = ROLES.filter((role) => user && roleRank(role.value) >= roleRank(user.role));
+  const canManage = (account: AdminAccount) =>
+    !!user && account.id !== user.id && roleRank(account.role) >= roleRank(user.role);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const copyLink = (invite: AdminInvite) => {
+    navigator.clipboard.writeText(inviteLink(invite));
+    toast({
+      title: "Copied",
+      description: "Invite link copied to clipboard",
+    });
+  };
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: string }) =>
+      sendRequest(`/api/admin-users/${id}`, "PUT", { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-users"] });
+      toast({
+        title: "Role Updated",
+        description: "The account's role has been changed.",
+      });
+    },
+    onError,
+  });
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: (id: number) => sendRequest(`/api/admin-users/${id}`, "DELETE"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-invites"] });
+      toast({
+        title: "Account Removed",
+        description: "The account can no longer sign in.",
+      });
+    },
+    onError,
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: (role: string) => sendRequest("/api/admin-invites", "POST", { role }),
+    onSuccess: (invite: AdminInvite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-invites"] });
+      copyLink(invite);
+    },
+    onError,
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: (id: number) => sendRequest(`/api/admin-invites/${id}`, "DELETE"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-invites"] });
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-6">
+      {isLoadingAccounts ? (
+        <div>Loading accounts...</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Username</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {accounts.map((account) => (
+              <TableRow key={account.id}>
+                <TableCell>
+                  {account.username}
+                  {account.id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                  {account.discordId && <Badge variant="outline" className="ml-2">Discord</Badge>}
+                </TableCell>
+                <TableCell>
+                  {/* Discord accounts take their role from the server's role mapping */}
+                  {canManage(account) && !account.discordId ? (
+                    <Select
+                      value={account.role}
+                      disabled={updateRoleMutation.isPending}
+                      onValueChange={(role) => updateRoleMutation.mutate({ id: account.id, role })}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {assignableRoles.map((role) => (
+                          <SelectItem key={role.value} value={role.value}>
+                            {role.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="capitalize">{account.role}</span>
+                  )}
+                </TableCell>
+                <TableCell>{format(new Date(account.createdAt), "PP")}</TableCell>
+                <TableCell>
+                  {canManage(account) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deleteAccountMutation.isPending}
+                      onClick={() => {
+                        if (!confirm(`Remove ${account.username}'s dashboard account?`)) {
+                          return;
+                        }
+                        deleteAccountMutation.mutate(account.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="space-y-2">
+        <Label>Invite someone</Label>
+        <div className="flex gap-2">
+          <Select value={inviteRole} onValueChange={setInviteRole}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {assignableRoles.map((role) => (
+                <SelectItem key={role.value} value={role.value}>
+                  {role.label} — {role.description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            disabled={createInviteMutation.isPending}
+            onClick={() => createInviteMutation.mutate(inviteRole)}
+          >
+            Create Invite
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          The invite link is copied to your clipboard. It works once and expires after 7 days.
+        </p>
+      </div>
+
+      {invites.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pending invite</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invites.map((invite) => (
+              <TableRow key={invite.id}>
+                <TableCell className="capitalize">{invite.role}</TableCell>
+                <TableCell>{format(new Date(invite.expiresAt), "PPp")}</TableCell>
+                <TableCell className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => copyLink(invite)} title="Copy invite link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={revokeInviteMutation.isPending}
+                    onClick={() => revokeInviteMutation.mutate(invite.id)}
+                    title="Revoke invite"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
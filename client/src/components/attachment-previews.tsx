@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { ImageOff } from "lucide-react";
+
+export interface MediaAttachment {
+  url: string;
+  name: string | null;
+  contentType: string | null;
+  size: number | null;
+  source: "attachment" | "embed" | "link";
+}
+
+function Thumbnail({ attachment, size }: { attachment: MediaAttachment; size: string }) {
+  // Discord attachment links expire, so older previews may no longer load
+  const [failed, setFailed] = useState(false);
+  const label = attachment.name ?? attachment.url;
+
+  return (
+    <a href={attachment.url} target="_blank" rel="noreferrer" title={label} onClick={(e) => e.stopPropagation()}>
+      {failed ? (
+        <div className={`${size} flex items-center justify-center rounded-md bg-muted text-muted-foreground`}>
+          <ImageOff className="h-4 w-4" />
+        </div>
+      ) : (
+        <img
+          src={attachment.url}
+          alt={label}
+          loading="lazy"
+          className={`${size} rounded-md object-cover`}
+          onError={() => setFailed(true)}
+        />
+      )}
+    </a>
+  );
+}
+
+// Previews of the images that were moderated with a message
+export function AttachmentPreviews({ attachments, large = false }: { attachments: MediaAttachment[]; large?: boolean }) {
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment, index) => (
+        <Thumbnail key={index} attachment={attachment} size={large ? "h-32 w-32" : "h-16 w-16"} />
+      ))}
+    </div>
+  );
+}
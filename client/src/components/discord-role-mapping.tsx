@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SelectGuild } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const ROLES = ["owner", "admin", "moderator", "viewer"];
+
+interface Props {
+  guild: SelectGuild;
+}
+
+// Maps Discord roles in the server to dashboard roles for Discord logins
+export function DiscordRoleMapping({ guild }: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [roleId, setRoleId] = useState("");
+  const [role, setRole] = useState("moderator");
+
+  const updateMutation = useMutation({
+    mutationFn: async (dashboardRoles: Record<string, string>) => {
+      const response = await fetch(`/api/guilds/${guild.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dashboardRoles }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update dashboard roles");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guilds"] });
+      setRoleId("");
+      toast({
+        title: "Dashboard Roles Updated",
+        description: "Changes apply the next time each moderator signs in with Discord.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    const trimmed = roleId.trim();
+    if (!/^\d+$/.test(trimmed)) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid Discord role ID",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateMutation.mutate({ ...guild.dashboardRoles, [trimmed]: role });
+  };
+
+  const handleRemove = (removedRoleId: string) => {
+    const { [removedRoleId]: _, ...rest } = guild.dashboardRoles;
+    updateMutation.mutate(rest);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Dashboard roles for Discord logins</Label>
+      {Object.entries(guild.dashboardRoles).map(([mappedRoleId, mappedRole]) => (
+        <div key={mappedRoleId} className="flex items-center justify-between text-sm">
+          <span className="font-mono">{mappedRoleId}</span>
+          <div className="flex items-center gap-2">
+            <span className="capitalize">{mappedRole}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={updateMutation.isPending}
+              onClick={() => handleRemove(mappedRoleId)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input
+          value={roleId}
+          onChange={(e) => setRoleId(e.target.value)}
+          placeholder="Discord role ID"
+        />
+        <Select value={role} onValueChange={setRole}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ROLES.map((value) => (
+              <SelectItem key={value} value={value} className="capitalize">
+                {value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" disabled={updateMutation.isPending} onClick={handleAdd}>
+          Add
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Members of the primary server sign in with the highest role they're mapped to. The moderator role above counts as moderator.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { format } from "date-fns";
+
+export interface MessageEdit {
+  previousContent: string | null;
+  content: string;
+  editedAt: string;
+}
+
+// Lists the edits of a flagged message, oldest first
+export function EditHistory({ edits }: { edits: MessageEdit[] }) {
+  if (edits.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      {edits.map((edit, index) => (
+        <div key={index} className="rounded-md bg-muted p-2">
+          <p className="text-xs text-muted-foreground mb-1">
+            Edited {format(new Date(edit.editedAt), "PPpp")}
+          </p>
+          <p className="line-through text-muted-foreground whitespace-pre-wrap">
+            {edit.previousContent ?? "Earlier version not available"}
+          </p>
+          <p className="whitespace-pre-wrap">{edit.content}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Zap } from "lucide-react";
+
+interface LLMProvider {
+  id: string;
+  name: string;
+  description: string;
+  defaultBaseUrl: string | null;
+  defaultModel: string;
+  requiresApiKey: boolean;
+}
+
+interface LLMConfig {
+  status: "disconnected" | "connected" | "error";
+  error?: string;
+  latencyMs?: number | null;
+  provider?: string;
+  baseUrl?: string | null;
+  model?: string;
+  visionModel?: string | null;
+  temperature?: number | null;
+  timeoutMs?: number;
+  maxTokens?: number | null;
+  batchSize?: number;
+  batchWindowMs?: number;
+  hasApiKey?: boolean;
+  apiKeyLast4?: string | null;
+  providers: LLMProvider[];
+}
+
+interface LLMProviderFormData {
+  provider: string;
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  visionModel: string;
+  temperature: string;
+  timeoutMs: string;
+  maxTokens: string;
+  batchSize: string;
+  batchWindowMs: string;
+}
+
+interface Props {
+  config: LLMConfig;
+  onSuccess?: () => void;
+}
+
+function toRequestBody(formData: LLMProviderFormData) {
+  return {
+    provider: formData.provider,
+    apiKey: formData.apiKey || undefined,
+    baseUrl: formData.baseUrl || null,
+    model: formData.model || undefined,
+    visionModel: formData.visionModel || undefined,
+    temperature: formData.temperature ? parseFloat(formData.temperature) : null,
+    timeoutMs: formData.timeoutMs ? parseInt(formData.timeoutMs) : undefined,
+    maxTokens: formData.maxTokens ? parseInt(formData.maxTokens) : null,
+    batchSize: formData.batchSize ? parseInt(formData.batchSize) : undefined,
+    batchWindowMs: formData.batchWindowMs ? parseInt(formData.batchWindowMs) : undefined,
+  };
+}
+
+export function LLMProviderForm({ config, onSuccess }: Props) {
+  const [formData, setFormData] = useState<LLMProviderFormData>({
+    provider: config.provider ?? "openai",
+    apiKey: "",
+    baseUrl: config.baseUrl ?? "",
+    model: config.model ?? "",
+    visionModel: config.visionModel ?? "",
+    temperature: config.temperature?.toString() ?? "",
+    timeoutMs: config.timeoutMs?.toString() ?? "30000",
+    maxTokens: config.maxTokens?.toString() ?? "",
+    batchSize: config.batchSize?.toString() ?? "1",
+    batchWindowMs: config.batchWindowMs?.toString() ?? "500",
+  });
+  const [testLatency, setTestLatency] = useState<number | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const provider = config.providers.find((p) => p.id === formData.provider);
+  // The stored key is only reused while the provider stays the same
+  const keepsStoredKey = !!config.hasApiKey && config.provider === formData.provider;
+
+  const testMutation = useMutation({
+    mutationFn: async (data: LLMProviderFormData) => {
+      const response = await fetch("/api/settings/openai/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toRequestBody(data)),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Connection test failed");
+      }
+
+      return response.json() as Promise<{ latencyMs: number }>;
+    },
+    onSuccess: ({ latencyMs }) => {
+      setTestLatency(latencyMs);
+      toast({
+        title: "Connection Successful",
+        description: `The provider responded in ${latencyMs} ms.`,
+      });
+    },
+    onError: (error: Error) => {
+      setTestLatency(null);
+      toast({
+        title: "Connection Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: LLMProviderFormData) => {
+      const response = await fetch("/api/settings/openai", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toRequestBody(data)),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to save AI provider settings");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      onSuccess?.();
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/openai"] });
+      toast({
+        title: "AI Provider Updated",
+        description: "The AI provider settings have been updated successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      // Settings are saved even when the connection test fails
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/openai"] });
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateField = (field: keyof LLMProviderFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setTestLatency(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (provider?.requiresApiKey && !formData.apiKey && !keepsStoredKey) {
+      toast({
+        title: "Validation Error",
+        description: `${provider.name} requires an API key.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (provider && !provider.defaultBaseUrl && !formData.baseUrl) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter the base URL of your endpoint.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate(formData);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="provider">Provider</Label>
+        <Select
+          value={formData.provider}
+          onValueChange={(value) => {
+            setFormData((prev) => ({ ...prev, provider: value, model: "", visionModel: "", baseUrl: "" }));
+            setTestLatency(null);
+          }}
+        >
+          <SelectTrigger id="provider">
+            <SelectValue placeholder="Select a provider" />
+          </SelectTrigger>
+          <SelectContent>
+            {config.providers.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {provider && (
+          <p className="text-sm text-muted-foreground">{provider.description}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="apiKey">
+          API Key{provider && !provider.requiresApiKey && " (optional)"}
+        </Label>
+        <Input
+          id="apiKey"
+          type="password"
+          value={formData.apiKey}
+          onChange={(e) => updateField("apiKey", e.target.value)}
+          placeholder={
+            keepsStoredKey
+              ? `Leave blank to keep the current key ending in ${config.apiKeyLast4}`
+              : "Enter your API key"
+          }
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="baseUrl">Base URL</Label>
+        <Input
+          id="baseUrl"
+          value={formData.baseUrl}
+          onChange={(e) => updateField("baseUrl", e.target.value)}
+          placeholder={provider?.defaultBaseUrl ?? "http://localhost:8080/v1"}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="model">Model</Label>
+        <Input
+          id="model"
+          value={formData.model}
+          onChange={(e) => updateField("model", e.target.value)}
+          placeholder={provider?.defaultModel || "Enter the model name"}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="visionModel">Vision Model (optional)</Label>
+        <Input
+          id="visionModel"
+          value={formData.visionModel}
+          onChange={(e) => updateField("visionModel", e.target.value)}
+          placeholder="Same as model"
+        />
+        <p className="text-sm text-muted-foreground">
+          Used for images when media moderation is on. It must accept image input.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="temperature">Temperature</Label>
+          <Input
+            id="temperature"
+            type="number"
+            step="0.1"
+            min="0"
+            max="2"
+            value={formData.temperature}
+            onChange={(e) => updateField("temperature", e.target.value)}
+            placeholder="Default"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="timeoutMs">Timeout (ms)</Label>
+          <Input
+            id="timeoutMs"
+            type="number"
+            min="1000"
+            step="1000"
+            value={formData.timeoutMs}
+            onChange={(e) => updateField("timeoutMs", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="maxTokens">Max Tokens</Label>
+          <Input
+            id="maxTokens"
+            type="number"
+            min="1"
+            value={formData.maxTokens}
+            onChange={(e) => updateField("maxTokens", e.target.value)}
+            placeholder="Default"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="batchSize">Batch Size</Label>
+          <Input
+            id="batchSize"
+            type="number"
+            min="1"
+            max="20"
+            value={formData.batchSize}
+            onChange={(e) => updateField("batchSize", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="batchWindowMs">Batch Window (ms)</Label>
+          <Input
+            id="batchWindowMs"
+            type="number"
+            min="0"
+            step="100"
+            value={formData.batchWindowMs}
+            onChange={(e) => updateField("batchWindowMs", e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        With a batch size above 1, messages that arrive within the window are classified together in one request. This saves cost in busy servers at the price of a little latency. Keep Max Tokens high enough for several verdicts.
+      </p>
+
+      {testLatency !== null && (
+        <p className="text-sm text-muted-foreground">
+          Last test: responded in {testLatency} ms
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          className="flex-1"
+          disabled={testMutation.isPending}
+          onClick={() => testMutation.mutate(formData)}
+        >
+          <Zap className="h-4 w-4 mr-2" />
+          {testMutation.isPending ? "Testing..." : "Test Connection"}
+        </Button>
+        <Button
+          type="submit"
+          className="flex-1"
+          disabled={saveMutation.isPending}
+        >
+          Save Configuration
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export type { LLMConfig, LLMProvider };
@@ -0,0 +1,147 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SelectGuild } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+
+// Image types vision models accept, matching the server
+const IMAGE_TYPES = [
+  { value: "image/png", label: "PNG" },
+  { value: "image/jpeg", label: "JPEG" },
+  { value: "image/gif", label: "GIF" },
+  { value: "image/webp", label: "WebP" },
+];
+
+const BYTES_PER_MB = 1024 * 1024;
+
+interface Props {
+  guild: SelectGuild;
+}
+
+type MediaSettings = Partial<Pick<SelectGuild, "mediaModeration" | "mediaMaxBytes" | "mediaContentTypes">>;
+
+// Turns image moderation on for a server and limits what gets sent to the vision model
+export function MediaModerationSettings({ guild }: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateMutation = useMutation({
+    mutationFn: async (settings: MediaSettings) => {
+      const response = await fetch(`/api/guilds/${guild.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update media moderation");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guilds"] });
+      toast({
+        title: "Media Moderation Updated",
+        description: "The media moderation settings have been updated successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleType = (type: string, checked: boolean) => {
+    const mediaContentTypes = checked
+      ? [...guild.mediaContentTypes, type]
+      : guild.mediaContentTypes.filter((t) => t !== type);
+    updateMutation.mutate({ mediaContentTypes });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="mediaModeration">Moderate images</Label>
+          <p className="text-sm text-muted-foreground">
+            Send attachments, embed images and image links to the vision model along with the message.
+          </p>
+        </div>
+        <Switch
+          id="mediaModeration"
+          checked={guild.mediaModeration}
+          disabled={updateMutation.isPending}
+          onCheckedChange={(checked) => updateMutation.mutate({ mediaModeration: checked })}
+        />
+      </div>
+
+      {guild.mediaModeration && (
+        <>
+          <div className="space-y-2">
+            <Label>Allowed types</Label>
+            <div className="flex flex-wrap gap-4">
+              {IMAGE_TYPES.map((type) => (
+                <div key={type.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`media-${type.value}`}
+                    checked={guild.mediaContentTypes.includes(type.value)}
+                    disabled={updateMutation.isPending}
+                    onCheckedChange={(checked) => toggleType(type.value, checked === true)}
+                  />
+                  <Label htmlFor={`media-${type.value}`}>{type.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <form
+            key={`media-size-${guild.id}`}
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const formData = new FormData(e.currentTarget);
+              const maxMb = parseFloat(formData.get("mediaMaxMb") as string);
+
+              if (isNaN(maxMb) || maxMb <= 0) {
+                toast({
+                  title: "Error",
+                  description: "Please enter a valid size",
+                  variant: "destructive",
+                });
+                return;
+              }
+
+              updateMutation.mutate({ mediaMaxBytes: Math.round(maxMb * BYTES_PER_MB) });
+            }}
+          >
+            <Label htmlFor="mediaMaxMb">Maximum attachment size (MB)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="mediaMaxMb"
+                name="mediaMaxMb"
+                type="number"
+                min="0.1"
+                step="0.1"
+                defaultValue={guild.mediaMaxBytes / BYTES_PER_MB}
+              />
+              <Button type="submit" variant="outline" disabled={updateMutation.isPending}>
+                Save
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Larger attachments are skipped. Up to 4 images are checked per message.
+            </p>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ModerationStrictness, SelectGuild } from "@db/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface GuildChannel {
+  id: string;
+  name: string;
+  type: "category" | "channel";
+  parentId: string | null;
+}
+
+interface GuildRole {
+  id: string;
+  name: string;
+  color: string;
+}
+
+const STRICTNESS_OPTIONS: { value: ModerationStrictness; label: string }[] = [
+  { value: "strict", label: "Strict" },
+  { value: "standard", label: "Standard" },
+  { value: "lenient", label: "Lenient" },
+];
+
+interface Props {
+  guild: SelectGuild;
+}
+
+type ScopeSettings = Partial<Pick<SelectGuild, "excludedChannelIds" | "exemptRoleIds" | "categoryStrictness">>;
+
+// Chooses which channels and members the bot moderates, and how strictly per category
+export function ModerationScopeSettings({ guild }: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: channels = [], error: channelsError } = useQuery<GuildChannel[]>({
+    queryKey: [`/api/guilds/${guild.id}/channels`],
+  });
+  const { data: roles = [], error: rolesError } = useQuery<GuildRole[]>({
+    queryKey: [`/api/guilds/${guild.id}/roles`],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (settings: ScopeSettings) => {
+      const response = await fetch(`/api/guilds/${guild.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update moderation scope");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guilds"] });
+      toast({
+        title: "Moderation Scope Updated",
+        description: "The moderation scope has been updated successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (ids: string[], id: string, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter((existing) => existing !== id);
+
+  const setStrictness = (categoryId: string, strictness: ModerationStrictness) => {
+    const { [categoryId]: _, ...rest } = guild.categoryStrictness;
+    updateMutation.mutate({
+      categoryStrictness: strictness === "standard" ? rest : { ...rest, [categoryId]: strictness },
+    });
+  };
+
+  const categories = channels.filter((c) => c.type === "category");
+  const groups = [
+    { category: null, channels: channels.filter((c) => c.type === "channel" && !c.parentId) },
+    ...categories.map((category) => ({
+      category,
+      channels: channels.filter((c) => c.parentId === category.id),
+    })),
+  ];
+
+  const botError = channelsError || rolesError;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Moderation scope</Label>
+        <p className="text-sm text-muted-foreground">
+          The bot ignores excluded channels and members with an exempt role. Categories can be moderated more strictly or more leniently than the rest of the server.
+        </p>
+      </div>
+
+      {botError && (
+        <p className="text-sm text-destructive">
+          Couldn't load channels and roles from the bot. Check that it's connected to this server.
+        </p>
+      )}
+
+      {channels.length > 0 && (
+        <div className="space-y-2">
+          <Label>Channels</Label>
+          <div className="max-h-72 overflow-y-auto rounded-md border p-3 space-y-3">
+            {groups.map(({ category, channels: groupChannels }) => {
+              const categoryExcluded = !!category && guild.excludedChannelIds.includes(category.id);
+              if (!category && groupChannels.length === 0) {
+                return null;
+              }
+
+              return (
+                <div key={category?.id ?? "uncategorized"} className="space-y-1">
+                  {category && (
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`exclude-${category.id}`}
+                          checked={categoryExcluded}
+                          disabled={updateMutation.isPending}
+                          onCheckedChange={(checked) => updateMutation.mutate({
+                            excludedChannelIds: toggle(guild.excludedChannelIds, category.id, checked === true),
+                          })}
+                        />
+                        <Label htmlFor={`exclude-${category.id}`} className="text-xs font-semibold uppercase">
+                          {category.name}
+                        </Label>
+                      </div>
+                      {!categoryExcluded && (
+                        <Select
+                          value={guild.categoryStrictness[category.id] ?? "standard"}
+                          disabled={updateMutation.isPending}
+                          onValueChange={(value) => setStrictness(category.id, value as ModerationStrictness)}
+                        >
+                          <SelectTrigger className="h-7 w-28 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STRICTNESS_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  )}
+                  {groupChannels.map((channel) => (
+                    <div key={channel.id} className={`flex items-center gap-2 ${category ? "pl-6" : ""}`}>
+                      <Checkbox
+                        id={`exclude-${channel.id}`}
+                        checked={categoryExcluded || guild.excludedChannelIds.includes(channel.id)}
+                        disabled={categoryExcluded || updateMutation.isPending}
+                        onCheckedChange={(checked) => updateMutation.mutate({
+                          excludedChannelIds: toggle(guild.excludedChannelIds, channel.id, checked === true),
+                        })}
+                      />
+                      <Label htmlFor={`exclude-${channel.id}`} className="text-sm font-normal">
+                        #{channel.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Checked channels are excluded. Excluding a category excludes every channel in it, and threads follow their channel.
+          </p>
+        </div>
+      )}
+
+      {roles.length > 0 && (
+        <div className="space-y-2">
+          <Label>Exempt roles</Label>
+          <div className="max-h-48 overflow-y-auto rounded-md border p-3 space-y-1">
+            {roles.map((role) => (
+              <div key={role.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`exempt-${role.id}`}
+                  checked={guild.exemptRoleIds.includes(role.id)}
+                  disabled={updateMutation.isPending}
+                  onCheckedChange={(checked) => updateMutation.mutate({
+                    exemptRoleIds: toggle(guild.exemptRoleIds, role.id, checked === true),
+                  })}
+                />
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: role.color }} />
+                <Label htmlFor={`exempt-${role.id}`} className="text-sm font-normal">
+                  {role.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { PunishmentType, SelectGuild, WarningVisibility } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PUNISHMENT_TYPE_LABELS } from "@/components/punishment-rule-form";
+import { useToast } from "@/hooks/use-toast";
+
+interface GuildChannel {
+  id: string;
+  name: string;
+  type: "category" | "channel";
+  parentId: string | null;
+}
+
+// Placeholders the server fills in, matching server/services/notifications.ts
+export const TEMPLATE_PLACEHOLDERS =
+  "{server}, {level}, {rule}, {points}, {total}, {duration}, {ends}, {slowmode} and {appeal}";
+
+const NO_CHANNEL = "none";
+
+interface Props {
+  guild: SelectGuild;
+}
+
+type NotificationSettingsValues = Partial<Pick<SelectGuild,
+  "dmNotifications" | "warningVisibility" | "modLogChannelId" | "punishmentDmTemplates">>;
+
+// Chooses whether users get DMs about warnings and punishments, what they say, and where warnings are posted
+export function NotificationSettings({ guild }: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: channels = [], error: channelsError } = useQuery<GuildChannel[]>({
+    queryKey: [`/api/guilds/${guild.id}/channels`],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (settings: NotificationSettingsValues) => {
+      const response = await fetch(`/api/guilds/${guild.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update notifications");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guilds"] });
+      toast({
+        title: "Notifications Updated",
+        description: "The notification settings have been updated successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const textChannels = channels.filter((c) => c.type === "channel");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="dmNotifications">Direct message users</Label>
+          <p className="text-sm text-muted-foreground">
+            Tell users about their warnings and punishments in a DM, with the rule, their points, when it ends and how to appeal.
+          </p>
+        </div>
+        <Switch
+          id="dmNotifications"
+          checked={guild.dmNotifications}
+          disabled={updateMutation.isPending}
+          onCheckedChange={(checked) => updateMutation.mutate({ dmNotifications: checked })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="modLogChannelId">Mod-log channel</Label>
+        <Select
+          value={guild.modLogChannelId ?? NO_CHANNEL}
+          disabled={updateMutation.isPending}
+          onValueChange={(value) => updateMutation.mutate({ modLogChannelId: value === NO_CHANNEL ? null : value })}
+        >
+          <SelectTrigger id="modLogChannelId">
+            <SelectValue placeholder="Choose a channel" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CHANNEL}>None</SelectItem>
+            {textChannels.map((channel) => (
+              <SelectItem key={channel.id} value={channel.id}>
+                #{channel.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {channelsError && (
+          <p className="text-sm text-destructive">
+            Couldn't load channels from the bot. Check that it's connected to this server.
+          </p>
+        )}
+        <p className="text-sm text-muted-foreground">
+          A private channel for staff. Every warning, punishment, reversal and removed message is posted there with Pardon and Escalate buttons. Make sure the bot can post in it.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="warningVisibility">Warnings are posted</Label>
+        <Select
+          value={guild.warningVisibility}
+          disabled={updateMutation.isPending}
+          onValueChange={(value) => updateMutation.mutate({ warningVisibility: value as WarningVisibility })}
+        >
+          <SelectTrigger id="warningVisibility">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="public">In the channel where the message was sent</SelectItem>
+            <SelectItem value="silent" disabled={!guild.modLogChannelId}>
+              Silently, only to the mod-log channel
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {guild.dmNotifications && (
+        <form
+          key={`dm-templates-${guild.id}`}
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const formData = new FormData(e.currentTarget);
+            const punishmentDmTemplates: Partial<Record<PunishmentType, string>> = {};
+            for (const type of Object.keys(PUNISHMENT_TYPE_LABELS) as PunishmentType[]) {
+              const template = (formData.get(`template-${type}`) as string).trim();
+              if (template) {
+                punishmentDmTemplates[type] = template;
+              }
+            }
+            updateMutation.mutate({ punishmentDmTemplates });
+          }}
+        >
+          <div>
+            <Label>Punishment messages</Label>
+            <p className="text-sm text-muted-foreground">
+              Leave a message empty to use the default. You can use {TEMPLATE_PLACEHOLDERS}. Warning messages are set on each warning level.
+            </p>
+          </div>
+          {(Object.keys(PUNISHMENT_TYPE_LABELS) as PunishmentType[]).map((type) => (
+            <div key={type} className="space-y-2">
+              <Label htmlFor={`template-${type}`}>{PUNISHMENT_TYPE_LABELS[type]}</Label>
+              <Textarea
+                id={`template-${type}`}
+                name={`template-${type}`}
+                rows={2}
+                maxLength={1500}
+                defaultValue={guild.punishmentDmTemplates[type] ?? ""}
+              />
+            </div>
+          ))}
+          <Button type="submit" variant="outline" disabled={updateMutation.isPending}>
+            Save Messages
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
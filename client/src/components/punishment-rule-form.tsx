@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PunishmentType } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const PUNISHMENT_TYPE_LABELS: Record<PunishmentType, string> = {
+  notify: "Notify only",
+  slowmode: "Slowmode",
+  mute: "Mute",
+  add_role: "Add role",
+  remove_role: "Remove role",
+  kick: "Kick",
+  temp_ban: "Temporary ban",
+  ban: "Ban",
+};
+
+// Punishments that must last a set time, and those where a time limit is optional
+const REQUIRES_DURATION: PunishmentType[] = ["mute", "temp_ban", "slowmode"];
+const ROLE_PUNISHMENTS: PunishmentType[] = ["add_role", "remove_role"];
+
+export interface PunishmentRuleValues {
+  type: PunishmentType;
+  pointThreshold?: number;
+  ruleId?: number | null;
+  duration?: string | null; // like "45m", "12h" or "7d", parsed by the server
+  roleId?: string | null;
+  slowmodeSeconds?: number | null;
+}
+
+// The stored fields describePunishment reads
+interface PunishmentSummary {
+  type: PunishmentType;
+  durationMinutes: number | null;
+  slowmodeSeconds: number | null;
+}
+
+interface GuildRole {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface Props {
+  guildId: string | null;
+  rules: { id: number; name: string }[];
+  isPending: boolean;
+  onSubmit: (values: PunishmentRuleValues) => void;
+}
+
+// Writes minutes in the largest unit that divides them evenly, e.g. 1440 as "1 day"
+export function formatDuration(minutes: number): string {
+  const [value, unit] =
+    minutes % 1440 === 0 ? [minutes / 1440, "day"] :
+    minutes % 60 === 0 ? [minutes / 60, "hour"] :
+    [minutes, "minute"];
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+}
+
+// How a punishment rule reads in the settings table and the generated server rules
+export function describePunishment(rule: PunishmentSummary, roleName?: string): string {
+  const duration = rule.durationMinutes ? ` for ${formatDuration(rule.durationMinutes)}` : "";
+  const role = roleName ?? "a role";
+  switch (rule.type) {
+    case "notify":
+      return "Direct message warning";
+    case "slowmode":
+      return `One message every ${rule.slowmodeSeconds} seconds${duration}`;
+    case "mute":
+      return `Timeout${duration}`;
+    case "add_role":
+      return `Given ${role}${duration || " permanently"}`;
+    case "remove_role":
+      return `Loses ${role}${duration || " permanently"}`;
+    case "kick":
+      return "Kick";
+    case "temp_ban":
+      return `Ban${duration}`;
+    case "ban":
+      return "Permanent ban";
+  }
+}
+
+// Creates a punishment rule of any type, triggered by points or by breaking a specific rule
+export function PunishmentRuleForm({ guildId, rules, isPending, onSubmit }: Props) {
+  const [type, setType] = useState<PunishmentType>("mute");
+  const [trigger, setTrigger] = useState<"points" | "rule">("points");
+  const [ruleId, setRuleId] = useState<string>("");
+  const [roleId, setRoleId] = useState<string>("");
+
+  const { data: roles = [], error: rolesError } = useQuery<GuildRole[]>({
+    queryKey: [`/api/guilds/${guildId}/roles`],
+    enabled: !!guildId && ROLE_PUNISHMENTS.includes(type),
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const number = (name: string) => {
+      const value = formData.get(name) as string | null;
+      return value ? parseInt(value) : null;
+    };
+
+    onSubmit({
+      type,
+      pointThreshold: trigger === "points" ? number("pointThreshold") ?? undefined : undefined,
+      ruleId: trigger === "rule" && ruleId ? parseInt(ruleId) : null,
+      duration: (formData.get("duration") as string | null)?.trim() || null,
+      roleId: ROLE_PUNISHMENTS.includes(type) ? roleId || null : null,
+      slowmodeSeconds: type === "slowmode" ? number("slowmodeSeconds") : null,
+    });
+  };
+
+  const showDuration = REQUIRES_DURATION.includes(type) || ROLE_PUNISHMENTS.includes(type);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="type">Punishment Type</Label>
+        <Select value={type} onValueChange={(value) => setType(value as PunishmentType)}>
+          <SelectTrigger id="type">
+            <SelectValue placeholder="Select type" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PUNISHMENT_TYPE_LABELS) as PunishmentType[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {PUNISHMENT_TYPE_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="trigger">Applies When</Label>
+        <Select value={trigger} onValueChange={(value) => setTrigger(value as "points" | "rule")}>
+          <SelectTrigger id="trigger">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="points">A user reaches a point threshold</SelectItem>
+            <SelectItem value="rule">A user breaks a specific rule</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {trigger === "points" ? (
+        <div className="space-y-2">
+          <Label htmlFor="pointThreshold">Point Threshold</Label>
+          <Input
+            id="pointThreshold"
+            name="pointThreshold"
+            type="number"
+            min="1"
+            placeholder="Enter point threshold"
+            required
+          />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="ruleId">Rule</Label>
+          <Select value={ruleId} onValueChange={setRuleId}>
+            <SelectTrigger id="ruleId">
+              <SelectValue placeholder="Choose a rule" />
+            </SelectTrigger>
+            <SelectContent>
+              {rules.map((rule) => (
+                <SelectItem key={rule.id} value={rule.id.toString()}>
+                  {rule.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {ROLE_PUNISHMENTS.includes(type) && (
+        <div className="space-y-2">
+          <Label htmlFor="roleId">Role</Label>
+          <Select value={roleId} onValueChange={setRoleId}>
+            <SelectTrigger id="roleId">
+              <SelectValue placeholder="Choose a role" />
+            </SelectTrigger>
+            <SelectContent>
+              {roles.map((role) => (
+                <SelectItem key={role.id} value={role.id}>
+                  {role.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {rolesError && (
+            <p className="text-sm text-destructive">
+              Couldn't load roles from the bot. Check that it's connected to this server.
+            </p>
+          )}
+        </div>
+      )}
+
+      {type === "slowmode" && (
+        <div className="space-y-2">
+          <Label htmlFor="slowmodeSeconds">Seconds Between Messages</Label>
+          <Input
+            id="slowmodeSeconds"
+            name="slowmodeSeconds"
+            type="number"
+            min="1"
+            max="21600"
+            placeholder="Enter seconds between messages"
+            required
+          />
+        </div>
+      )}
+
+      {showDuration && (
+        <div className="space-y-2">
+          <Label htmlFor="duration">Duration</Label>
+          <Input
+            id="duration"
+            name="duration"
+            placeholder={REQUIRES_DURATION.includes(type) ? "e.g. 45m, 12h or 7d" : "e.g. 7d, or leave empty to keep the role change"}
+            required={REQUIRES_DURATION.includes(type)}
+          />
+          {type === "mute" && (
+            <p className="text-sm text-muted-foreground">Discord limits timeouts to 28 days.</p>
+          )}
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isPending}>
+        Create Rule
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { SelectGuild, SelectWarningLevel, SpamDetectorSettings, SpamSettings } from "@db/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+
+type Detector = "burst" | "duplicate" | "mentions" | "emoji";
+
+const DETECTORS: { key: Detector; label: string; unit: string }[] = [
+  { key: "burst", label: "Message bursts", unit: "messages" },
+  { key: "duplicate", label: "Duplicate messages", unit: "copies" },
+  { key: "mentions", label: "Mention floods", unit: "mentions" },
+  { key: "emoji", label: "Emoji floods", unit: "emoji" },
+];
+
+interface Props {
+  guild: SelectGuild;
+}
+
+function NumberField({ id, label, value, onChange }: {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min="1"
+        className="h-8"
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value) || 0)}
+      />
+    </div>
+  );
+}
+
+// Configures the spam detectors and raid mode for a server
+export function SpamDetectionSettings({ guild }: Props) {
+  const { toast } = useToast();
+  const { can } = useUser();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<SpamSettings>(guild.spamSettings);
+
+  const { data: levels = [] } = useQuery<SelectWarningLevel[]>({
+    queryKey: ["/api/warning-levels"],
+  });
+
+  const raidModeUntil = guild.raidModeUntil ? new Date(guild.raidModeUntil) : null;
+  const raidModeActive = !!raidModeUntil && raidModeUntil > new Date();
+
+  const updateMutation = useMutation({
+    mutationFn: async (spamSettings: SpamSettings) => {
+      const response = await fetch(`/api/guilds/${guild.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ spamSettings }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update spam detection");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guilds"] });
+      toast({
+        title: "Spam Detection Updated",
+        description: "The spam detection settings have been updated successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const raidModeMutation = useMutation({
+    mutationFn: async (active: boolean) => {
+      const response = await fetch(`/api/guilds/${guild.id}/raid-mode`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update raid mode");
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, active) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guilds"] });
+      toast({
+        title: active ? "Raid Mode Started" : "Raid Mode Ended",
+        description: active
+          ? "Messages from new accounts will be removed."
+          : "Messages from new accounts are moderated normally again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDetector = (detector: Detector, changes: Partial<SpamDetectorSettings>) => {
+    setSettings((prev) => ({ ...prev, [detector]: { ...prev[detector], ...changes } }));
+  };
+
+  const updateRaid = (changes: Partial<SpamSettings["raid"]>) => {
+    setSettings((prev) => ({ ...prev, raid: { ...prev.raid, ...changes } }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Spam detection</Label>
+        <p className="text-sm text-muted-foreground">
+          Catches floods the AI can't see one message at a time. A detector fires when a user reaches the threshold within the window, and applies its warning level without an AI call.
+        </p>
+      </div>
+
+      {DETECTORS.map(({ key, label, unit }) => (
+        <div key={key} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`spam-${key}`}>{label}</Label>
+            <Switch
+              id={`spam-${key}`}
+              checked={settings[key].enabled}
+              onCheckedChange={(enabled) => updateDetector(key, { enabled })}
+            />
+          </div>
+          {settings[key].enabled && (
+            <div className="grid grid-cols-3 gap-2">
+              <NumberField
+                id={`spam-${key}-threshold`}
+                label={`Threshold (${unit})`}
+                value={settings[key].threshold}
+                onChange={(threshold) => updateDetector(key, { threshold })}
+              />
+              <NumberField
+                id={`spam-${key}-window`}
+                label="Window (seconds)"
+                value={settings[key].windowSeconds}
+                onChange={(windowSeconds) => updateDetector(key, { windowSeconds })}
+              />
+              <div className="space-y-1">
+                <Label className="text-xs">Warning level</Label>
+                <Select
+                  value={settings[key].warningLevelId?.toString() ?? ""}
+                  onValueChange={(value) => updateDetector(key, { warningLevelId: parseInt(value) })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Choose a level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {levels.map((level) => (
+                      <SelectItem key={level.id} value={level.id.toString()}>
+                        {level.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="space-y-2 rounded-md border p-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="spam-raid">Automatic raid mode</Label>
+            <p className="text-sm text-muted-foreground">
+              Starts when many new accounts post at once. While it's on, messages from new accounts are removed.
+            </p>
+          </div>
+          <Switch
+            id="spam-raid"
+            checked={settings.raid.enabled}
+            onCheckedChange={(enabled) => updateRaid({ enabled })}
+          />
+        </div>
+        {settings.raid.enabled && (
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              id="spam-raid-accounts"
+              label="New accounts posting"
+              value={settings.raid.accounts}
+              onChange={(accounts) => updateRaid({ accounts })}
+            />
+            <NumberField
+              id="spam-raid-window"
+              label="Within (seconds)"
+              value={settings.raid.windowSeconds}
+              onChange={(windowSeconds) => updateRaid({ windowSeconds })}
+            />
+            <NumberField
+              id="spam-raid-age"
+              label="New account age (days)"
+              value={settings.raid.newAccountDays}
+              onChange={(newAccountDays) => updateRaid({ newAccountDays })}
+            />
+            <NumberField
+              id="spam-raid-duration"
+              label="Raid mode lasts (minutes)"
+              value={settings.raid.durationMinutes}
+              onChange={(durationMinutes) => updateRaid({ durationMinutes })}
+            />
+          </div>
+        )}
+      </div>
+
+      <Button
+        variant="outline"
+        disabled={updateMutation.isPending}
+        onClick={() => updateMutation.mutate(settings)}
+      >
+        Save Spam Detection
+      </Button>
+
+      <div className="flex items-center justify-between rounded-md border p-3">
+        <div className="flex items-center gap-2">
+          <Label>Raid mode</Label>
+          {raidModeActive ? (
+            <Badge variant="destructive">On until {format(raidModeUntil!, "PPp")}</Badge>
+          ) : (
+            <Badge variant="secondary">Off</Badge>
+          )}
+        </div>
+        {can("moderation.act") && (
+          <Button
+            variant={raidModeActive ? "outline" : "destructive"}
+            size="sm"
+            disabled={raidModeMutation.isPending}
+            onClick={() => raidModeMutation.mutate(!raidModeActive)}
+          >
+            {raidModeActive ? "End Raid Mode" : "Start Raid Mode"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+
+interface TotpSetup {
+  secret: string;
+  uri: string;
+}
+
+async function postJson(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Request failed");
+  }
+
+  return response.json();
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Enrolls or removes an authenticator app for the logged-in account
+export function TwoFactorSetup() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useUser();
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState("");
+
+  const onError = (error: Error) => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => postJson("/api/2fa/setup"),
+    onSuccess: (data: TotpSetup) => setSetup(data),
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => postJson("/api/2fa/enable", { code }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["user"] });
+      setSetup(null);
+      setCode("");
+      toast({
+        title: "Two-Factor Enabled",
+        description: "You'll be asked for a code from your authenticator app when you log in.",
+      });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => postJson("/api/2fa/disable", { code }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["user"] });
+      setCode("");
+      toast({
+        title: "Two-Factor Disabled",
+        description: "Your account is protected by your password only.",
+      });
+    },
+    onError,
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.discordId) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You sign in with Discord, so two-factor authentication is managed in your Discord account.
+      </p>
+    );
+  }
+
+  if (user.totpEnabled) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm">Two-factor authentication is enabled.</p>
+        <Label>Enter a current code to turn it off</Label>
+        <div className="flex items-center gap-2">
+          <CodeInput value={code} onChange={setCode} />
+          <Button
+            variant="outline"
+            disabled={code.length !== 6 || disableMutation.isPending}
+            onClick={() => disableMutation.mutate()}
+          >
+            Disable
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!setup) {
+    return (
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Require a code from an authenticator app when logging in.
+        </p>
+        <Button size="sm" disabled={setupMutation.isPending} onClick={() => setupMutation.mutate()}>
+          Set Up
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        Add this account to your authenticator app, using{" "}
+        <a href={setup.uri} className="underline">this link</a> on a phone or the key below.
+      </p>
+      <p className="rounded-md bg-muted p-2 font-mono text-sm break-all">{setup.secret}</p>
+      <Label>Enter the 6-digit code from the app to confirm</Label>
+      <div className="flex items-center gap-2">
+        <CodeInput value={code} onChange={setCode} />
+        <Button
+          disabled={code.length !== 6 || enableMutation.isPending}
+          onClick={() => enableMutation.mutate()}
+        >
+          Enable
+        </Button>
+      </div>
+    </div>
+  );
+}
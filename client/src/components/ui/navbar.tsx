@@ -1,8 +1,45 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { useGuild } from "@/hooks/use-guild";
+import { useUser } from "@/hooks/use-user";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { LogOut, User } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
 
 export function Navbar() {
   const [location] = useLocation();
+  const { guilds, selectedGuild, selectGuild } = useGuild();
+  const { user, can, logout, logoutEverywhere } = useUser();
+  const { toast } = useToast();
+
+  const handleLogoutEverywhere = async () => {
+    if (!confirm("Sign out of the dashboard on every device, including this one?")) {
+      return;
+    }
+    const result = await logoutEverywhere();
+    if (!result.ok) {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
 
   return (
     <nav className="border-b">
@@ -43,6 +80,44 @@ export function Navbar() {
                 History
               </span>
             </Link>
+            <Link href="/reviews">
+              <span
+                className={cn(
+                  "px-3 py-2 text-sm font-medium transition-colors hover:text-primary cursor-pointer",
+                  location === "/reviews"
+                    ? "text-foreground"
+                    : "text-muted-foreground"
+                )}
+              >
+                Reviews
+              </span>
+            </Link>
+            <Link href="/appeals">
+              <span
+                className={cn(
+                  "px-3 py-2 text-sm font-medium transition-colors hover:text-primary cursor-pointer",
+                  location === "/appeals"
+                    ? "text-foreground"
+                    : "text-muted-foreground"
+                )}
+              >
+                Appeals
+              </span>
+            </Link>
+            {can("audit.view") && (
+              <Link href="/audit">
+                <span
+                  className={cn(
+                    "px-3 py-2 text-sm font-medium transition-colors hover:text-primary cursor-pointer",
+                    location === "/audit"
+                      ? "text-foreground"
+                      : "text-muted-foreground"
+                  )}
+                >
+                  Audit
+                </span>
+              </Link>
+            )}
             <Link href="/settings">
               <span
                 className={cn(
@@ -56,6 +131,44 @@ export function Navbar() {
               </span>
             </Link>
           </div>
+          <div className="ml-auto flex items-center gap-2">
+            <Select
+              value={selectedGuild?.id}
+              onValueChange={(guildId) => selectGuild(guildId)}
+              disabled={guilds.length === 0}
+            >
+              <SelectTrigger className="h-8 w-48 text-sm">
+                <SelectValue placeholder="No servers" />
+              </SelectTrigger>
+              <SelectContent>
+                {guilds.map((guild) => (
+                  <SelectItem key={guild.id} value={guild.id} className="text-sm">
+                    {guild.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8">
+                  <User className="h-4 w-4 mr-2" />
+                  {user?.username}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel className="capitalize">{user?.role}</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => logout()}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleLogoutEverywhere}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out everywhere
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
       </div>
     </nav>
@@ -4,6 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -33,6 +42,7 @@ import {
 import { CSS } from "@dnd-kit/utilities";
 import { Pencil, Plus, GripVertical, Trash2, Eye, EyeOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
 import { useLocation } from "wouter";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { WarningLevelForm } from "./warning-level-form";
@@ -41,6 +51,76 @@ interface RuleFormData {
   name: string;
   description: string;
   isVisible?: boolean;
+  matchType: string;
+  patterns: string[];
+}
+
+// Pattern rules are checked locally before the LLM and skip it when they match
+const MATCH_TYPES: { value: string; label: string; placeholder: string }[] = [
+  { value: "ai", label: "AI judgement", placeholder: "" },
+  { value: "keyword", label: "Keywords", placeholder: "One word or phrase per line" },
+  { value: "regex", label: "Regex", placeholder: "One pattern per line, e.g. free\\s+nitro" },
+  { value: "blocked_domain", label: "Blocked domains", placeholder: "One domain per line, e.g. grabify.link" },
+  { value: "allowed_domain", label: "Allowed domains", placeholder: "One domain per line, e.g. youtube.com" },
+];
+
+function parsePatterns(text: string): string[] {
+  return text.split("\n").map((p) => p.trim()).filter((p) => p);
+}
+
+function PatternTester({ matchType, patterns }: { matchType: string; patterns: string[] }) {
+  const [content, setContent] = useState("");
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/rules/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ matchType, patterns, content }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to test patterns");
+      }
+      return response.json() as Promise<{ matched: boolean; reason: string | null }>;
+    },
+  });
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="testContent" className="text-sm">Test a message</Label>
+      <div className="flex gap-2">
+        <Input
+          id="testContent"
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value);
+            testMutation.reset();
+          }}
+          placeholder="Sample message"
+          className="h-8 text-sm"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          className="h-8 text-sm"
+          disabled={!content || testMutation.isPending}
+          onClick={() => testMutation.mutate()}
+        >
+          Test
+        </Button>
+      </div>
+      {testMutation.data && (
+        <p className={`text-xs ${testMutation.data.matched ? "text-destructive" : "text-muted-foreground"}`}>
+          {testMutation.data.matched ? testMutation.data.reason : "No match"}
+        </p>
+      )}
+      {testMutation.error && (
+        <p className="text-xs text-destructive">{testMutation.error.message}</p>
+      )}
+    </div>
+  );
 }
 
 function RuleForm({
@@ -56,11 +136,14 @@ function RuleForm({
     ...initialData,
     isVisible: initialData.isVisible ?? true,
   });
+  const [patternsText, setPatternsText] = useState(initialData.patterns.join("\n"));
+  const matchType = MATCH_TYPES.find((t) => t.value === formData.matchType) ?? MATCH_TYPES[0];
+  const patterns = formData.matchType === "ai" ? [] : parsePatterns(patternsText);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name || !formData.description) return;
-    onSubmit(formData);
+    onSubmit({ ...formData, patterns });
   };
 
   return (
@@ -94,6 +177,47 @@ function RuleForm({
         />
       </div>
 
+      <div className="space-y-1">
+        <Label htmlFor="matchType" className="text-sm">Match</Label>
+        <Select
+          value={formData.matchType}
+          onValueChange={(value) =>
+            setFormData((prev) => ({ ...prev, matchType: value }))
+          }
+        >
+          <SelectTrigger id="matchType" className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MATCH_TYPES.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {formData.matchType !== "ai" && (
+        <>
+          <div className="space-y-1">
+            <Label htmlFor="patterns" className="text-sm">Patterns</Label>
+            <Textarea
+              id="patterns"
+              value={patternsText}
+              onChange={(e) => setPatternsText(e.target.value)}
+              placeholder={matchType.placeholder}
+              className="text-sm font-mono"
+              rows={4}
+            />
+            <p className="text-xs text-muted-foreground">
+              Checked before the AI. A match applies this warning level without an AI call.
+            </p>
+          </div>
+          <PatternTester matchType={formData.matchType} patterns={patterns} />
+        </>
+      )}
+
       <div className="flex items-center space-x-2">
         <Switch
           id="visible"
@@ -113,6 +237,8 @@ function RuleForm({
 }
 
 function SortableRule({ rule }: { rule: Rule }) {
+  const { can } = useUser();
+  const canEdit = can("config.edit");
   const {
     attributes,
     listeners,
@@ -120,7 +246,7 @@ function SortableRule({ rule }: { rule: Rule }) {
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: rule.id });
+  } = useSortable({ id: rule.id, disabled: !canEdit });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -231,47 +357,58 @@ function SortableRule({ rule }: { rule: Rule }) {
       }`}
     >
       <div className="flex items-start gap-2">
-        <button
-          {...attributes}
-          {...listeners}
-          className="mt-0.5 p-1 hover:bg-accent rounded"
-        >
-          <GripVertical className="h-3 w-3 text-muted-foreground" />
-        </button>
+        {canEdit && (
+          <button
+            {...attributes}
+            {...listeners}
+            className="mt-0.5 p-1 hover:bg-accent rounded"
+          >
+            <GripVertical className="h-3 w-3 text-muted-foreground" />
+          </button>
+        )}
         <div className="flex-1">
           <div className="flex items-center justify-between">
-            <h4 className="text-sm font-medium">{rule.name}</h4>
-            <div className="flex gap-1">
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-7 w-7"
-                onClick={() => toggleVisibilityMutation.mutate()}
-                title={isVisible ? "Hide warning message" : "Show warning message"}
-              >
-                {isVisible ? (
-                  <Eye className="h-3 w-3" />
-                ) : (
-                  <EyeOff className="h-3 w-3" />
-                )}
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-7 w-7"
-                onClick={() => setEditing(true)}
-              >
-                <Pencil className="h-3 w-3" />
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-7 w-7"
-                onClick={() => deleteMutation.mutate()}
-              >
-                <Trash2 className="h-3 w-3" />
-              </Button>
+            <div className="flex items-center gap-2">
+              <h4 className="text-sm font-medium">{rule.name}</h4>
+              {rule.matchType !== "ai" && (
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                  {MATCH_TYPES.find((t) => t.value === rule.matchType)?.label ?? rule.matchType}
+                </Badge>
+              )}
             </div>
+            {canEdit && (
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7"
+                  onClick={() => toggleVisibilityMutation.mutate()}
+                  title={isVisible ? "Hide warning message" : "Show warning message"}
+                >
+                  {isVisible ? (
+                    <Eye className="h-3 w-3" />
+                  ) : (
+                    <EyeOff className="h-3 w-3" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7"
+                  onClick={() => setEditing(true)}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7"
+                  onClick={() => deleteMutation.mutate()}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
           </div>
           <p className="text-xs mt-0.5">{rule.description}</p>
         </div>
@@ -298,6 +435,8 @@ function SortableRule({ rule }: { rule: Rule }) {
 
 export function WarningLevelCard({ level }: { level: WarningLevel }) {
   const { toast } = useToast();
+  const { can } = useUser();
+  const canEdit = can("config.edit");
   const queryClient = useQueryClient();
   const [_, setLocation] = useLocation();
   const [editing, setEditing] = useState(false);
@@ -408,6 +547,8 @@ export function WarningLevelCard({ level }: { level: WarningLevel }) {
   const emptyRule: RuleFormData = {
     name: "",
     description: "",
+    matchType: "ai",
+    patterns: [],
   };
 
   return (
@@ -436,39 +577,45 @@ export function WarningLevelCard({ level }: { level: WarningLevel }) {
                 <Eye className="h-3 w-3" />
               )}
             </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              className="h-7 w-7"
-              onClick={() => setEditing(true)}
-            >
-              <Pencil className="h-3 w-3" />
-            </Button>
-          </CardTitle>
-          <Dialog open={addingRule} onOpenChange={setAddingRule}>
-            <DialogTrigger asChild>
-              <Button size="sm" className="h-7 text-xs">
-                <Plus className="h-3 w-3 mr-1" />
-                Add Rule
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7"
+                onClick={() => setEditing(true)}
+              >
+                <Pencil className="h-3 w-3" />
               </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-sm">
-              <DialogHeader>
-                <DialogTitle>Add Rule</DialogTitle>
-                <DialogDescription>
-                  Create a new rule for the {level.name} warning level.
-                </DialogDescription>
-              </DialogHeader>
-              <RuleForm
-                initialData={emptyRule}
-                onSubmit={createMutation.mutate}
-                title="Create Rule"
-              />
-            </DialogContent>
-          </Dialog>
+            )}
+          </CardTitle>
+          {canEdit && (
+            <Dialog open={addingRule} onOpenChange={setAddingRule}>
+              <DialogTrigger asChild>
+                <Button size="sm" className="h-7 text-xs">
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Rule
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-sm">
+                <DialogHeader>
+                  <DialogTitle>Add Rule</DialogTitle>
+                  <DialogDescription>
+                    Create a new rule for the {level.name} warning level.
+                  </DialogDescription>
+                </DialogHeader>
+                <RuleForm
+                  initialData={emptyRule}
+                  onSubmit={createMutation.mutate}
+                  title="Create Rule"
+                />
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
         <p className="text-xs text-muted-foreground">
           {level.points} point{level.points !== 1 ? "s" : ""}
+          {level.expiryDays && ` • Expires after ${level.expiryDays} day${level.expiryDays !== 1 ? "s" : ""}`}
+          {level.confidenceThreshold > 0 && ` • Review below ${Math.round(level.confidenceThreshold * 100)}% confidence`}
           {level.deleteMessage && " • Messages will be deleted"}
         </p>
       </CardHeader>
@@ -490,7 +637,7 @@ export function WarningLevelCard({ level }: { level: WarningLevel }) {
           </DndContext>
           {level.rules.length === 0 && (
             <p className="text-xs text-muted-foreground text-center py-3">
-              No rules yet. Click "Add Rule" to create one.
+              {canEdit ? 'No rules yet. Click "Add Rule" to create one.' : "No rules yet."}
             </p>
           )}
         </CardContent>
@@ -550,6 +697,8 @@ interface Rule {
   description: string;
   order: number;
   isVisible?: boolean;
+  matchType: string;
+  patterns: string[];
 }
 
 interface WarningLevel {
@@ -559,5 +708,8 @@ interface WarningLevel {
   points: number;
   deleteMessage: boolean;
   description: string;
+  expiryDays: number | null;
+  confidenceThreshold: number;
+  dmTemplate: string | null;
   rules: Rule[];
 }
\ No newline at end of file
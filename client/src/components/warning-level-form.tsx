@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -12,6 +13,7 @@ import {
 } from "@/components/ui/select";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { TEMPLATE_PLACEHOLDERS } from "@/components/notification-settings";
 
 interface WarningLevelFormData {
   name: string;
@@ -19,6 +21,9 @@ interface WarningLevelFormData {
   points: number;
   deleteMessage: boolean;
   description: string;
+  expiryDays?: number | null;
+  confidenceThreshold?: number;
+  dmTemplate?: string | null;
   isVisible?: boolean;
 }
 
@@ -97,6 +102,7 @@ export function WarningLevelForm({ initialData, title, levelId, onSuccess }: Pro
     onSuccess: () => {
       onSuccess?.();
       queryClient.invalidateQueries({ queryKey: ["/api/warning-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
       toast({
         title: "Warning Level Updated",
         description: "The warning level has been updated successfully.",
@@ -122,6 +128,25 @@ export function WarningLevelForm({ initialData, title, levelId, onSuccess }: Pro
       return;
     }
 
+    const threshold = formData.confidenceThreshold ?? 0;
+    if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+      toast({
+        title: "Validation Error",
+        description: "Confidence threshold must be between 0 and 100%.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.expiryDays != null && (isNaN(formData.expiryDays) || formData.expiryDays < 1)) {
+      toast({
+        title: "Validation Error",
+        description: "Expiry must be at least one day.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       if (levelId) {
         await updateMutation.mutateAsync(formData);
@@ -196,6 +221,45 @@ export function WarningLevelForm({ initialData, title, levelId, onSuccess }: Pro
         </Select>
       </div>
 
+      <div className="space-y-1">
+        <Label htmlFor="expiry-days" className="text-sm">Expires after (days)</Label>
+        <Input
+          id="expiry-days"
+          type="number"
+          min="1"
+          value={formData.expiryDays ?? ""}
+          onChange={(e) =>
+            setFormData((prev) => ({
+              ...prev,
+              expiryDays: e.target.value ? parseInt(e.target.value) : null,
+            }))
+          }
+          placeholder="Never"
+          className="h-8 text-sm"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="confidence-threshold" className="text-sm">Review below confidence (%)</Label>
+        <Input
+          id="confidence-threshold"
+          type="number"
+          min="0"
+          max="100"
+          value={Math.round((formData.confidenceThreshold ?? 0) * 100)}
+          onChange={(e) =>
+            setFormData((prev) => ({
+              ...prev,
+              confidenceThreshold: e.target.value ? parseInt(e.target.value) / 100 : 0,
+            }))
+          }
+          className="h-8 text-sm"
+        />
+        <p className="text-xs text-muted-foreground">
+          Less confident verdicts wait in the review queue. 0 applies every verdict.
+        </p>
+      </div>
+
       <div className="flex items-center space-x-2 py-1">
         <Switch
           id="delete-message"
@@ -223,6 +287,24 @@ export function WarningLevelForm({ initialData, title, levelId, onSuccess }: Pro
         />
       </div>
 
+      <div className="space-y-1">
+        <Label htmlFor="dm-template" className="text-sm">Direct message</Label>
+        <Textarea
+          id="dm-template"
+          value={formData.dmTemplate ?? ""}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, dmTemplate: e.target.value }))
+          }
+          placeholder="Leave empty for the default message"
+          maxLength={1500}
+          rows={3}
+          className="text-sm"
+        />
+        <p className="text-xs text-muted-foreground">
+          Sent to the user when DMs are on. You can use {TEMPLATE_PLACEHOLDERS}.
+        </p>
+      </div>
+
       <div className="flex items-center space-x-2 py-1">
         <Switch
           id="warning-visible"
@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { SelectGuild } from "@db/schema";
+
+type GuildsResponse = {
+  guilds: SelectGuild[];
+  selectedGuildId: string | null;
+};
+
+export function useGuild() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<GuildsResponse>({
+    queryKey: ["/api/guilds"],
+  });
+
+  const selectMutation = useMutation({
+    mutationFn: async (guildId: string) => {
+      const response = await fetch("/api/guilds/select", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ guildId }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      // Every guild-scoped query needs to be refetched for the new guild
+      queryClient.invalidateQueries();
+    },
+  });
+
+  const guilds = data?.guilds ?? [];
+  const selectedGuild = guilds.find((guild) => guild.id === data?.selectedGuildId) ?? null;
+
+  return {
+    guilds,
+    selectedGuild,
+    isLoading,
+    selectGuild: selectMutation.mutateAsync,
+  };
+}
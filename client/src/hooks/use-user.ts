@@ -1,17 +1,40 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import type { InsertAdminUser, SelectAdminUser } from "@db/schema";
 
+export type Permission =
+  | "dashboard.view"
+  | "moderation.act"
+  | "users.reset"
+  | "config.edit"
+  | "audit.view"
+  | "accounts.manage"
+  | "settings.manage";
+
+// The logged-in account as returned by /api/user, without credentials or lockout state
+export type DashboardUser = Omit<SelectAdminUser, "password" | "totpSecret" | "failedLoginAttempts" | "lockedUntil"> & {
+  permissions: Permission[];
+};
+
+type LoginData = InsertAdminUser & {
+  totpCode?: string;
+};
+
+type RegisterData = InsertAdminUser & {
+  inviteToken?: string;
+};
+
 type RequestResult = {
   ok: true;
 } | {
   ok: false;
   message: string;
+  twoFactorRequired?: boolean;
 };
 
 async function handleRequest(
   url: string,
   method: string,
-  body?: InsertAdminUser
+  body?: LoginData | RegisterData
 ): Promise<RequestResult> {
   try {
     const response = await fetch(url, {
@@ -26,6 +49,12 @@ async function handleRequest(
         return { ok: false, message: response.statusText };
       }
 
+      // Login answers with JSON when it needs an authenticator code
+      if (response.headers.get("Content-Type")?.includes("application/json")) {
+        const { message, twoFactorRequired } = await response.json();
+        return { ok: false, message, twoFactorRequired };
+      }
+
       const message = await response.text();
       return { ok: false, message };
     }
@@ -36,7 +65,7 @@ async function handleRequest(
   }
 }
 
-async function fetchUser(): Promise<SelectAdminUser | null> {
+async function fetchUser(): Promise<DashboardUser | null> {
   const response = await fetch('/api/user', {
     credentials: 'include'
   });
@@ -59,20 +88,27 @@ async function fetchUser(): Promise<SelectAdminUser | null> {
 export function useUser() {
   const queryClient = useQueryClient();
 
-  const { data: user, error, isLoading } = useQuery<SelectAdminUser | null, Error>({
+  const { data: user, error, isLoading } = useQuery<DashboardUser | null, Error>({
     queryKey: ['user'],
     queryFn: fetchUser,
     staleTime: Infinity,
     retry: false
   });
 
-  const loginMutation = useMutation<RequestResult, Error, InsertAdminUser>({
+  const loginMutation = useMutation<RequestResult, Error, LoginData>({
     mutationFn: (userData) => handleRequest('/api/login', 'POST', userData),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['user'] });
     },
   });
 
+  const registerMutation = useMutation<RequestResult, Error, RegisterData>({
+    mutationFn: (userData) => handleRequest('/api/register', 'POST', userData),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user'] });
+    },
+  });
+
   const logoutMutation = useMutation<RequestResult, Error>({
     mutationFn: () => handleRequest('/api/logout', 'POST'),
     onSuccess: () => {
@@ -80,11 +116,22 @@ export function useUser() {
     },
   });
 
+  const logoutEverywhereMutation = useMutation<RequestResult, Error>({
+    mutationFn: () => handleRequest('/api/logout-everywhere', 'POST'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user'] });
+    },
+  });
+
   return {
     user,
     isLoading,
     error,
     login: loginMutation.mutateAsync,
+    register: registerMutation.mutateAsync,
     logout: logoutMutation.mutateAsync,
+    logoutEverywhere: logoutEverywhereMutation.mutateAsync,
+    // The server enforces permissions too; this only hides what the role can't do
+    can: (permission: Permission) => !!user?.permissions.includes(permission),
   };
 }
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Check, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+
+interface Appeal {
+  id: number;
+  warningId: number;
+  userId: string;
+  username: string;
+  reason: string;
+  status: "pending" | "accepted" | "rejected";
+  moderatorNote: string | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  warning: {
+    id: number;
+    points: number;
+    ruleTriggered: string;
+    messageContent: string;
+    messageIgnored: boolean;
+    createdAt: string;
+    level: {
+      name: string;
+      color: string;
+    };
+  };
+}
+
+function AppealCard({ appeal }: { appeal: Appeal }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useUser();
+  const [note, setNote] = useState("");
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: "accept" | "reject") => {
+      const res = await fetch(`/api/appeals/${appeal.id}/${decision}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ note }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || `Failed to ${decision} appeal`);
+      }
+      return res.json();
+    },
+    onSuccess: (data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appeals?status=pending"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appeals?status=${decision === "accept" ? "accepted" : "rejected"}`] });
+      if (decision === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["/api/warnings"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      }
+
+      const outcome = decision === "accept"
+        ? `Warning pardoned${data.totalPoints !== null ? ` (Total: ${data.totalPoints})` : ""}`
+        : "The warning stays on record";
+
+      toast({
+        title: decision === "accept" ? "Appeal Accepted" : "Appeal Rejected",
+        description: `${outcome} • ${data.userNotified ? "User notified by DM" : "Could not DM the user"}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReject = () => {
+    if (!note.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please add a note explaining why the appeal is rejected.",
+        variant: "destructive",
+      });
+      return;
+    }
+    decideMutation.mutate("reject");
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex justify-between items-start mb-2">
+          <div>
+            <p className="font-semibold">{appeal.username}</p>
+            <p className="text-sm text-muted-foreground">
+              Appealed {format(new Date(appeal.createdAt), "PPp")}
+            </p>
+          </div>
+          <Badge
+            style={{
+              backgroundColor: appeal.warning.level.color,
+              color: "white",
+            }}
+          >
+            {appeal.warning.level.name}
+          </Badge>
+        </div>
+
+        <div className="space-y-1 text-sm text-muted-foreground mb-2">
+          <p>
+            <span className="font-medium">Warning #{appeal.warning.id}:</span>{" "}
+            {appeal.warning.ruleTriggered} • {appeal.warning.points} point{appeal.warning.points !== 1 ? "s" : ""} •{" "}
+            {format(new Date(appeal.warning.createdAt), "PP")}
+          </p>
+          <p className="rounded-md bg-muted p-2">{appeal.warning.messageContent}</p>
+        </div>
+
+        <p className="text-sm">
+          <span className="font-medium">Appeal:</span> {appeal.reason}
+        </p>
+
+        {appeal.status !== "pending" && (
+          <div className="space-y-1 text-sm text-muted-foreground mt-2">
+            {appeal.moderatorNote && (
+              <p><span className="font-medium">Note:</span> {appeal.moderatorNote}</p>
+            )}
+            {appeal.decidedBy && (
+              <p>
+                {appeal.status === "accepted" ? "Accepted" : "Rejected"} by {appeal.decidedBy}
+                {appeal.decidedAt && ` on ${format(new Date(appeal.decidedAt), "PPp")}`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {appeal.status === "pending" && can("moderation.act") && (
+          <div className="space-y-2 mt-4">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the user (required when rejecting)"
+              rows={2}
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={decideMutation.isPending}
+                onClick={handleReject}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                disabled={decideMutation.isPending}
+                onClick={() => decideMutation.mutate("accept")}
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Accept
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AppealsPage() {
+  const [status, setStatus] = useState<Appeal["status"]>("pending");
+
+  const { data: appeals = [], isLoading } = useQuery<Appeal[]>({
+    queryKey: [`/api/appeals?status=${status}`],
+    // Users submit appeals from Discord at any time
+    refetchInterval: 30000,
+  });
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <h1 className="text-3xl font-bold mb-2">Appeals</h1>
+      <p className="text-muted-foreground mb-6">
+        Users appeal warnings with the Appeal button on the warning message. Accepting pardons the warning, and the user is told the outcome by DM.
+      </p>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as Appeal["status"])} className="w-full">
+        <TabsList className="w-full mb-6">
+          <TabsTrigger value="pending" className="flex-1">Pending</TabsTrigger>
+          <TabsTrigger value="accepted" className="flex-1">Accepted</TabsTrigger>
+          <TabsTrigger value="rejected" className="flex-1">Rejected</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="grid grid-cols-1 gap-4">
+        {isLoading ? (
+          <p>Loading appeals...</p>
+        ) : appeals.length === 0 ? (
+          <p>{status === "pending" ? "No appeals waiting for a decision" : `No ${status} appeals`}</p>
+        ) : (
+          appeals.map((appeal) => <AppealCard key={appeal.id} appeal={appeal} />)
+        )}
+      </div>
+    </div>
+  );
+}
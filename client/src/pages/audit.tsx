@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download } from "lucide-react";
+
+interface AuditEntry {
+  id: number;
+  guildId: string | null;
+  actorType: "admin" | "moderator" | "user" | "bot" | "system";
+  actorId: string | null;
+  actorName: string;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  changes: {
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+  } | null;
+  createdAt: string;
+}
+
+interface AuditFilters {
+  action: string;
+  actorType: string;
+  actor: string;
+  from: string;
+  to: string;
+}
+
+const ACTION_CATEGORIES = [
+  { value: "warning.", label: "Warnings" },
+  { value: "punishment.", label: "Punishments" },
+  { value: "review.", label: "Reviews" },
+  { value: "appeal.", label: "Appeals" },
+  { value: "rule.", label: "Rules" },
+  { value: "warning_level.", label: "Warning levels" },
+  { value: "punishment_rule.", label: "Punishment rules" },
+  { value: "prompt_template.", label: "Prompt templates" },
+  { value: "user.", label: "Users" },
+  { value: "guild.", label: "Server settings" },
+  { value: "settings.", label: "Bot & AI settings" },
+  { value: "admin", label: "Admin accounts" }, // also matches admin_invite.*
+];
+
+const ACTOR_TYPES = ["admin", "moderator", "user", "bot", "system"];
+
+// "all" stands in for no filter, since Select items can't have empty values
+const ALL = "all";
+
+function toQueryString(filters: AuditFilters) {
+  const params = new URLSearchParams();
+  if (filters.action !== ALL) params.set("action", filters.action);
+  if (filters.actorType !== ALL) params.set("actorType", filters.actorType);
+  if (filters.actor.trim()) params.set("actor", filters.actor.trim());
+  // Date inputs give local days; send the whole day as an ISO range
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params.toString();
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function ChangesCell({ changes }: { changes: AuditEntry["changes"] }) {
+  if (!changes) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  const keys = Array.from(new Set([
+    ...Object.keys(changes.before ?? {}),
+    ...Object.keys(changes.after ?? {}),
+  ]));
+
+  return (
+    <div className="space-y-0.5 text-xs font-mono">
+      {keys.map((key) => (
+        <p key={key} className="break-all">
+          <span className="font-semibold">{key}:</span>{" "}
+          {changes.before && changes.after ? (
+            <>
+              <span className="text-muted-foreground line-through">{formatValue(changes.before[key])}</span>
+              {" → "}
+              {formatValue(changes.after[key])}
+            </>
+          ) : (
+            formatValue((changes.after ?? changes.before)?.[key])
+          )}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  const [filters, setFilters] = useState<AuditFilters>({
+    action: ALL,
+    actorType: ALL,
+    actor: "",
+    from: "",
+    to: "",
+  });
+
+  const queryString = toQueryString(filters);
+  const { data: entries = [], isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [queryString ? `/api/audit?${queryString}` : "/api/audit"],
+    // Bot actions are logged in the background
+    refetchInterval: 30000,
+  });
+
+  const updateFilter = (field: keyof AuditFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every change made from the dashboard, by moderators in Discord and by the bot itself.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <a href={`/api/audit/export${queryString ? `?${queryString}` : ""}`} download>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select value={filters.action} onValueChange={(value) => updateFilter("action", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {ACTION_CATEGORIES.map((category) => (
+                  <SelectItem key={category.value} value={category.value}>
+                    {category.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Actor type</Label>
+            <Select value={filters.actorType} onValueChange={(value) => updateFilter("actorType", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Everyone</SelectItem>
+                {ACTOR_TYPES.map((type) => (
+                  <SelectItem key={type} value={type} className="capitalize">
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="actor">Actor</Label>
+            <Input
+              id="actor"
+              value={filters.actor}
+              onChange={(e) => updateFilter("actor", e.target.value)}
+              placeholder="Search by name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="from">From</Label>
+            <Input
+              id="from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="to">To</Label>
+            <Input
+              id="to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <p>Loading audit log...</p>
+      ) : entries.length === 0 ? (
+        <p>No audit entries match these filters</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Actor</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Changes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap">
+                  {format(new Date(entry.createdAt), "PPp")}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span>{entry.actorName}</span>
+                    <Badge variant="outline" className="capitalize">{entry.actorType}</Badge>
+                  </div>
+                </TableCell>
+                <TableCell className="font-mono text-sm">{entry.action}</TableCell>
+                <TableCell className="text-sm">
+                  {entry.targetType}
+                  {entry.targetId && <span className="text-muted-foreground"> #{entry.targetId}</span>}
+                </TableCell>
+                <TableCell className="max-w-md">
+                  <ChangesCell changes={entry.changes} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
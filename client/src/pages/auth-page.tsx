@@ -1,10 +1,14 @@
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/hooks/use-user";
 
@@ -15,7 +19,30 @@ const formSchema = z.object({
 
 export default function AuthPage() {
   const { toast } = useToast();
-  const { login } = useUser();
+  const { login, register } = useUser();
+  const searchParams = new URLSearchParams(window.location.search);
+  // Invite links from the Accounts settings point here with ?invite=<token>
+  const inviteToken = searchParams.get("invite");
+  // Set by the Discord login callback when Discord sign-in was refused
+  const authError = searchParams.get("authError");
+  // Accounts with two-factor authentication are asked for a code after the password
+  const [needsCode, setNeedsCode] = useState(false);
+  const [totpCode, setTotpCode] = useState("");
+
+  const { data: authMethods } = useQuery<{ discord: boolean }>({
+    queryKey: ["/api/auth/methods"],
+  });
+
+  useEffect(() => {
+    if (authError) {
+      toast({
+        title: "Error",
+        description: authError,
+        variant: "destructive",
+      });
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, [authError]);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -27,8 +54,15 @@ export default function AuthPage() {
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
     try {
-      const result = await login(values);
+      const result = inviteToken
+        ? await register({ ...values, inviteToken })
+        : await login(needsCode ? { ...values, totpCode } : values);
       if (!result.ok) {
+        if (result.twoFactorRequired && !needsCode) {
+          setNeedsCode(true);
+          return;
+        }
+        setTotpCode("");
         toast({
           title: "Error",
           description: result.message,
@@ -36,6 +70,10 @@ export default function AuthPage() {
         });
         return;
       }
+      if (inviteToken) {
+        // Drop the used token from the address bar
+        window.history.replaceState(null, "", window.location.pathname);
+      }
     } catch (error: any) {
       toast({
         title: "Error",
@@ -49,9 +87,11 @@ export default function AuthPage() {
     <div className="container mx-auto flex items-center justify-center min-h-screen p-4">
       <Card className="w-full max-w-md">
         <CardHeader>
-          <CardTitle>Admin Login</CardTitle>
+          <CardTitle>{inviteToken ? "Create Account" : "Admin Login"}</CardTitle>
           <CardDescription>
-            Please enter your credentials to continue
+            {inviteToken
+              ? "You've been invited to the dashboard. Choose a username and password."
+              : "Please enter your credentials to continue"}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -77,17 +117,34 @@ export default function AuthPage() {
                   <FormItem>
                     <FormLabel>Password</FormLabel>
                     <FormControl>
-                      <Input {...field} type="password" autoComplete="current-password" />
+                      <Input {...field} type="password" autoComplete={inviteToken ? "new-password" : "current-password"} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              {needsCode && (
+                <div className="space-y-2">
+                  <Label>Authenticator code</Label>
+                  <InputOTP maxLength={6} value={totpCode} onChange={setTotpCode} autoFocus>
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
               <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
-                Login
+                {inviteToken ? "Create Account" : "Login"}
               </Button>
             </form>
           </Form>
+          {authMethods?.discord && !inviteToken && (
+            <Button variant="outline" className="w-full mt-4" asChild>
+              <a href="/api/auth/discord">Login with Discord</a>
+            </Button>
+          )}
         </CardContent>
       </Card>
     </div>
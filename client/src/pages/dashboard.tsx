@@ -2,9 +2,12 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Bell } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
 import { WarningCard, type Warning, type User } from "./history";
 import {
   Dialog,
@@ -25,9 +28,11 @@ const TEST_USER = {
 
 export default function Dashboard() {
   const [message, setMessage] = useState("");
+  const [enforce, setEnforce] = useState(false);
   const [selectedWarning, setSelectedWarning] = useState<Warning | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useUser();
 
   const { data: warnings } = useQuery<Warning[]>({
     queryKey: [`/api/warnings?userId=${TEST_USER.id}`],
@@ -38,7 +43,7 @@ export default function Dashboard() {
   });
 
   const moderateMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, enforce }: { content: string; enforce: boolean }) => {
       const response = await fetch("/api/test/moderate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -46,6 +51,7 @@ export default function Dashboard() {
           content,
           userId: TEST_USER.id,
           username: TEST_USER.username,
+          enforce,
         }),
       });
 
@@ -59,9 +65,28 @@ export default function Dashboard() {
       queryClient.invalidateQueries({ queryKey: [`/api/warnings?userId=${TEST_USER.id}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/users/${TEST_USER.id}`] });
 
-      const color =
-        data.warningLevel === "red" ? "destructive" :
-          data.warningLevel === "orange" ? "warning" : "default";
+      const color = data.deleteMessage ? "destructive" : "default";
+
+      // Previews aren't stored, so say what would have happened
+      if (!data.enforced && data.warningLevel !== "none") {
+        toast({
+          title: `${data.warningLevel.toUpperCase()} Warning (Preview)`,
+          description: data.needsReview
+            ? `Only ${Math.round(data.confidence * 100)}% confident, so it would be held for review. Nothing was recorded.`
+            : `Would add +${data.points} points (Total: ${data.totalPoints}). Nothing was recorded.`,
+          variant: color,
+        });
+        return;
+      }
+
+      if (data.pendingReviewId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/reviews?status=pending"] });
+        toast({
+          title: `${data.warningLevel.toUpperCase()} Verdict Held for Review`,
+          description: `Only ${Math.round(data.confidence * 100)}% confident. Approve or reject it in the review queue.`,
+        });
+        return;
+      }
 
       if (data.warningLevel !== "none") {
         toast({
@@ -77,7 +102,11 @@ export default function Dashboard() {
     e.preventDefault();
     if (!message.trim()) return;
 
-    moderateMutation.mutate(message);
+    if (enforce && !confirm(`Apply this test warning to ${TEST_USER.username} in Discord? If they're a member, they'll get a DM and any punishment it earns.`)) {
+      return;
+    }
+
+    moderateMutation.mutate({ content: message, enforce });
     setMessage("");
   };
 
@@ -91,40 +120,52 @@ export default function Dashboard() {
             <CardTitle className="text-base">Test Message Moderation</CardTitle>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <Input
-                  value={message}
-                  onChange={(e) => setMessage(e.target.value)}
-                  placeholder="Type a message to test moderation..."
-                  disabled={user?.isBanned}
-                />
-                <p className="text-sm text-muted-foreground mt-2">
-                  Try including words like "spam", "threat", or "hate" to trigger warnings
-                </p>
-              </div>
-              <div className="flex items-center justify-between">
-                <Button
-                  type="submit"
-                  disabled={!message.trim() || user?.isBanned || moderateMutation.isPending}
-                >
-                  Send Message
-                </Button>
-                {user && (
-                  <div className="text-right">
-                    <p className="font-medium">Points: {user.totalPoints}/10</p>
-                    {user.isBanned && (
-                      <p className="text-red-600 font-semibold">BANNED</p>
-                    )}
-                    {user.isMuted && (
-                      <p className="text-orange-600 font-semibold">
-                        MUTED until {new Date(user.muteExpiresAt!).toLocaleTimeString()}
-                      </p>
-                    )}
-                  </div>
-                )}
-              </div>
-            </form>
+            {can("moderation.act") ? (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Input
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="Type a message to test moderation..."
+                    disabled={user?.isBanned}
+                  />
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Try including words like "spam", "threat", or "hate" to trigger warnings
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch id="enforce" checked={enforce} onCheckedChange={setEnforce} />
+                  <Label htmlFor="enforce" className="text-sm">
+                    Enforce (record the warning, DM, mod-log and punishments)
+                  </Label>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Button
+                    type="submit"
+                    disabled={!message.trim() || user?.isBanned || moderateMutation.isPending}
+                  >
+                    Send Message
+                  </Button>
+                  {user && (
+                    <div className="text-right">
+                      <p className="font-medium">Points: {user.totalPoints}/10</p>
+                      {user.isBanned && (
+                        <p className="text-red-600 font-semibold">BANNED</p>
+                      )}
+                      {user.isMuted && (
+                        <p className="text-orange-600 font-semibold">
+                          MUTED until {new Date(user.muteExpiresAt!).toLocaleTimeString()}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </form>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Your role can view moderation activity but can't send test messages.
+              </p>
+            )}
           </CardContent>
         </Card>
 
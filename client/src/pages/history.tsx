@@ -24,9 +24,12 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { Filter, AlertTriangle, Ban, Search, RotateCw } from "lucide-react";
+import { Filter, AlertTriangle, Clock, Ban, Search, RotateCw, Pencil } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
 import { Textarea } from "@/components/ui/textarea";
+import { EditHistory, type MessageEdit } from "@/components/edit-history";
+import { AttachmentPreviews, type MediaAttachment } from "@/components/attachment-previews";
 
 // Extract interfaces so they can be imported by other components
 export interface Warning {
@@ -38,15 +41,21 @@ export interface Warning {
   ruleTriggered: string;
   messageContent: string;
   messageContext: {
-    channelId: string;
-    channelName: string;
+    channelName: string | null;
+    messages?: { author: string; content: string }[];
   };
+  channelId: string | null;
+  messageId: string | null;
+  editHistory: MessageEdit[];
+  attachments: MediaAttachment[];
   createdAt: string;
   messageDeleted: boolean;
   messageIgnored: boolean;
   ignoredAt?: string;
   ignoredBy?: string;
   ignoreReason?: string;
+  expiresAt: string | null;
+  expired: boolean;
   level: {
     name: string;
     color: string;
@@ -60,6 +69,7 @@ export interface User {
   isBanned: boolean;
   isMuted: boolean;
   muteExpiresAt: string | null;
+  watchlisted: boolean;
   warningCount: number;
   activeWarnings: number;
 }
@@ -76,7 +86,7 @@ export const WarningCard = ({ warning, onSelect }: { warning: Warning; onSelect?
   const [isExpanded, setIsExpanded] = useState(false);
 
   return (
-    <Card className={warning.messageIgnored ? 'bg-muted' : ''}>
+    <Card className={warning.messageIgnored || warning.expired ? 'bg-muted' : ''}>
       <CardContent className="p-4">
         <div className="flex justify-between items-start mb-2">
           <div>
@@ -86,12 +96,24 @@ export const WarningCard = ({ warning, onSelect }: { warning: Warning; onSelect?
             </p>
           </div>
           <div className="flex items-center gap-2">
+            {warning.editHistory.length > 0 && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Pencil className="w-3 h-3" />
+                Edited
+              </Badge>
+            )}
             {warning.messageIgnored && (
               <Badge variant="outline" className="flex items-center gap-1">
                 <Ban className="w-3 h-3" />
                 Ignored
               </Badge>
             )}
+            {warning.expired && !warning.messageIgnored && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                Expired
+              </Badge>
+            )}
             {warning.level && (
               <Badge
                 style={{
@@ -105,11 +127,22 @@ export const WarningCard = ({ warning, onSelect }: { warning: Warning; onSelect?
           </div>
         </div>
         <p className={`text-sm mb-2 ${isExpanded ? '' : 'line-clamp-2'}`}>{warning.messageContent}</p>
+        {warning.attachments.length > 0 && (
+          <div className="mb-2">
+            <AttachmentPreviews attachments={warning.attachments} />
+          </div>
+        )}
 
         {isExpanded && (
           <div className="mt-2 space-y-2 text-sm text-muted-foreground">
             <p><span className="font-medium">Rule Triggered:</span> {warning.ruleTriggered}</p>
             <p><span className="font-medium">Points:</span> {warning.points}</p>
+            {warning.expiresAt && (
+              <p>
+                <span className="font-medium">{warning.expired ? "Expired" : "Expires"}:</span>{" "}
+                {format(new Date(warning.expiresAt), "PPpp")}
+              </p>
+            )}
             {warning.messageIgnored && (
               <>
                 <p>
@@ -156,6 +189,7 @@ export const WarningCard = ({ warning, onSelect }: { warning: Warning; onSelect?
 
 export default function HistoryPage() {
   const { toast } = useToast();
+  const { can } = useUser();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState("warnings");
   const [selectedWarning, setSelectedWarning] = useState<Warning | null>(null);
@@ -164,7 +198,8 @@ export default function HistoryPage() {
   const [selectedWarningTypes, setSelectedWarningTypes] = useState(
     new Set(WARNING_TYPES.map((t) => t.value).filter((t) => t !== "none"))
   );
-  const [searchTerm, setSearchTerm] = useState("");
+  // Mod-log posts link here with the user to search for
+  const [searchTerm, setSearchTerm] = useState(() => new URLSearchParams(window.location.search).get("search") ?? "");
   const [userSearchTerm, setUserSearchTerm] = useState("");
 
   // Query for all warnings (used in the warnings tab)
@@ -183,11 +218,11 @@ export default function HistoryPage() {
   });
 
   const ignoreWarningMutation = useMutation({
-    mutationFn: async ({ warningId, userId, reason }: { warningId: number; userId: string; reason: string }) => {
+    mutationFn: async ({ warningId, reason }: { warningId: number; reason: string }) => {
       const res = await fetch(`/api/warnings/${warningId}/ignore`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, reason }),
+        body: JSON.stringify({ reason }),
       });
       if (!res.ok) throw new Error(await res.text());
       return res.json();
@@ -391,6 +426,12 @@ export default function HistoryPage() {
                   Ignored
                 </Badge>
               )}
+              {selectedWarning?.expired && !selectedWarning.messageIgnored && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  Expired
+                </Badge>
+              )}
             </DialogTitle>
             <DialogDescription>
               Full details of the warning event
@@ -428,6 +469,10 @@ export default function HistoryPage() {
                     <h3 className="font-medium">Rule Triggered</h3>
                     <p>{selectedWarning.ruleTriggered}</p>
                   </div>
+                  <div>
+                    <h3 className="font-medium">Message Deleted</h3>
+                    <p>{selectedWarning.messageDeleted ? "Yes" : "No"}</p>
+                  </div>
                 </div>
 
                 <div className="space-y-4">
@@ -437,6 +482,12 @@ export default function HistoryPage() {
                       {selectedWarning.messageContent}
                     </p>
                   </div>
+                  {selectedWarning.attachments.length > 0 && (
+                    <div>
+                      <h3 className="font-medium mb-2">Images</h3>
+                      <AttachmentPreviews attachments={selectedWarning.attachments} large />
+                    </div>
+                  )}
                   <div>
                     <h3 className="font-medium">Points</h3>
                     <p>{selectedWarning.points}</p>
@@ -450,7 +501,27 @@ export default function HistoryPage() {
                 </div>
               </div>
 
-              {!selectedWarning.messageIgnored && (
+              {selectedWarning.editHistory.length > 0 && (
+                <div>
+                  <h3 className="font-medium mb-2">Edit History</h3>
+                  <EditHistory edits={selectedWarning.editHistory} />
+                </div>
+              )}
+
+              {!!selectedWarning.messageContext.messages?.length && (
+                <div>
+                  <h3 className="font-medium mb-2">Conversation Context</h3>
+                  <div className="rounded-md bg-muted p-3 space-y-1 text-sm max-h-48 overflow-y-auto">
+                    {selectedWarning.messageContext.messages.map((msg, index) => (
+                      <p key={index}>
+                        <span className="font-medium">{msg.author}:</span> {msg.content}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {!selectedWarning.messageIgnored && can("moderation.act") && (
                 <div>
                   <Label htmlFor="ignore-reason">Ignore Reason</Label>
                   <Textarea
@@ -473,7 +544,6 @@ export default function HistoryPage() {
                         }
                         ignoreWarningMutation.mutate({
                           warningId: selectedWarning.id,
-                          userId: selectedWarning.userId,
                           reason: ignoreReason,
                         });
                       }}
@@ -571,12 +641,16 @@ export default function HistoryPage() {
                       <p><span className="font-medium">Total Warnings:</span> {userWarnings.length}</p>
                       <p>
                         <span className="font-medium">Active Warnings:</span>{" "}
-                        {userWarnings.filter(w => !w.messageIgnored).length}
+                        {userWarnings.filter(w => !w.messageIgnored && !w.expired).length}
                       </p>
                       <p>
                         <span className="font-medium">Ignored Warnings:</span>{" "}
                         {userWarnings.filter(w => w.messageIgnored).length}
                       </p>
+                      <p>
+                        <span className="font-medium">Expired Warnings:</span>{" "}
+                        {userWarnings.filter(w => !w.messageIgnored && w.expired).length}
+                      </p>
                     </div>
                   </CardContent>
                 </Card>
@@ -14,6 +14,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
 import {
   Table,
   TableBody,
@@ -54,6 +55,8 @@ export default function PromptTemplates() {
   const [isCreating, setIsCreating] = useState(false);
   const [showHistory, setShowHistory] = useState<number | null>(null);
   const { toast } = useToast();
+  const { can } = useUser();
+  const canEdit = can("config.edit");
   const queryClient = useQueryClient();
 
   const { data: templates, isLoading } = useQuery<PromptTemplate[]>({
@@ -210,57 +213,59 @@ export default function PromptTemplates() {
     <div className="container mx-auto p-6">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">AI Prompt Templates</h1>
-        <Dialog open={isCreating} onOpenChange={setIsCreating}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Create Template
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>Create New Template</DialogTitle>
-              <DialogDescription>
-                Create a new prompt template for AI moderation.
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Template Name</Label>
-                <Input
-                  id="name"
-                  name="name"
-                  placeholder="Enter template name"
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="systemPrompt">System Prompt</Label>
-                <Textarea
-                  id="systemPrompt"
-                  name="systemPrompt"
-                  placeholder="Enter the system prompt"
-                  className="h-64 font-mono"
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>
-                  <input
-                    type="checkbox"
-                    name="isActive"
-                    value="true"
-                    className="mr-2"
-                  />
-                  Set as active template
-                </Label>
-              </div>
-              <Button type="submit" className="w-full">
+        {canEdit && (
+          <Dialog open={isCreating} onOpenChange={setIsCreating}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
                 Create Template
               </Button>
-            </form>
-          </DialogContent>
-        </Dialog>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Create New Template</DialogTitle>
+                <DialogDescription>
+                  Create a new prompt template for AI moderation.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Template Name</Label>
+                  <Input
+                    id="name"
+                    name="name"
+                    placeholder="Enter template name"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="systemPrompt">System Prompt</Label>
+                  <Textarea
+                    id="systemPrompt"
+                    name="systemPrompt"
+                    placeholder="Enter the system prompt"
+                    className="h-64 font-mono"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>
+                    <input
+                      type="checkbox"
+                      name="isActive"
+                      value="true"
+                      className="mr-2"
+                    />
+                    Set as active template
+                  </Label>
+                </div>
+                <Button type="submit" className="w-full">
+                  Create Template
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       <div className="space-y-4">
@@ -284,70 +289,72 @@ export default function PromptTemplates() {
                     <History className="h-4 w-4 mr-2" />
                     History
                   </Button>
-                  <Dialog
-                    open={selectedTemplate?.id === template.id}
-                    onOpenChange={(open) =>
-                      setSelectedTemplate(open ? template : null)
-                    }
-                  >
-                    <DialogTrigger asChild>
-                      <Button size="sm">Edit</Button>
-                    </DialogTrigger>
-                    <DialogContent className="max-w-2xl">
-                      <DialogHeader>
-                        <DialogTitle>Edit Template</DialogTitle>
-                        <DialogDescription>
-                          Update the prompt template configuration.
-                        </DialogDescription>
-                      </DialogHeader>
-                      <form onSubmit={handleSubmit} className="space-y-4">
-                        <div className="space-y-2">
-                          <Label htmlFor="name">Template Name</Label>
-                          <Input
-                            id="name"
-                            name="name"
-                            defaultValue={template.name}
-                            required
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="systemPrompt">System Prompt</Label>
-                          <Textarea
-                            id="systemPrompt"
-                            name="systemPrompt"
-                            defaultValue={template.systemPrompt}
-                            className="h-64 font-mono"
-                            required
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="reason">Reason for Change</Label>
-                          <Input
-                            id="reason"
-                            name="reason"
-                            placeholder="Why are you updating this template?"
-                            required
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label>
-                            <input
-                              type="checkbox"
-                              name="isActive"
-                              value="true"
-                              defaultChecked={template.isActive}
-                              className="mr-2"
+                  {canEdit && (
+                    <Dialog
+                      open={selectedTemplate?.id === template.id}
+                      onOpenChange={(open) =>
+                        setSelectedTemplate(open ? template : null)
+                      }
+                    >
+                      <DialogTrigger asChild>
+                        <Button size="sm">Edit</Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-2xl">
+                        <DialogHeader>
+                          <DialogTitle>Edit Template</DialogTitle>
+                          <DialogDescription>
+                            Update the prompt template configuration.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="name">Template Name</Label>
+                            <Input
+                              id="name"
+                              name="name"
+                              defaultValue={template.name}
+                              required
                             />
-                            Set as active template
-                          </Label>
-                        </div>
-                        <Button type="submit" className="w-full">
-                          Update Template
-                        </Button>
-                      </form>
-                    </DialogContent>
-                  </Dialog>
-                  {!template.isActive && (
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="systemPrompt">System Prompt</Label>
+                            <Textarea
+                              id="systemPrompt"
+                              name="systemPrompt"
+                              defaultValue={template.systemPrompt}
+                              className="h-64 font-mono"
+                              required
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="reason">Reason for Change</Label>
+                            <Input
+                              id="reason"
+                              name="reason"
+                              placeholder="Why are you updating this template?"
+                              required
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label>
+                              <input
+                                type="checkbox"
+                                name="isActive"
+                                value="true"
+                                defaultChecked={template.isActive}
+                                className="mr-2"
+                              />
+                              Set as active template
+                            </Label>
+                          </div>
+                          <Button type="submit" className="w-full">
+                            Update Template
+                          </Button>
+                        </form>
+                      </DialogContent>
+                    </Dialog>
+                  )}
+                  {canEdit && !template.isActive && (
                     <Button
                       size="sm"
                       onClick={() => activateTemplateMutation.mutate(template.id)}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Check, X, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { EditHistory, type MessageEdit } from "@/components/edit-history";
+import { AttachmentPreviews, type MediaAttachment } from "@/components/attachment-previews";
+
+interface PendingReview {
+  id: number;
+  userId: string;
+  username: string;
+  levelId: number;
+  ruleId: number | null;
+  ruleTriggered: string;
+  confidence: number;
+  messageContent: string;
+  messageContext: {
+    channelName: string | null;
+    messages?: { author: string; content: string }[];
+  };
+  channelId: string | null;
+  messageId: string | null;
+  editHistory: MessageEdit[];
+  attachments: MediaAttachment[];
+  status: "pending" | "approved" | "rejected" | "superseded";
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  warningId: number | null;
+  createdAt: string;
+  level: {
+    name: string;
+    color: string;
+    points: number;
+    deleteMessage: boolean;
+    confidenceThreshold: number;
+  };
+}
+
+const REVIEW_OUTCOMES: Record<PendingReview["status"], string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  superseded: "Replaced by a verdict on an edit",
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+function ReviewCard({ review }: { review: PendingReview }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useUser();
+  const [showContext, setShowContext] = useState(false);
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      const res = await fetch(`/api/reviews/${review.id}/${decision}`, {
+        method: "POST",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || `Failed to ${decision} review`);
+      }
+      return res.json();
+    },
+    onSuccess: (data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews?status=pending"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews?status=${decision === "approve" ? "approved" : "rejected"}`] });
+      if (decision === "approve") {
+        queryClient.invalidateQueries({ queryKey: ["/api/warnings"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      }
+
+      toast({
+        title: decision === "approve" ? "Verdict Approved" : "Verdict Rejected",
+        description: decision === "approve"
+          ? `+${review.level.points} points (Total: ${data.totalPoints})${data.messageDeleted ? " • Message deleted" : ""}${data.punishment ? ` • Punishment: ${data.punishment}` : ""}`
+          : "No action was taken against the user.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const contextMessages = review.messageContext.messages ?? [];
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex justify-between items-start mb-2">
+          <div>
+            <p className="font-semibold">{review.username}</p>
+            <p className="text-sm text-muted-foreground">
+              {review.messageContext.channelName} • {format(new Date(review.createdAt), "PPp")}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">
+              {formatPercent(review.confidence)} confident
+            </Badge>
+            <Badge
+              style={{
+                backgroundColor: review.level.color,
+                color: "white",
+              }}
+            >
+              {review.level.name}
+            </Badge>
+          </div>
+        </div>
+
+        <p className="text-sm mb-2 rounded-md bg-muted p-2">{review.messageContent}</p>
+        {review.attachments.length > 0 && (
+          <div className="mb-2">
+            <AttachmentPreviews attachments={review.attachments} />
+          </div>
+        )}
+        {review.editHistory.length > 0 && (
+          <div className="mb-2">
+            <p className="text-sm font-medium mb-1">Flagged after an edit</p>
+            <EditHistory edits={review.editHistory} />
+          </div>
+        )}
+
+        <div className="space-y-1 text-sm text-muted-foreground">
+          <p><span className="font-medium">Reason:</span> {review.ruleTriggered}</p>
+          <p>
+            <span className="font-medium">If approved:</span>{" "}
+            +{review.level.points} point{review.level.points !== 1 ? "s" : ""}
+            {review.level.deleteMessage && ", message deleted"}
+          </p>
+          <p>
+            <span className="font-medium">Level threshold:</span>{" "}
+            {formatPercent(review.level.confidenceThreshold)}
+          </p>
+          {review.status !== "pending" && review.reviewedBy && (
+            <p>
+              {REVIEW_OUTCOMES[review.status]} by {review.reviewedBy}
+              {review.reviewedAt && ` on ${format(new Date(review.reviewedAt), "PPp")}`}
+            </p>
+          )}
+        </div>
+
+        {showContext && (
+          <div className="mt-2 space-y-1 text-sm">
+            {contextMessages.length === 0 ? (
+              <p className="text-muted-foreground">No conversation context</p>
+            ) : (
+              contextMessages.map((msg, i) => (
+                <p key={i}>
+                  <span className="font-medium">{msg.author}:</span> {msg.content}
+                </p>
+              ))
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between items-center mt-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowContext(!showContext)}
+            className="h-7 px-2 text-xs"
+          >
+            {showContext ? "Hide Context" : "Show Context"}
+          </Button>
+          {review.status === "pending" && can("moderation.act") && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={decideMutation.isPending}
+                onClick={() => decideMutation.mutate("reject")}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                disabled={decideMutation.isPending}
+                onClick={() => decideMutation.mutate("approve")}
+              >
+                {review.level.deleteMessage ? (
+                  <Trash2 className="w-4 h-4 mr-1" />
+                ) : (
+                  <Check className="w-4 h-4 mr-1" />
+                )}
+                Approve
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ReviewsPage() {
+  const [status, setStatus] = useState<PendingReview["status"]>("pending");
+
+  const { data: reviews = [], isLoading } = useQuery<PendingReview[]>({
+    queryKey: [`/api/reviews?status=${status}`],
+    // The bot adds reviews in the background
+    refetchInterval: 30000,
+  });
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <h1 className="text-3xl font-bold mb-2">Review Queue</h1>
+      <p className="text-muted-foreground mb-6">
+        Verdicts below their warning level's confidence threshold wait here. The message stays in Discord until you decide.
+      </p>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as PendingReview["status"])} className="w-full">
+        <TabsList className="w-full mb-6">
+          <TabsTrigger value="pending" className="flex-1">Pending</TabsTrigger>
+          <TabsTrigger value="approved" className="flex-1">Approved</TabsTrigger>
+          <TabsTrigger value="rejected" className="flex-1">Rejected</TabsTrigger>
+          <TabsTrigger value="superseded" className="flex-1">Superseded</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="grid grid-cols-1 gap-4">
+        {isLoading ? (
+          <p>Loading reviews...</p>
+        ) : reviews.length === 0 ? (
+          <p>{status === "pending" ? "Nothing waiting for review" : `No ${status} reviews`}</p>
+        ) : (
+          reviews.map((review) => <ReviewCard key={review.id} review={review} />)
+        )}
+      </div>
+    </div>
+  );
+}
@@ -13,7 +13,7 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Bot, RefreshCw, Brain, History } from "lucide-react";
+import { Bot, RefreshCw, Brain, History, Users, ShieldCheck } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Table,
@@ -37,19 +37,27 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
+import { useGuild } from "@/hooks/use-guild";
+import { LLMProviderForm, type LLMConfig } from "@/components/llm-provider-form";
+import { AdminAccounts } from "@/components/admin-accounts";
+import { DiscordRoleMapping } from "@/components/discord-role-mapping";
+import { MediaModerationSettings } from "@/components/media-moderation-settings";
+import { SpamDetectionSettings } from "@/components/spam-detection-settings";
+import { ModerationScopeSettings } from "@/components/moderation-scope-settings";
+import { NotificationSettings } from "@/components/notification-settings";
+import { PunishmentRuleForm, PUNISHMENT_TYPE_LABELS, describePunishment, type PunishmentRuleValues } from "@/components/punishment-rule-form";
+import { TwoFactorSetup } from "@/components/two-factor-setup";
+import { useUser } from "@/hooks/use-user";
+import type { PunishmentType } from "@db/schema";
 
 interface DiscordConfig {
-  botToken?: string;
+  botTokenLast4?: string | null;
   guildId?: string;
   status: "disconnected" | "connected" | "error";
   error?: string;
 }
 
-interface OpenAIConfig {
-  status: "disconnected" | "connected" | "error";
-  error?: string;
-}
-
 interface AIPromptTemplate {
   id: number;
   name: string;
@@ -69,9 +77,12 @@ interface PromptHistory {
 
 interface PunishmentRule {
   id: number;
-  type: "ban" | "mute";
+  type: PunishmentType;
   pointThreshold: number;
-  duration?: number;
+  ruleId: number | null;
+  durationMinutes: number | null;
+  roleId: string | null;
+  slowmodeSeconds: number | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -104,13 +115,15 @@ export default function Settings() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [addingPunishmentRule, setAddingPunishmentRule] = useState(false);
-  const [selectedPunishmentType, setSelectedPunishmentType] = useState<"ban" | "mute">("mute");
+  const [copySourceGuildId, setCopySourceGuildId] = useState<string>("");
+  const { guilds, selectedGuild } = useGuild();
+  const { can } = useUser();
 
   const { data: discordConfig, isLoading: isLoadingDiscord } = useQuery<DiscordConfig>({
     queryKey: ["/api/settings/discord"],
   });
 
-  const { data: openaiConfig, isLoading: isLoadingOpenAI } = useQuery<OpenAIConfig>({
+  const { data: openaiConfig, isLoading: isLoadingOpenAI } = useQuery<LLMConfig>({
     queryKey: ["/api/settings/openai"],
   });
 
@@ -146,38 +159,6 @@ export default function Settings() {
     },
   });
 
-  const updateOpenAIMutation = useMutation({
-    mutationFn: async (config: { apiKey: string }) => {
-      const response = await fetch("/api/settings/openai", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(config),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(error);
-      }
-
-      return response.json();
-    },
-    onSuccess: () => {
-      setConfiguringOpenAI(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/settings/openai"] });
-      toast({
-        title: "OpenAI Settings Updated",
-        description: "The OpenAI API settings have been updated successfully.",
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
   const checkDiscordStatusMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch("/api/settings/discord/status", {
@@ -224,7 +205,7 @@ export default function Settings() {
       queryClient.invalidateQueries({ queryKey: ["/api/settings/openai"] });
       toast({
         title: "Status Checked",
-        description: "OpenAI API connection status has been verified.",
+        description: "AI provider connection status has been verified.",
       });
     },
     onError: (error) => {
@@ -287,11 +268,7 @@ export default function Settings() {
   });
 
   const createPunishmentRuleMutation = useMutation({
-    mutationFn: async (data: {
-      type: "ban" | "mute";
-      pointThreshold: number;
-      duration?: number;
-    }) => {
+    mutationFn: async (data: PunishmentRuleValues) => {
       const response = await fetch("/api/punishment-rules", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -299,8 +276,8 @@ export default function Settings() {
       });
 
       if (!response.ok) {
-        const error = await response.text();
-        throw new Error(error);
+        const error = await response.json();
+        throw new Error(error.message || "Failed to create punishment rule");
       }
 
       return response.json();
@@ -349,6 +326,76 @@ export default function Settings() {
     },
   });
 
+  const updateGuildMutation = useMutation({
+    mutationFn: async ({ id, ...data }: {
+      id: string;
+      sharePoints?: boolean;
+      forgivenessPointsPerWeek?: number;
+      moderatorRoleId?: string | null;
+    }) => {
+      const response = await fetch(`/api/guilds/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guilds"] });
+      // Point totals are recalculated when decay settings change
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Server Updated",
+        description: "The server settings have been updated successfully.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyGuildConfigMutation = useMutation({
+    mutationFn: async (data: { id: string; sourceGuildId: string }) => {
+      const response = await fetch(`/api/guilds/${data.id}/copy-config`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sourceGuildId: data.sourceGuildId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      setCopySourceGuildId("");
+      queryClient.invalidateQueries();
+      toast({
+        title: "Configuration Copied",
+        description: "Rules, punishments and the prompt template have been copied.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const { data: warningLevels } = useQuery<WarningLevel[]>({
     queryKey: ["/api/warning-levels"],
   });
@@ -385,7 +432,8 @@ export default function Settings() {
     const botToken = formData.get("botToken") as string;
     const guildId = formData.get("guildId") as string;
 
-    if (!botToken || !guildId) {
+    // A blank token keeps the saved one
+    if ((!botToken && !discordConfig?.botTokenLast4) || !guildId) {
       toast({
         title: "Error",
         description: "Please fill in all required fields.",
@@ -397,41 +445,9 @@ export default function Settings() {
     updateDiscordMutation.mutate({ botToken, guildId });
   };
 
-  const handleOpenAISubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const apiKey = formData.get("apiKey") as string;
-
-    if (!apiKey) {
-      toast({
-        title: "Error",
-        description: "Please fill in the API key.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    updateOpenAIMutation.mutate({ apiKey });
-  };
-
-  const handlePunishmentRuleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const type = formData.get("type") as "ban" | "mute";
-    const pointThreshold = parseInt(formData.get("pointThreshold") as string);
-    const duration = type === "mute" ? parseInt(formData.get("duration") as string) : undefined;
-
-    if (!type || isNaN(pointThreshold) || (type === "mute" && isNaN(duration!))) {
-      toast({
-        title: "Error",
-        description: "Please fill in all required fields with valid values.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    createPunishmentRuleMutation.mutate({ type, pointThreshold, duration });
-  };
+  const ruleNames = new Map(
+    (warningLevels || []).flatMap((level) => level.rules.map((rule) => [rule.id, rule.name] as const))
+  );
 
   return (
     <div className="container mx-auto p-6">
@@ -467,182 +483,326 @@ export default function Settings() {
                     )}
                   </div>
                   <div className="flex flex-col sm:flex-row items-end sm:items-center gap-2 sm:gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => checkDiscordStatusMutation.mutate()}
-                      disabled={checkDiscordStatusMutation.isPending}
-                    >
-                      <RefreshCw
-                        className={`h-4 w-4 mr-2 ${
-                          checkDiscordStatusMutation.isPending ? "animate-spin" : ""
-                        }`}
-                      />
-                      Check Status
-                    </Button>
-                    <Dialog open={configuringDiscord} onOpenChange={setConfiguringDiscord}>
-                      <DialogTrigger asChild>
-                        <Button size="sm">Configure</Button>
-                      </DialogTrigger>
-                      <DialogContent className="max-w-4xl">
-                        <DialogHeader>
-                          <DialogTitle>Discord Configuration</DialogTitle>
-                          <DialogDescription>
-                            Configure Discord bot settings and punishment rules.
-                          </DialogDescription>
-                        </DialogHeader>
-
-                        <Tabs defaultValue="connection">
-                          <TabsList className="grid w-full grid-cols-2">
-                            <TabsTrigger value="connection">Connection</TabsTrigger>
-                            <TabsTrigger value="punishments">Punishment Rules</TabsTrigger>
-                          </TabsList>
-
-                          <TabsContent value="connection">
-                            <form onSubmit={handleDiscordSubmit} className="space-y-4">
-                              <div className="space-y-2">
-                                <Label htmlFor="botToken">Bot Token</Label>
-                                <Input
-                                  id="botToken"
-                                  name="botToken"
-                                  type="password"
-                                  defaultValue={discordConfig?.botToken}
-                                  placeholder="Enter your Discord bot token"
-                                />
-                              </div>
-                              <div className="space-y-2">
-                                <Label htmlFor="guildId">Server ID</Label>
-                                <Input
-                                  id="guildId"
-                                  name="guildId"
-                                  defaultValue={discordConfig?.guildId}
-                                  placeholder="Enter your Discord server ID"
-                                />
-                              </div>
-                              <Button
-                                type="submit"
-                                className="w-full"
-                                disabled={updateDiscordMutation.isPending}
-                              >
-                                Save Configuration
-                              </Button>
-                            </form>
-                          </TabsContent>
-
-                          <TabsContent value="punishments">
-                            <div className="space-y-4">
-                              <div className="flex justify-between items-center">
-                                <h3 className="text-lg font-medium">Punishment Rules</h3>
-                                <Dialog
-                                  open={addingPunishmentRule}
-                                  onOpenChange={setAddingPunishmentRule}
-                                >
-                                  <DialogTrigger asChild>
-                                    <Button size="sm">Add Rule</Button>
-                                  </DialogTrigger>
-                                  <DialogContent>
-                                    <DialogHeader>
-                                      <DialogTitle>Add Punishment Rule</DialogTitle>
-                                      <DialogDescription>
-                                        Create a new punishment rule based on warning points.
-                                      </DialogDescription>
-                                    </DialogHeader>
-                                    <form onSubmit={handlePunishmentRuleSubmit} className="space-y-4">
-                                      <div className="space-y-2">
-                                        <Label htmlFor="type">Punishment Type</Label>
-                                        <Select
-                                          name="type"
-                                          defaultValue="mute"
-                                          onValueChange={(value) =>
-                                            setSelectedPunishmentType(value as "ban" | "mute")
-                                          }
-                                        >
-                                          <SelectTrigger>
-                                            <SelectValue placeholder="Select type" />
-                                          </SelectTrigger>
-                                          <SelectContent>
-                                            <SelectItem value="mute">Mute</SelectItem>
-                                            <SelectItem value="ban">Ban</SelectItem>
-                                          </SelectContent>
-                                        </Select>
-                                      </div>
-                                      <div className="space-y-2">
-                                        <Label htmlFor="pointThreshold">Point Threshold</Label>
-                                        <Input
-                                          id="pointThreshold"
-                                          name="pointThreshold"
-                                          type="number"
-                                          min="1"
-                                          placeholder="Enter point threshold"
-                                          required
-                                        />
-                                      </div>
-                                      {selectedPunishmentType === "mute" && (
-                                        <div className="space-y-2">
-                                          <Label htmlFor="duration">
-                                            Duration (hours)
-                                          </Label>
-                                          <Input
-                                            id="duration"
-                                            name="duration"
-                                            type="number"
-                                            min="1"
-                                            placeholder="Enter duration in hours"
-                                            required
-                                          />
-                                        </div>
-                                      )}
-                                      <Button type="submit" className="w-full">
-                                        Create Rule
-                                      </Button>
-                                    </form>
-                                  </DialogContent>
-                                </Dialog>
-                              </div>
+                    {can("settings.manage") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => checkDiscordStatusMutation.mutate()}
+                        disabled={checkDiscordStatusMutation.isPending}
+                      >
+                        <RefreshCw
+                          className={`h-4 w-4 mr-2 ${
+                            checkDiscordStatusMutation.isPending ? "animate-spin" : ""
+                          }`}
+                        />
+                        Check Status
+                      </Button>
+                    )}
+                    {can("config.edit") && (
+                      <Dialog open={configuringDiscord} onOpenChange={setConfiguringDiscord}>
+                        <DialogTrigger asChild>
+                          <Button size="sm">Configure</Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-4xl">
+                          <DialogHeader>
+                            <DialogTitle>Discord Configuration</DialogTitle>
+                            <DialogDescription>
+                              Configure Discord bot settings and punishment rules.
+                            </DialogDescription>
+                          </DialogHeader>
+
+                          <Tabs defaultValue="connection">
+                            <TabsList className="grid w-full grid-cols-3">
+                              <TabsTrigger value="connection">Connection</TabsTrigger>
+                              <TabsTrigger value="server">Server</TabsTrigger>
+                              <TabsTrigger value="punishments">Punishment Rules</TabsTrigger>
+                            </TabsList>
+
+                            <TabsContent value="connection">
+                              {!can("settings.manage") ? (
+                                <p className="text-sm text-muted-foreground">
+                                  Only owners can change the bot token.
+                                </p>
+                              ) : (
+                                <form onSubmit={handleDiscordSubmit} className="space-y-4">
+                                  <div className="space-y-2">
+                                    <Label htmlFor="botToken">Bot Token</Label>
+                                    <Input
+                                      id="botToken"
+                                      name="botToken"
+                                      type="password"
+                                      placeholder={
+                                        discordConfig?.botTokenLast4
+                                          ? `Saved token ending in ${discordConfig.botTokenLast4}`
+                                          : "Enter your Discord bot token"
+                                      }
+                                    />
+                                    {discordConfig?.botTokenLast4 && (
+                                      <p className="text-sm text-muted-foreground">
+                                        Leave blank to keep the saved token.
+                                      </p>
+                                    )}
+                                  </div>
+                                  <div className="space-y-2">
+                                    <Label htmlFor="guildId">Primary Server ID</Label>
+                                    <Input
+                                      id="guildId"
+                                      name="guildId"
+                                      defaultValue={discordConfig?.guildId}
+                                      placeholder="Enter your Discord server ID"
+                                    />
+                                  </div>
+                                  <Button
+                                    type="submit"
+                                    className="w-full"
+                                    disabled={updateDiscordMutation.isPending}
+                                  >
+                                    Save Configuration
+                                  </Button>
+                                </form>
+                              )}
+                            </TabsContent>
 
-                              {isLoadingPunishmentRules ? (
-                                <div>Loading rules...</div>
+                            <TabsContent value="server">
+                              {!selectedGuild ? (
+                                <p className="text-sm text-muted-foreground">
+                                  The bot has not joined any servers yet.
+                                </p>
                               ) : (
-                                <Table>
-                                  <TableHeader>
-                                    <TableRow>
-                                      <TableHead>Type</TableHead>
-                                      <TableHead>Points</TableHead>
-                                      <TableHead>Duration</TableHead>
-                                      <TableHead>Actions</TableHead>
-                                    </TableRow>
-                                  </TableHeader>
-                                  <TableBody>
-                                    {punishmentRules?.map((rule) => (
-                                      <TableRow key={rule.id}>
-                                        <TableCell className="capitalize">{rule.type}</TableCell>
-                                        <TableCell>{rule.pointThreshold} points</TableCell>
-                                        <TableCell>
-                                          {rule.type === "ban"
-                                            ? "Permanent"
-                                            : `${rule.duration} hours`}
-                                        </TableCell>
-                                        <TableCell>
-                                          <Button
-                                            variant="ghost"
-                                            size="sm"
-                                            onClick={() =>
-                                              deletePunishmentRuleMutation.mutate(rule.id)
-                                            }
-                                          >
-                                            <Trash2 className="h-4 w-4" />
-                                          </Button>
-                                        </TableCell>
-                                      </TableRow>
-                                    ))}
-                                  </TableBody>
-                                </Table>
+                                <div className="space-y-6">
+                                  <div>
+                                    <h3 className="text-lg font-medium">{selectedGuild.name}</h3>
+                                    <p className="text-sm text-muted-foreground">
+                                      Server ID: {selectedGuild.id}
+                                    </p>
+                                  </div>
+                                  <div className="flex items-center justify-between">
+                                    <div>
+                                      <Label htmlFor="sharePoints">Share points across servers</Label>
+                                      <p className="text-sm text-muted-foreground">
+                                        Points are pooled with every other server that shares points.
+                                      </p>
+                                    </div>
+                                    <Switch
+                                      id="sharePoints"
+                                      checked={selectedGuild.sharePoints}
+                                      disabled={updateGuildMutation.isPending}
+                                      onCheckedChange={(checked) =>
+                                        updateGuildMutation.mutate({
+                                          id: selectedGuild.id,
+                                          sharePoints: checked,
+                                        })
+                                      }
+                                    />
+                                  </div>
+                                  <form
+                                    key={selectedGuild.id}
+                                    className="space-y-2"
+                                    onSubmit={(e) => {
+                                      e.preventDefault();
+                                      const formData = new FormData(e.currentTarget);
+                                      const forgivenessPointsPerWeek = parseInt(formData.get("forgivenessPointsPerWeek") as string);
+
+                                      if (isNaN(forgivenessPointsPerWeek) || forgivenessPointsPerWeek < 0) {
+                                        toast({
+                                          title: "Error",
+                                          description: "Please enter a valid number of points",
+                                          variant: "destructive",
+                                        });
+                                        return;
+                                      }
+
+                                      updateGuildMutation.mutate({
+                                        id: selectedGuild.id,
+                                        forgivenessPointsPerWeek,
+                                      });
+                                    }}
+                                  >
+                                    <Label htmlFor="forgivenessPointsPerWeek">Forgiveness rate</Label>
+                                    <div className="flex gap-2">
+                                      <Input
+                                        id="forgivenessPointsPerWeek"
+                                        name="forgivenessPointsPerWeek"
+                                        type="number"
+                                        min="0"
+                                        defaultValue={selectedGuild.forgivenessPointsPerWeek}
+                                      />
+                                      <Button
+                                        type="submit"
+                                        variant="outline"
+                                        disabled={updateGuildMutation.isPending}
+                                      >
+                                        Save
+                                      </Button>
+                                    </div>
+                                    <p className="text-sm text-muted-foreground">
+                                      Points removed for every week a user goes without a warning. Set to 0 to disable.
+                                    </p>
+                                  </form>
+                                  <form
+                                    key={`moderator-${selectedGuild.id}`}
+                                    className="space-y-2"
+                                    onSubmit={(e) => {
+                                      e.preventDefault();
+                                      const formData = new FormData(e.currentTarget);
+                                      const moderatorRoleId = (formData.get("moderatorRoleId") as string).trim();
+
+                                      if (moderatorRoleId && !/^\d+$/.test(moderatorRoleId)) {
+                                        toast({
+                                          title: "Error",
+                                          description: "Please enter a valid Discord role ID",
+                                          variant: "destructive",
+                                        });
+                                        return;
+                                      }
+
+                                      updateGuildMutation.mutate({
+                                        id: selectedGuild.id,
+                                        moderatorRoleId: moderatorRoleId || null,
+                                      });
+                                    }}
+                                  >
+                                    <Label htmlFor="moderatorRoleId">Moderator role ID</Label>
+                                    <div className="flex gap-2">
+                                      <Input
+                                        id="moderatorRoleId"
+                                        name="moderatorRoleId"
+                                        defaultValue={selectedGuild.moderatorRoleId ?? ""}
+                                        placeholder="Administrators only"
+                                      />
+                                      <Button
+                                        type="submit"
+                                        variant="outline"
+                                        disabled={updateGuildMutation.isPending}
+                                      >
+                                        Save
+                                      </Button>
+                                    </div>
+                                    <p className="text-sm text-muted-foreground">
+                                      Members with this role can use /warn, /pardon, /history, /points, /mute and /unmute. Administrators always can.
+                                    </p>
+                                  </form>
+                                  <ModerationScopeSettings guild={selectedGuild} />
+                                  <MediaModerationSettings guild={selectedGuild} />
+                                  <SpamDetectionSettings key={`spam-${selectedGuild.id}`} guild={selectedGuild} />
+                                  <NotificationSettings guild={selectedGuild} />
+                                  {can("accounts.manage") && (
+                                    <DiscordRoleMapping key={`roles-${selectedGuild.id}`} guild={selectedGuild} />
+                                  )}
+                                  <div className="space-y-2">
+                                    <Label>Copy configuration from another server</Label>
+                                    <div className="flex gap-2">
+                                      <Select
+                                        value={copySourceGuildId}
+                                        onValueChange={setCopySourceGuildId}
+                                      >
+                                        <SelectTrigger>
+                                          <SelectValue placeholder="Select a server" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                          {guilds
+                                            .filter((guild) => guild.id !== selectedGuild.id)
+                                            .map((guild) => (
+                                              <SelectItem key={guild.id} value={guild.id}>
+                                                {guild.name}
+                                              </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                      </Select>
+                                      <Button
+                                        variant="outline"
+                                        disabled={!copySourceGuildId || copyGuildConfigMutation.isPending}
+                                        onClick={() =>
+                                          copyGuildConfigMutation.mutate({
+                                            id: selectedGuild.id,
+                                            sourceGuildId: copySourceGuildId,
+                                          })
+                                        }
+                                      >
+                                        <Copy className="h-4 w-4 mr-2" />
+                                        Copy
+                                      </Button>
+                                    </div>
+                                    <p className="text-sm text-muted-foreground">
+                                      Copies warning levels, rules, punishment rules and the active prompt template.
+                                    </p>
+                                  </div>
+                                </div>
                               )}
-                            </div>
-                          </TabsContent>
-                        </Tabs>
-                      </DialogContent>
-                    </Dialog>
+                            </TabsContent>
+
+                            <TabsContent value="punishments">
+                              <div className="space-y-4">
+                                <div className="flex justify-between items-center">
+                                  <h3 className="text-lg font-medium">Punishment Rules</h3>
+                                  <Dialog
+                                    open={addingPunishmentRule}
+                                    onOpenChange={setAddingPunishmentRule}
+                                  >
+                                    <DialogTrigger asChild>
+                                      <Button size="sm">Add Rule</Button>
+                                    </DialogTrigger>
+                                    <DialogContent>
+                                      <DialogHeader>
+                                        <DialogTitle>Add Punishment Rule</DialogTitle>
+                                        <DialogDescription>
+                                          Create a punishment applied at a point threshold or whenever a specific rule is broken.
+                                        </DialogDescription>
+                                      </DialogHeader>
+                                      <PunishmentRuleForm
+                                        guildId={selectedGuild?.id ?? null}
+                                        rules={(warningLevels || []).flatMap((level) => level.rules)}
+                                        isPending={createPunishmentRuleMutation.isPending}
+                                        onSubmit={(values) => createPunishmentRuleMutation.mutate(values)}
+                                      />
+                                    </DialogContent>
+                                  </Dialog>
+                                </div>
+
+                                {isLoadingPunishmentRules ? (
+                                  <div>Loading rules...</div>
+                                ) : (
+                                  <Table>
+                                    <TableHeader>
+                                      <TableRow>
+                                        <TableHead>Type</TableHead>
+                                        <TableHead>Applies When</TableHead>
+                                        <TableHead>Punishment</TableHead>
+                                        <TableHead>Actions</TableHead>
+                                      </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                      {punishmentRules?.map((rule) => (
+                                        <TableRow key={rule.id}>
+                                          <TableCell>{PUNISHMENT_TYPE_LABELS[rule.type]}</TableCell>
+                                          <TableCell>
+                                            {rule.ruleId !== null
+                                              ? `Breaks "${ruleNames.get(rule.ruleId) ?? "a rule"}"`
+                                              : `${rule.pointThreshold} points`}
+                                          </TableCell>
+                                          <TableCell>{describePunishment(rule)}</TableCell>
+                                          <TableCell>
+                                            <Button
+                                              variant="ghost"
+                                              size="sm"
+                                              onClick={() =>
+                                                deletePunishmentRuleMutation.mutate(rule.id)
+                                              }
+                                            >
+                                              <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                          </TableCell>
+                                        </TableRow>
+                                      ))}
+                                    </TableBody>
+                                  </Table>
+                                )}
+                              </div>
+                            </TabsContent>
+                          </Tabs>
+                        </DialogContent>
+                      </Dialog>
+                    )}
                   </div>
                 </div>
               </div>
@@ -654,7 +814,7 @@ export default function Settings() {
           <CardHeader>
             <CardTitle className="text-base flex items-center gap-2">
               <Brain className="h-5 w-5" />
-              OpenAI Integration
+              AI Provider
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -671,7 +831,16 @@ export default function Settings() {
                         : openaiConfig?.status === "error"
                         ? "Error"
                         : "Not Connected"}
+                      {openaiConfig?.status === "connected" && openaiConfig.latencyMs != null &&
+                        ` (${openaiConfig.latencyMs} ms)`}
                     </p>
+                    {openaiConfig?.model && (
+                      <p className="text-sm text-muted-foreground">
+                        {openaiConfig.providers.find((p) => p.id === openaiConfig.provider)?.name ?? openaiConfig.provider}
+                        {" • "}
+                        {openaiConfig.model}
+                      </p>
+                    )}
                     {openaiConfig?.error && (
                       <p className="text-sm text-red-500 mt-1">
                         {openaiConfig.error}
@@ -679,50 +848,42 @@ export default function Settings() {
                     )}
                   </div>
                   <div className="flex flex-col sm:flex-row items-end sm:items-center gap-2 sm:gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => checkOpenAIStatusMutation.mutate()}
-                      disabled={checkOpenAIStatusMutation.isPending}
-                    >
-                      <RefreshCw
-                        className={`h-4 w-4 mr-2 ${
-                          checkOpenAIStatusMutation.isPending ? "animate-spin" : ""
-                        }`}
-                      />
-                      Check Status
-                    </Button>
-                    <Dialog open={configuringOpenAI} onOpenChange={setConfiguringOpenAI}>
-                      <DialogTrigger asChild>
-                        <Button size="sm">Configure</Button>
-                      </DialogTrigger>
-                      <DialogContent>
-                        <DialogHeader>
-                          <DialogTitle>OpenAI Configuration</DialogTitle>
-                          <DialogDescription>
-                            Enter your OpenAI API key to enable content moderation.
-                          </DialogDescription>
-                        </DialogHeader>
-                        <form onSubmit={handleOpenAISubmit} className="space-y-4">
-                          <div className="space-y-2">
-                            <Label htmlFor="apiKey">API Key</Label>
-                            <Input
-                              id="apiKey"
-                              name="apiKey"
-                              type="password"
-                              placeholder="Enter your OpenAI API key"
+                    {can("settings.manage") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => checkOpenAIStatusMutation.mutate()}
+                        disabled={checkOpenAIStatusMutation.isPending}
+                      >
+                        <RefreshCw
+                          className={`h-4 w-4 mr-2 ${
+                            checkOpenAIStatusMutation.isPending ? "animate-spin" : ""
+                          }`}
+                        />
+                        Check Status
+                      </Button>
+                    )}
+                    {can("settings.manage") && (
+                      <Dialog open={configuringOpenAI} onOpenChange={setConfiguringOpenAI}>
+                        <DialogTrigger asChild>
+                          <Button size="sm">Configure</Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>AI Provider Configuration</DialogTitle>
+                            <DialogDescription>
+                              Choose the model provider used for content moderation.
+                            </DialogDescription>
+                          </DialogHeader>
+                          {openaiConfig && (
+                            <LLMProviderForm
+                              config={openaiConfig}
+                              onSuccess={() => setConfiguringOpenAI(false)}
                             />
-                          </div>
-                          <Button
-                            type="submit"
-                            className="w-full"
-                            disabled={updateOpenAIMutation.isPending}
-                          >
-                            Save Configuration
-                          </Button>
-                        </form>
-                      </DialogContent>
-                    </Dialog>
+                          )}
+                        </DialogContent>
+                      </Dialog>
+                    )}
                   </div>
                 </div>
               </div>
@@ -796,11 +957,11 @@ Our AI moderator analyzes messages in real-time and categorizes potential violat
 ${punishmentRules
   .map(
     (rule) =>
-      `- **${rule.pointThreshold} Points**: ${
-        rule.type === "ban"
-          ? "Permanent Ban"
-          : `${rule.duration}-hour Timeout`
-      }`
+      `- **${
+        rule.ruleId !== null
+          ? `Breaking "${ruleNames.get(rule.ruleId) ?? "a rule"}"`
+          : `${rule.pointThreshold} Points`
+      }**: ${describePunishment(rule)}`
   )
   .join("\n")}
 
@@ -866,59 +1027,61 @@ For any questions about moderation actions, please contact the server administra
                       <History className="h-4 w-4 mr-2" />
                       History
                     </Button>
-                    <Dialog open={configuringPrompt} onOpenChange={setConfiguringPrompt}>
-                      <DialogTrigger asChild>
-                        <Button size="sm">Configure</Button>
-                      </DialogTrigger>
-                      <DialogContent className="max-w-2xl">
-                        <DialogHeader>
-                          <DialogTitle>Edit Prompt Template</DialogTitle>
-                          <DialogDescription>
-                            Update the AI prompt template for content moderation.
-                          </DialogDescription>
-                        </DialogHeader>
-                        <form onSubmit={handlePromptSubmit} className="space-y-4">
-                          <div className="space-y-2">
-                            <Label htmlFor="name">Template Name</Label>
-                            <Input
-                              id="name"
-                              name="name"
-                              defaultValue={promptTemplate.name}
-                              required
-                            />
-                          </div>
-                          <div className="space-y-2">
-                            <Label htmlFor="systemPrompt">System Prompt</Label>
-                            <Textarea
-                              id="systemPrompt"
-                              name="systemPrompt"
-                              defaultValue={promptTemplate.systemPrompt}
-                              className="h-64 font-mono"
-                              required
-                            />
-                            <p className="text-sm text-muted-foreground">
-                              Use {'{{RULES_LIST}}'} as a placeholder for the current rules.
-                            </p>
-                          </div>
-                          <div className="space-y-2">
-                            <Label htmlFor="reason">Reason for Change</Label>
-                            <Input
-                              id="reason"
-                              name="reason"
-                              placeholder="Why are you updating this template?"
-                              required
-                            />
-                          </div>
-                          <Button
-                            type="submit"
-                            className="w-full"
-                            disabled={updatePromptMutation.isPending}
-                          >
-                            Update Template
-                          </Button>
-                        </form>
-                      </DialogContent>
-                    </Dialog>
+                    {can("config.edit") && (
+                      <Dialog open={configuringPrompt} onOpenChange={setConfiguringPrompt}>
+                        <DialogTrigger asChild>
+                          <Button size="sm">Configure</Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-2xl">
+                          <DialogHeader>
+                            <DialogTitle>Edit Prompt Template</DialogTitle>
+                            <DialogDescription>
+                              Update the AI prompt template for content moderation.
+                            </DialogDescription>
+                          </DialogHeader>
+                          <form onSubmit={handlePromptSubmit} className="space-y-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="name">Template Name</Label>
+                              <Input
+                                id="name"
+                                name="name"
+                                defaultValue={promptTemplate.name}
+                                required
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="systemPrompt">System Prompt</Label>
+                              <Textarea
+                                id="systemPrompt"
+                                name="systemPrompt"
+                                defaultValue={promptTemplate.systemPrompt}
+                                className="h-64 font-mono"
+                                required
+                              />
+                              <p className="text-sm text-muted-foreground">
+                                Use {'{{RULES_LIST}}'} as a placeholder for the current rules.
+                              </p>
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="reason">Reason for Change</Label>
+                              <Input
+                                id="reason"
+                                name="reason"
+                                placeholder="Why are you updating this template?"
+                                required
+                              />
+                            </div>
+                            <Button
+                              type="submit"
+                              className="w-full"
+                              disabled={updatePromptMutation.isPending}
+                            >
+                              Update Template
+                            </Button>
+                          </form>
+                        </DialogContent>
+                      </Dialog>
+                    )}
 
                     <Dialog
                       open={showHistory !== null}
@@ -982,6 +1145,32 @@ For any questions about moderation actions, please contact the server administra
             )}
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Two-Factor Authentication
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorSetup />
+          </CardContent>
+        </Card>
+
+        {can("accounts.manage") && (
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Dashboard Accounts
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AdminAccounts />
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
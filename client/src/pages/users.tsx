@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -12,8 +12,10 @@ import { Input } from "@/components/ui/input";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { Ban, Search, AlertTriangle, RotateCw, RefreshCcw } from "lucide-react";
+import { Ban, Search, AlertTriangle, Clock, RotateCw, RefreshCcw, Eye, EyeOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { EditHistory, type MessageEdit } from "@/components/edit-history";
 
 interface Warning {
   id: number;
@@ -24,15 +26,20 @@ interface Warning {
   ruleTriggered: string;
   messageContent: string;
   messageContext: {
-    channelId: string;
-    channelName: string;
+    channelName: string | null;
+    messages?: { author: string; content: string }[];
   };
+  channelId: string | null;
+  messageId: string | null;
+  editHistory: MessageEdit[];
   createdAt: string;
   messageDeleted: boolean;
   messageIgnored: boolean;
   ignoredAt?: string;
   ignoredBy?: string;
   ignoreReason?: string;
+  expiresAt: string | null;
+  expired: boolean;
   level: {
     name: string;
     color: string;
@@ -46,13 +53,23 @@ interface User {
   isBanned: boolean;
   isMuted: boolean;
   muteExpiresAt: string | null;
+  watchlisted: boolean;
   warningCount: number;
   activeWarnings: number;
 }
 
+interface DeletedMessage {
+  id: number;
+  channelName: string | null;
+  content: string | null;
+  sentAt: string | null;
+  deletedAt: string;
+}
+
 export default function UsersPage() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useUser();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
 
@@ -65,6 +82,43 @@ export default function UsersPage() {
     enabled: !!selectedUser,
   });
 
+  const { data: deletedMessages = [] } = useQuery<DeletedMessage[]>({
+    queryKey: [`/api/users/${selectedUser?.id}/deleted-messages`],
+    enabled: !!selectedUser,
+  });
+
+  const watchlistMutation = useMutation({
+    mutationFn: async ({ userId, watchlisted }: { userId: string; watchlisted: boolean }) => {
+      const res = await fetch(`/api/users/${userId}/watchlist`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ watchlisted }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to update watchlist");
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { watchlisted }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setSelectedUser((user) => user && { ...user, watchlisted });
+      toast({
+        title: watchlisted ? "Added to Watchlist" : "Removed from Watchlist",
+        description: watchlisted
+          ? "Messages this user deletes will be logged."
+          : "Deleted messages from this user are no longer logged.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const filteredUsers = users.filter((user) => {
     if (searchTerm) {
       return (
@@ -107,6 +161,12 @@ export default function UsersPage() {
                       <p className="text-sm text-muted-foreground">ID: {user.id}</p>
                     </div>
                     <div className="flex gap-2">
+                      {user.watchlisted && (
+                        <Badge variant="outline" className="flex items-center gap-1">
+                          <Eye className="w-3 h-3" />
+                          Watchlist
+                        </Badge>
+                      )}
                       {user.isBanned && (
                         <Badge variant="destructive" className="flex items-center gap-1">
                           <Ban className="w-3 h-3" />
@@ -154,81 +214,104 @@ export default function UsersPage() {
                     <div className="flex justify-between items-center mb-2">
                       <h3 className="font-medium">User Details</h3>
                       <div className="flex gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="h-8"
-                          onClick={() => {
-                            fetch(`/api/users/${selectedUser.id}/recalculate`, {
-                              method: "POST",
-                            })
-                              .then((res) => {
-                                if (!res.ok) throw new Error("Failed to recalculate points");
-                                return res.json();
-                              })
-                              .then(() => {
-                                queryClient.invalidateQueries({
-                                  queryKey: ["/api/users"],
-                                });
-                                queryClient.invalidateQueries({
-                                  queryKey: ["/api/warnings", selectedUser.id],
-                                });
-                                toast({
-                                  title: "Points Recalculated",
-                                  description: "User points and status have been updated.",
-                                });
-                              })
-                              .catch((error) => {
-                                toast({
-                                  title: "Error",
-                                  description: error.message,
-                                  variant: "destructive",
-                                });
-                              });
-                          }}
-                        >
-                          <RotateCw className="h-4 w-4 mr-2" />
-                          Recalculate Points
-                        </Button>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          className="h-8"
-                          onClick={() => {
-                            if (!confirm("Are you sure you want to reset all warnings for this user? This action cannot be undone.")) {
-                              return;
-                            }
-                            fetch(`/api/users/${selectedUser.id}/reset-warnings`, {
-                              method: "POST",
-                            })
-                              .then((res) => {
-                                if (!res.ok) throw new Error("Failed to reset warnings");
-                                return res.json();
+                        {can("moderation.act") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            disabled={watchlistMutation.isPending}
+                            onClick={() => watchlistMutation.mutate({
+                              userId: selectedUser.id,
+                              watchlisted: !selectedUser.watchlisted,
+                            })}
+                          >
+                            {selectedUser.watchlisted ? (
+                              <EyeOff className="h-4 w-4 mr-2" />
+                            ) : (
+                              <Eye className="h-4 w-4 mr-2" />
+                            )}
+                            {selectedUser.watchlisted ? "Unwatch" : "Watch"}
+                          </Button>
+                        )}
+                        {can("moderation.act") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            onClick={() => {
+                              fetch(`/api/users/${selectedUser.id}/recalculate`, {
+                                method: "POST",
                               })
-                              .then(() => {
-                                queryClient.invalidateQueries({
-                                  queryKey: ["/api/users"],
-                                });
-                                queryClient.invalidateQueries({
-                                  queryKey: ["/api/warnings", selectedUser.id],
-                                });
-                                toast({
-                                  title: "Warnings Reset",
-                                  description: "All warnings have been cleared for this user.",
+                                .then((res) => {
+                                  if (!res.ok) throw new Error("Failed to recalculate points");
+                                  return res.json();
+                                })
+                                .then(() => {
+                                  queryClient.invalidateQueries({
+                                    queryKey: ["/api/users"],
+                                  });
+                                  queryClient.invalidateQueries({
+                                    queryKey: ["/api/warnings", selectedUser.id],
+                                  });
+                                  toast({
+                                    title: "Points Recalculated",
+                                    description: "User points and status have been updated.",
+                                  });
+                                })
+                                .catch((error) => {
+                                  toast({
+                                    title: "Error",
+                                    description: error.message,
+                                    variant: "destructive",
+                                  });
                                 });
+                            }}
+                          >
+                            <RotateCw className="h-4 w-4 mr-2" />
+                            Recalculate Points
+                          </Button>
+                        )}
+                        {can("users.reset") && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            className="h-8"
+                            onClick={() => {
+                              if (!confirm("Are you sure you want to reset all warnings for this user? This action cannot be undone.")) {
+                                return;
+                              }
+                              fetch(`/api/users/${selectedUser.id}/reset-warnings`, {
+                                method: "POST",
                               })
-                              .catch((error) => {
-                                toast({
-                                  title: "Error",
-                                  description: error.message,
-                                  variant: "destructive",
+                                .then((res) => {
+                                  if (!res.ok) throw new Error("Failed to reset warnings");
+                                  return res.json();
+                                })
+                                .then(() => {
+                                  queryClient.invalidateQueries({
+                                    queryKey: ["/api/users"],
+                                  });
+                                  queryClient.invalidateQueries({
+                                    queryKey: ["/api/warnings", selectedUser.id],
+                                  });
+                                  toast({
+                                    title: "Warnings Reset",
+                                    description: "All warnings have been cleared for this user.",
+                                  });
+                                })
+                                .catch((error) => {
+                                  toast({
+                                    title: "Error",
+                                    description: error.message,
+                                    variant: "destructive",
+                                  });
                                 });
-                              });
-                          }}
-                        >
-                          <RefreshCcw className="h-4 w-4 mr-2" />
-                          Reset Warnings
-                        </Button>
+                            }}
+                          >
+                            <RefreshCcw className="h-4 w-4 mr-2" />
+                            Reset Warnings
+                          </Button>
+                        )}
                       </div>
                     </div>
                     <div className="space-y-2">
@@ -242,6 +325,12 @@ export default function UsersPage() {
                         <span className="font-medium">Total Points:</span> {selectedUser.totalPoints}
                       </p>
                       <div className="flex gap-2 mt-2">
+                        {selectedUser.watchlisted && (
+                          <Badge variant="outline" className="flex items-center gap-1">
+                            <Eye className="w-3 h-3" />
+                            Watchlist
+                          </Badge>
+                        )}
                         {selectedUser.isBanned && (
                           <Badge variant="destructive" className="flex items-center gap-1">
                             <Ban className="w-3 h-3" />
@@ -268,12 +357,16 @@ export default function UsersPage() {
                       </p>
                       <p>
                         <span className="font-medium">Active Warnings:</span>{" "}
-                        {userWarnings.filter((w) => !w.messageIgnored).length}
+                        {userWarnings.filter((w) => !w.messageIgnored && !w.expired).length}
                       </p>
                       <p>
                         <span className="font-medium">Ignored Warnings:</span>{" "}
                         {userWarnings.filter((w) => w.messageIgnored).length}
                       </p>
+                      <p>
+                        <span className="font-medium">Expired Warnings:</span>{" "}
+                        {userWarnings.filter((w) => !w.messageIgnored && w.expired).length}
+                      </p>
                     </div>
                   </CardContent>
                 </Card>
@@ -288,7 +381,7 @@ export default function UsersPage() {
                 ) : (
                   <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
                     {userWarnings.map((warning) => (
-                      <Card key={warning.id} className={`${warning.messageIgnored ? "bg-muted" : ""}`}>
+                      <Card key={warning.id} className={`${warning.messageIgnored || warning.expired ? "bg-muted" : ""}`}>
                         <CardContent className="p-4">
                           <div className="flex justify-between items-start mb-2">
                             <div>
@@ -304,6 +397,12 @@ export default function UsersPage() {
                                   Ignored
                                 </Badge>
                               )}
+                              {warning.expired && !warning.messageIgnored && (
+                                <Badge variant="outline" className="flex items-center gap-1">
+                                  <Clock className="w-3 h-3" />
+                                  Expired
+                                </Badge>
+                              )}
                               {warning.level && (
                                 <Badge
                                   style={{
@@ -317,6 +416,11 @@ export default function UsersPage() {
                             </div>
                           </div>
                           <p className="text-sm mb-2">{warning.messageContent}</p>
+                          {warning.editHistory.length > 0 && (
+                            <div className="mb-2">
+                              <EditHistory edits={warning.editHistory} />
+                            </div>
+                          )}
                           <div className="flex justify-between items-center text-sm text-muted-foreground">
                             <span>{format(new Date(warning.createdAt), "PP")}</span>
                             <span>Points: {warning.points}</span>
@@ -335,6 +439,34 @@ export default function UsersPage() {
                   </div>
                 )}
               </div>
+
+              {(selectedUser.watchlisted || deletedMessages.length > 0) && (
+                <div className="space-y-4">
+                  <h3 className="font-medium text-lg">Deleted Messages</h3>
+                  {deletedMessages.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No deleted messages logged since this user was added to the watchlist
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {deletedMessages.map((deleted) => (
+                        <div key={deleted.id} className="rounded-md bg-muted p-3 text-sm">
+                          <div className="flex justify-between text-muted-foreground mb-1">
+                            <span>{deleted.channelName ? `#${deleted.channelName}` : "Unknown channel"}</span>
+                            <span>
+                              {deleted.sentAt && `Sent ${format(new Date(deleted.sentAt), "PPp")}, `}
+                              deleted {format(new Date(deleted.deletedAt), "PPp")}
+                            </span>
+                          </div>
+                          <p className="whitespace-pre-wrap">
+                            {deleted.content ?? <span className="italic text-muted-foreground">Content not cached</span>}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </DialogContent>
@@ -13,6 +13,7 @@ import {
 import { Plus } from "lucide-react";
 import { WarningLevelCard } from "@/components/warning-level-card";
 import { WarningLevelForm } from "@/components/warning-level-form";
+import { useUser } from "@/hooks/use-user";
 
 interface Rule {
   id: number;
@@ -20,6 +21,8 @@ interface Rule {
   pattern: string;
   description: string;
   order: number;
+  matchType: string;
+  patterns: string[];
 }
 
 interface WarningLevel {
@@ -29,6 +32,9 @@ interface WarningLevel {
   points: number;
   deleteMessage: boolean;
   description: string;
+  expiryDays: number | null;
+  confidenceThreshold: number;
+  dmTemplate: string | null;
   rules: Rule[];
 }
 
@@ -38,15 +44,22 @@ interface WarningLevelFormData {
   points: number;
   deleteMessage: boolean;
   description: string;
+  expiryDays?: number | null;
+  confidenceThreshold?: number;
+  dmTemplate?: string | null;
 }
 
 export default function WarningLevels() {
+  const { can } = useUser();
   const emptyWarningLevel: WarningLevelFormData = {
     name: "",
     color: "#FF0000",
     points: 1,
     deleteMessage: false,
     description: "",
+    expiryDays: null,
+    confidenceThreshold: 0,
+    dmTemplate: null,
   };
 
   const { data: warningLevels } = useQuery<WarningLevel[]>({
@@ -57,26 +70,28 @@ export default function WarningLevels() {
     <div className="container mx-auto p-6">
       <h1 className="text-2xl font-bold">Warning Levels</h1>
       <div className="mt-2 mb-6">
-        <Dialog>
-          <DialogTrigger asChild>
-            <Button variant="outline" size="sm" className="h-7 text-xs">
-              <Plus className="h-3 w-3 mr-1" />
-              Create Warning Level
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-sm">
-            <DialogHeader>
-              <DialogTitle>Create Warning Level</DialogTitle>
-              <DialogDescription>
-                Add a new warning level with custom points and rules.
-              </DialogDescription>
-            </DialogHeader>
-            <WarningLevelForm
-              initialData={emptyWarningLevel}
-              title="Create Warning Level"
-            />
-          </DialogContent>
-        </Dialog>
+        {can("config.edit") && (
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" className="h-7 text-xs">
+                <Plus className="h-3 w-3 mr-1" />
+                Create Warning Level
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-sm">
+              <DialogHeader>
+                <DialogTitle>Create Warning Level</DialogTitle>
+                <DialogDescription>
+                  Add a new warning level with custom points and rules.
+                </DialogDescription>
+              </DialogHeader>
+              <WarningLevelForm
+                initialData={emptyWarningLevel}
+                title="Create Warning Level"
+              />
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
@@ -90,7 +105,9 @@ export default function WarningLevels() {
             </CardHeader>
             <CardContent>
               <p className="text-center text-muted-foreground">
-                Click the "Create Warning Level" button to add your first warning level.
+                {can("config.edit")
+                  ? 'Click the "Create Warning Level" button to add your first warning level.'
+                  : "No warning levels have been set up yet."}
               </p>
             </CardContent>
           </Card>
@@ -1,28 +1,129 @@
-import { pgTable, text, serial, integer, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, timestamp, boolean, jsonb, primaryKey, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import * as z from 'zod';
 
+// Image types vision models accept, and the default allowlist for media moderation
+export const VISION_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// Actions a punishment rule can take, mildest first
+export const PUNISHMENT_TYPES = ["notify", "slowmode", "mute", "add_role", "remove_role", "kick", "temp_ban", "ban"] as const;
+export type PunishmentType = typeof PUNISHMENT_TYPES[number];
+
+// How closely the AI applies the rules in a channel category
+export type ModerationStrictness = "strict" | "standard" | "lenient";
+
+// Where warnings are posted: in the channel for everyone, or only in the mod-log channel
+export type WarningVisibility = "public" | "silent";
+
+// A spam detector fires when a user reaches `threshold` within `windowSeconds`
+export interface SpamDetectorSettings {
+  enabled: boolean;
+  threshold: number; // messages, duplicates, mentions or emoji depending on the detector
+  windowSeconds: number;
+  warningLevelId: number | null; // level applied when it fires
+}
+
+export interface RaidSettings {
+  enabled: boolean;
+  newAccountDays: number; // accounts younger than this count as new
+  accounts: number; // new accounts posting within the window that start raid mode
+  windowSeconds: number;
+  durationMinutes: number; // raid mode ends on its own after this long
+}
+
+export interface SpamSettings {
+  burst: SpamDetectorSettings;
+  duplicate: SpamDetectorSettings;
+  mentions: SpamDetectorSettings;
+  emoji: SpamDetectorSettings;
+  raid: RaidSettings;
+}
+
+export const DEFAULT_SPAM_SETTINGS: SpamSettings = {
+  burst: { enabled: false, threshold: 6, windowSeconds: 10, warningLevelId: null },
+  duplicate: { enabled: false, threshold: 3, windowSeconds: 60, warningLevelId: null },
+  mentions: { enabled: false, threshold: 8, windowSeconds: 30, warningLevelId: null },
+  emoji: { enabled: false, threshold: 25, windowSeconds: 30, warningLevelId: null },
+  raid: { enabled: false, newAccountDays: 7, accounts: 5, windowSeconds: 60, durationMinutes: 30 },
+};
+
+export const guilds = pgTable("guilds", {
+  id: text("id").primaryKey(), // Discord guild ID
+  name: text("name").notNull(),
+  sharePoints: boolean("share_points").default(false).notNull(), // pool points with other sharing guilds
+  forgivenessPointsPerWeek: integer("forgiveness_points_per_week").default(0).notNull(), // points removed per week without warnings
+  moderatorRoleId: text("moderator_role_id"), // may use slash commands, null = administrators only
+  dashboardRoles: jsonb("dashboard_roles").$type<Record<string, string>>().default({}).notNull(), // Discord role ID -> dashboard role for Discord logins
+  mediaModeration: boolean("media_moderation").default(false).notNull(), // send images to the vision model
+  mediaMaxBytes: integer("media_max_bytes").default(8 * 1024 * 1024).notNull(), // larger attachments are skipped
+  mediaContentTypes: jsonb("media_content_types").$type<string[]>().default(VISION_IMAGE_TYPES).notNull(), // allowlist
+  spamSettings: jsonb("spam_settings").$type<SpamSettings>().default(DEFAULT_SPAM_SETTINGS).notNull(),
+  raidModeUntil: timestamp("raid_mode_until"), // messages from new accounts are removed until then
+  excludedChannelIds: jsonb("excluded_channel_ids").$type<string[]>().default([]).notNull(), // channels or categories the bot ignores
+  exemptRoleIds: jsonb("exempt_role_ids").$type<string[]>().default([]).notNull(), // members with these roles aren't moderated
+  categoryStrictness: jsonb("category_strictness").$type<Record<string, ModerationStrictness>>().default({}).notNull(), // category ID -> strictness
+  dmNotifications: boolean("dm_notifications").default(true).notNull(), // DM users when they are warned or punished
+  warningVisibility: text("warning_visibility").$type<WarningVisibility>().default("public").notNull(),
+  modLogChannelId: text("mod_log_channel_id"), // private staff channel, null = none
+  punishmentDmTemplates: jsonb("punishment_dm_templates").$type<Partial<Record<PunishmentType, string>>>().default({}).notNull(), // missing types use the default
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const users = pgTable("users", {
-  id: text("id").primaryKey(), // Discord user ID
+  id: text("id").notNull(), // Discord user ID
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
   username: text("username").notNull(),
   totalPoints: integer("total_points").default(0).notNull(),
   isBanned: boolean("is_banned").default(false).notNull(),
   isMuted: boolean("is_muted").default(false).notNull(),
   muteExpiresAt: timestamp("mute_expires_at"),
-});
+  slowmodeSeconds: integer("slowmode_seconds"), // minimum gap between messages while slowed down
+  slowmodeExpiresAt: timestamp("slowmode_expires_at"),
+  watchlisted: boolean("watchlisted").default(false).notNull(), // deleted messages are logged
+}, (table) => ({
+  pk: primaryKey({ columns: [table.id, table.guildId] }),
+}));
 
 export const admin_users = pgTable("admin_users", {
   id: serial("id").primaryKey(),
   username: text("username").unique().notNull(),
-  password: text("password").notNull(),
+  password: text("password"), // null for accounts that sign in with Discord
+  discordId: text("discord_id").unique(), // set for accounts that sign in with Discord
+  role: text("role").notNull().default("viewer"), // owner, admin, moderator, viewer
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(), // consecutive, reset on success
+  lockedUntil: timestamp("locked_until"),
+  totpSecret: text("totp_secret"), // base32, set once enrollment starts
+  totpEnabled: boolean("totp_enabled").default(false).notNull(),
+  totpLastStep: integer("totp_last_step"), // the last time step a code was accepted for, so codes can't be replayed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Dashboard login sessions, so restarts don't sign everyone out
+export const sessions = pgTable("sessions", {
+  sid: text("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  userId: integer("user_id"), // set once logged in, for signing out everywhere
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Single-use links for creating dashboard accounts with a given role
+export const adminInvites = pgTable("admin_invites", {
+  id: serial("id").primaryKey(),
+  token: text("token").unique().notNull(),
+  role: text("role").notNull(),
+  createdBy: integer("created_by").references(() => admin_users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: integer("used_by").references(() => admin_users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const discordSettings = pgTable("discord_settings", {
   id: serial("id").primaryKey(),
   botToken: text("bot_token").notNull(),
-  guildId: text("guild_id").notNull(),
+  guildId: text("guild_id").notNull(), // primary guild, selected by default in the dashboard
   status: text("status").notNull().default("disconnected"),
   error: text("error"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -31,62 +132,182 @@ export const discordSettings = pgTable("discord_settings", {
 
 export const warningLevels = pgTable("warning_levels", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
+  name: text("name").notNull(),
   color: text("color").notNull(),
   points: integer("points").notNull(),
   deleteMessage: boolean("delete_message").default(false).notNull(),
   description: text("description").notNull(),
+  expiryDays: integer("expiry_days"), // warnings stop counting after this many days, null = never
+  confidenceThreshold: real("confidence_threshold").default(0).notNull(), // verdicts below this (0-1) need review
+  dmTemplate: text("dm_template"), // DM sent to warned users, null = the default
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  guildNameUnique: unique("warning_levels_guild_name_unique").on(table.guildId, table.name),
+}));
 
 export const rules = pgTable("rules", {
   id: serial("id").primaryKey(),
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
   warningLevelId: integer("warning_level_id").references(() => warningLevels.id).notNull(),
   name: text("name").notNull(),
   description: text("description").notNull(),
   order: integer("order").notNull(),
+  matchType: text("match_type").notNull().default("ai"), // ai, keyword, regex, blocked_domain, allowed_domain
+  patterns: jsonb("patterns").$type<string[]>().default([]).notNull(), // keywords, regexes or domains, checked before the LLM
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// One edit of a Discord message, kept so moderators can see what was changed
+export interface MessageEdit {
+  previousContent: string | null; // null when Discord no longer had the old version cached
+  content: string;
+  editedAt: string;
+}
+
+// An image from a message that was sent to the vision model
+export interface MediaAttachment {
+  url: string;
+  name: string | null;
+  contentType: string | null;
+  size: number | null; // bytes, unknown for embeds and links
+  source: "attachment" | "embed" | "link";
+}
+
 export const warnings = pgTable("warnings", {
   id: serial("id").primaryKey(),
-  userId: text("user_id").references(() => users.id).notNull(),
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
+  userId: text("user_id").notNull(),
   levelId: integer("level_id").references(() => warningLevels.id).notNull(),
   points: integer("points").notNull(),
   ruleTriggered: text("rule_triggered").notNull(),
   messageContent: text("message_content").notNull(),
   messageContext: jsonb("message_context").notNull(),
+  channelId: text("channel_id"), // Discord channel ID, null for test messages
+  messageId: text("message_id"), // Discord message ID, null for test messages
+  editHistory: jsonb("edit_history").$type<MessageEdit[]>().default([]).notNull(), // oldest first
+  attachments: jsonb("attachments").$type<MediaAttachment[]>().default([]).notNull(), // moderated images
   createdAt: timestamp("created_at").defaultNow().notNull(),
   messageDeleted: boolean("message_deleted").default(false).notNull(),
   messageIgnored: boolean("message_ignored").default(false).notNull(),
   ignoredAt: timestamp("ignored_at"),
-  ignoredBy: text("ignored_by").references(() => users.id),
+  ignoredBy: text("ignored_by"),
   ignoreReason: text("ignore_reason"),
 });
 
 export const punishments = pgTable("punishments", {
   id: serial("id").primaryKey(),
-  userId: text("user_id").references(() => users.id).notNull(),
-  type: text("type").notNull(), // mute, ban
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
+  userId: text("user_id").notNull(),
+  type: text("type").$type<PunishmentType>().notNull(),
   reason: text("reason").notNull(),
-  duration: integer("duration"), // in minutes, null for permanent
+  duration: integer("duration"), // legacy, unit varied; copied into durationMinutes by `npm run db:migrate-durations`
+  durationMinutes: integer("duration_minutes"), // null for permanent
+  roleId: text("role_id"), // role added or removed, restored when the punishment expires
+  punishmentRuleId: integer("punishment_rule_id").references(() => punishmentRules.id, { onDelete: "set null" }), // the rule that applied it, so a threshold only fires once
+  status: text("status").notNull().default("active"), // active, expired, lifted, completed (kicks and notices), reversed (points dropped below the threshold)
   createdAt: timestamp("created_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at"),
 });
 
+export const punishmentEvents = pgTable("punishment_events", {
+  id: serial("id").primaryKey(),
+  punishmentId: integer("punishment_id").references(() => punishments.id).notNull(),
+  type: text("type").notNull(), // expired, lifted, reversed
+  details: text("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Low-confidence verdicts waiting for a moderator before they are enforced
+export const pendingReviews = pgTable("pending_reviews", {
+  id: serial("id").primaryKey(),
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
+  userId: text("user_id").notNull(),
+  username: text("username").notNull(),
+  levelId: integer("level_id").references(() => warningLevels.id).notNull(),
+  ruleId: integer("rule_id"), // no FK so deleting a rule keeps the review
+  ruleTriggered: text("rule_triggered").notNull(),
+  confidence: real("confidence").notNull(),
+  messageContent: text("message_content").notNull(),
+  messageContext: jsonb("message_context").notNull(),
+  channelId: text("channel_id"),
+  messageId: text("message_id"),
+  editHistory: jsonb("edit_history").$type<MessageEdit[]>().default([]).notNull(), // oldest first
+  attachments: jsonb("attachments").$type<MediaAttachment[]>().default([]).notNull(), // moderated images
+  status: text("status").notNull().default("pending"), // pending, approved, rejected, superseded (the message was edited and judged again)
+  reviewedBy: text("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  warningId: integer("warning_id").references(() => warnings.id), // warning created on approval
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Messages watchlisted users deleted, so deleting before the bot acts leaves a trace
+export const deletedMessages = pgTable("deleted_messages", {
+  id: serial("id").primaryKey(),
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
+  userId: text("user_id").notNull(),
+  channelId: text("channel_id").notNull(),
+  channelName: text("channel_name"),
+  messageId: text("message_id").notNull(),
+  content: text("content"), // null when the message wasn't cached by the bot
+  sentAt: timestamp("sent_at"),
+  deletedAt: timestamp("deleted_at").defaultNow().notNull(),
+});
+
+// One appeal per warning, submitted from the Appeal button on the warning message
+export const appeals = pgTable("appeals", {
+  id: serial("id").primaryKey(),
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
+  warningId: integer("warning_id").references(() => warnings.id).notNull().unique(),
+  userId: text("user_id").notNull(),
+  username: text("username").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").notNull().default("pending"), // pending, accepted, rejected
+  moderatorNote: text("moderator_note"),
+  decidedBy: text("decided_by"),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Append-only record of every admin, moderator and bot action
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  guildId: text("guild_id").references(() => guilds.id), // null for global settings
+  actorType: text("actor_type").notNull(), // admin, moderator, user, bot, system
+  actorId: text("actor_id"), // admin user id or Discord user id, null for the bot
+  actorName: text("actor_name").notNull(),
+  action: text("action").notNull(), // e.g. "warning.pardon", "rule.update"
+  targetType: text("target_type").notNull(),
+  targetId: text("target_id"),
+  changes: jsonb("changes"), // { before, after } with only the fields that changed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// LLM provider settings, named after the only provider originally supported
 export const openaiSettings = pgTable("openai_settings", {
   id: serial("id").primaryKey(),
-  apiKey: text("api_key").notNull(),
+  provider: text("provider").notNull().default("openai"), // openai, anthropic, openrouter, compatible
+  apiKey: text("api_key"), // optional for self-hosted endpoints
+  baseUrl: text("base_url"), // overrides the provider's default endpoint
+  model: text("model").notNull().default("gpt-4o-mini"),
+  visionModel: text("vision_model"), // used for messages with images, null = same as model
+  temperature: real("temperature"), // null = provider default
+  timeoutMs: integer("timeout_ms").notNull().default(30000),
+  maxTokens: integer("max_tokens"), // null = provider default
+  batchSize: integer("batch_size").notNull().default(1), // messages classified per completion, 1 = no batching
+  batchWindowMs: integer("batch_window_ms").notNull().default(500), // how long a batch waits to fill
   status: text("status").notNull().default("disconnected"),
   error: text("error"),
+  latencyMs: integer("latency_ms"), // round trip of the last connection test
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const aiPromptTemplates = pgTable("ai_prompt_templates", {
   id: serial("id").primaryKey(),
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
   name: text("name").notNull(),
   systemPrompt: text("system_prompt").notNull(),
   isActive: boolean("is_active").default(false).notNull(),
@@ -104,18 +325,30 @@ export const aiPromptHistory = pgTable("ai_prompt_history", {
 
 export const punishmentRules = pgTable("punishment_rules", {
   id: serial("id").primaryKey(),
-  type: text("type").notNull(), // "ban" or "mute"
-  pointThreshold: integer("point_threshold").notNull(),
-  duration: integer("duration"), // in minutes, null for permanent (used for mutes)
+  guildId: text("guild_id").references(() => guilds.id).notNull(),
+  type: text("type").$type<PunishmentType>().notNull(),
+  pointThreshold: integer("point_threshold").notNull(), // ignored when ruleId is set
+  duration: integer("duration"), // legacy, in hours for mutes; copied into durationMinutes by `npm run db:migrate-durations`
+  durationMinutes: integer("duration_minutes"), // null for permanent (mutes, temp bans, slowmode and role changes)
+  roleId: text("role_id"), // for add_role and remove_role
+  slowmodeSeconds: integer("slowmode_seconds"), // for slowmode
+  ruleId: integer("rule_id").references(() => rules.id, { onDelete: "cascade" }), // applies whenever this rule is broken, regardless of points
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const guildsRelations = relations(guilds, ({ many }) => ({
+  users: many(users),
+  warningLevels: many(warningLevels),
+  punishmentRules: many(punishmentRules),
+  promptTemplates: many(aiPromptTemplates),
+}));
+
 export const warningsRelations = relations(warnings, ({ one }) => ({
   user: one(users, {
-    fields: [warnings.userId],
-    references: [users.id],
+    fields: [warnings.userId, warnings.guildId],
+    references: [users.id, users.guildId],
   }),
   level: one(warningLevels, {
     fields: [warnings.levelId],
@@ -123,12 +356,20 @@ export const warningsRelations = relations(warnings, ({ one }) => ({
   }),
 }));
 
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  guild: one(guilds, {
+    fields: [users.guildId],
+    references: [guilds.id],
+  }),
   warnings: many(warnings),
   punishments: many(punishments),
 }));
 
-export const warningLevelsRelations = relations(warningLevels, ({ many }) => ({
+export const warningLevelsRelations = relations(warningLevels, ({ one, many }) => ({
+  guild: one(guilds, {
+    fields: [warningLevels.guildId],
+    references: [guilds.id],
+  }),
   warnings: many(warnings),
   rules: many(rules),
 }));
@@ -140,14 +381,55 @@ export const rulesRelations = relations(rules, ({ one }) => ({
   }),
 }));
 
-export const punishmentsRelations = relations(punishments, ({ one }) => ({
+export const punishmentsRelations = relations(punishments, ({ one, many }) => ({
   user: one(users, {
-    fields: [punishments.userId],
-    references: [users.id],
+    fields: [punishments.userId, punishments.guildId],
+    references: [users.id, users.guildId],
+  }),
+  rule: one(punishmentRules, {
+    fields: [punishments.punishmentRuleId],
+    references: [punishmentRules.id],
   }),
+  events: many(punishmentEvents),
 }));
 
-export const aiPromptTemplatesRelations = relations(aiPromptTemplates, ({ many }) => ({
+export const punishmentEventsRelations = relations(punishmentEvents, ({ one }) => ({
+  punishment: one(punishments, {
+    fields: [punishmentEvents.punishmentId],
+    references: [punishments.id],
+  }),
+}));
+
+export const pendingReviewsRelations = relations(pendingReviews, ({ one }) => ({
+  level: one(warningLevels, {
+    fields: [pendingReviews.levelId],
+    references: [warningLevels.id],
+  }),
+  warning: one(warnings, {
+    fields: [pendingReviews.warningId],
+    references: [warnings.id],
+  }),
+}));
+
+export const deletedMessagesRelations = relations(deletedMessages, ({ one }) => ({
+  user: one(users, {
+    fields: [deletedMessages.userId, deletedMessages.guildId],
+    references: [users.id, users.guildId],
+  }),
+}));
+
+export const appealsRelations = relations(appeals, ({ one }) => ({
+  warning: one(warnings, {
+    fields: [appeals.warningId],
+    references: [warnings.id],
+  }),
+}));
+
+export const aiPromptTemplatesRelations = relations(aiPromptTemplates, ({ one, many }) => ({
+  guild: one(guilds, {
+    fields: [aiPromptTemplates.guildId],
+    references: [guilds.id],
+  }),
   history: many(aiPromptHistory),
 }));
 
@@ -158,7 +440,19 @@ export const aiPromptHistoryRelations = relations(aiPromptHistory, ({ one }) =>
   }),
 }));
 
+export const punishmentRulesRelations = relations(punishmentRules, ({ one }) => ({
+  guild: one(guilds, {
+    fields: [punishmentRules.guildId],
+    references: [guilds.id],
+  }),
+  rule: one(rules, {
+    fields: [punishmentRules.ruleId],
+    references: [rules.id],
+  }),
+}));
 
+export const insertGuildSchema = createInsertSchema(guilds);
+export const selectGuildSchema = createSelectSchema(guilds);
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
 export const insertWarningLevelSchema = createInsertSchema(warningLevels);
@@ -167,10 +461,22 @@ export const insertWarningSchema = createInsertSchema(warnings);
 export const selectWarningSchema = createSelectSchema(warnings);
 export const insertPunishmentSchema = createInsertSchema(punishments);
 export const selectPunishmentSchema = createSelectSchema(punishments);
+export const insertPunishmentEventSchema = createInsertSchema(punishmentEvents);
+export const selectPunishmentEventSchema = createSelectSchema(punishmentEvents);
+export const insertPendingReviewSchema = createInsertSchema(pendingReviews);
+export const selectPendingReviewSchema = createSelectSchema(pendingReviews);
+export const insertDeletedMessageSchema = createInsertSchema(deletedMessages);
+export const selectDeletedMessageSchema = createSelectSchema(deletedMessages);
+export const insertAppealSchema = createInsertSchema(appeals);
+export const selectAppealSchema = createSelectSchema(appeals);
+export const insertAuditLogSchema = createInsertSchema(auditLog);
+export const selectAuditLogSchema = createSelectSchema(auditLog);
 export const insertRuleSchema = createInsertSchema(rules).extend({
+  guildId: z.string().min(1, "Guild ID is required"),
   name: z.string().min(1, "Name is required"),
   description: z.string().min(1, "Description is required"),
   warningLevelId: z.number().int().positive("Warning level ID is required"),
+  patterns: z.array(z.string()).optional(),
 });
 export const selectRuleSchema = createSelectSchema(rules);
 export const insertDiscordSettingsSchema = createInsertSchema(discordSettings);
@@ -186,9 +492,14 @@ export const selectAIPromptHistorySchema = createSelectSchema(aiPromptHistory);
 export const insertPunishmentRuleSchema = createInsertSchema(punishmentRules);
 export const selectPunishmentRuleSchema = createSelectSchema(punishmentRules);
 
-export const insertAdminUserSchema = createInsertSchema(admin_users);
+// Validates username/password logins, so the password is required here
+export const insertAdminUserSchema = createInsertSchema(admin_users).extend({
+  password: z.string().min(1, "Password is required"),
+});
 export const selectAdminUserSchema = createSelectSchema(admin_users);
 
+export type SelectGuild = typeof guilds.$inferSelect;
+export type InsertGuild = typeof guilds.$inferInsert;
 export type SelectUser = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 export type SelectWarningLevel = typeof warningLevels.$inferSelect;
@@ -197,6 +508,16 @@ export type SelectWarning = typeof warnings.$inferSelect;
 export type InsertWarning = typeof warnings.$inferInsert;
 export type SelectPunishment = typeof punishments.$inferSelect;
 export type InsertPunishment = typeof punishments.$inferInsert;
+export type SelectPunishmentEvent = typeof punishmentEvents.$inferSelect;
+export type InsertPunishmentEvent = typeof punishmentEvents.$inferInsert;
+export type SelectPendingReview = typeof pendingReviews.$inferSelect;
+export type InsertPendingReview = typeof pendingReviews.$inferInsert;
+export type SelectDeletedMessage = typeof deletedMessages.$inferSelect;
+export type InsertDeletedMessage = typeof deletedMessages.$inferInsert;
+export type SelectAppeal = typeof appeals.$inferSelect;
+export type InsertAppeal = typeof appeals.$inferInsert;
+export type SelectAuditLog = typeof auditLog.$inferSelect;
+export type InsertAuditLog = typeof auditLog.$inferInsert;
 export type SelectRule = typeof rules.$inferSelect;
 export type InsertRule = typeof rules.$inferInsert;
 export type SelectDiscordSettings = typeof discordSettings.$inferSelect;
@@ -210,4 +531,6 @@ export type InsertAIPromptHistory = typeof aiPromptHistory.$inferInsert;
 export type SelectPunishmentRule = typeof punishmentRules.$inferSelect;
 export type InsertPunishmentRule = typeof punishmentRules.$inferInsert;
 export type SelectAdminUser = typeof admin_users.$inferSelect;
-export type InsertAdminUser = typeof admin_users.$inferInsert;
\ No newline at end of file
+export type InsertAdminUser = typeof admin_users.$inferInsert;
+export type SelectAdminInvite = typeof adminInvites.$inferSelect;
+export type InsertAdminInvite = typeof adminInvites.$inferInsert;
\ No newline at end of file
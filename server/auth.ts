@@ -2,12 +2,17 @@ import passport from "passport";
 import { IVerifyOptions, Strategy as LocalStrategy } from "passport-local";
 import { type Express } from "express";
 import session from "express-session";
-import createMemoryStore from "memorystore";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import { admin_users, insertAdminUserSchema, type SelectAdminUser } from "@db/schema";
+import { admin_users, adminInvites, insertAdminUserSchema, type SelectAdminUser } from "@db/schema";
 import { db } from "@db";
-import { eq } from "drizzle-orm";
+import { and, asc, eq, gt, isNull, lt, or, sql } from "drizzle-orm";
+import { recordAudit, adminActor } from "./services/audit";
+import { getPermissions, type AdminRole } from "./permissions";
+import { getDiscordAuthConfig, createDiscordStrategy } from "./discord-auth";
+import { PostgresSessionStore, destroyUserSessions } from "./session-store";
+import { rateLimit } from "./rate-limit";
+import { generateTotpSecret, getTotpUri, verifyTotp } from "./totp";
 
 const scryptAsync = promisify(scrypt);
 const crypto = {
@@ -28,6 +33,14 @@ const crypto = {
   },
 };
 
+const MIN_SECRET_LENGTH = 32;
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Tells the login page to ask for an authenticator code
+type LoginFailure = IVerifyOptions & { twoFactorRequired?: boolean };
+
 // extend express user object with our schema
 declare global {
   namespace Express {
@@ -62,6 +75,7 @@ async function createInitialAdminUser() {
     await db.insert(admin_users).values({
       username,
       password: hashedPassword,
+      role: "owner",
     });
 
     console.log("Created initial admin user");
@@ -70,34 +84,150 @@ async function createInitialAdminUser() {
   }
 }
 
+// Accounts created before roles existed default to viewer; promote the oldest so someone can manage the rest
+async function ensureOwnerExists() {
+  try {
+    const [owner] = await db
+      .select()
+      .from(admin_users)
+      .where(eq(admin_users.role, "owner"))
+      .limit(1);
+
+    if (owner) {
+      return;
+    }
+
+    const [oldestUser] = await db
+      .select()
+      .from(admin_users)
+      .orderBy(asc(admin_users.createdAt))
+      .limit(1);
+
+    if (oldestUser) {
+      await db.update(admin_users)
+        .set({ role: "owner" })
+        .where(eq(admin_users.id, oldestUser.id));
+      console.log(`Promoted ${oldestUser.username} to owner`);
+    }
+  } catch (error) {
+    console.error("Error ensuring an owner account exists:", error);
+  }
+}
+
+// Sessions can be forged with a guessable secret, so refuse to start without a strong one
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(
+      `SESSION_SECRET must be set to a random string of at least ${MIN_SECRET_LENGTH} characters, e.g. the output of \`openssl rand -hex 32\``
+    );
+  }
+  return secret;
+}
+
+/**
+ * Counts a failed login and locks the account once there have been too many
+ * in a row. The counter restarts after a lockout.
+ */
+async function recordFailedLogin(user: SelectAdminUser) {
+  const [updatedUser] = await db.update(admin_users)
+    .set({ failedLoginAttempts: sql`${admin_users.failedLoginAttempts} + 1` })
+    .where(eq(admin_users.id, user.id))
+    .returning();
+
+  if (updatedUser.failedLoginAttempts < MAX_FAILED_LOGINS) {
+    return;
+  }
+
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MS);
+  await db.update(admin_users)
+    .set({ failedLoginAttempts: 0, lockedUntil })
+    .where(eq(admin_users.id, user.id));
+
+  await recordAudit({
+    guildId: null,
+    actor: adminActor(user),
+    action: "admin.lockout",
+    targetType: "admin",
+    targetId: user.id,
+    after: { lockedUntil },
+  });
+}
+
+async function clearFailedLogins(user: SelectAdminUser) {
+  if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+    return;
+  }
+  await db.update(admin_users)
+    .set({ failedLoginAttempts: 0, lockedUntil: null })
+    .where(eq(admin_users.id, user.id));
+}
+
+/**
+ * Checks an authenticator code and records the time step it was for, so the
+ * same code can't be used again. Only one of two requests racing with the same
+ * code can record its step.
+ */
+async function acceptTotpCode(user: SelectAdminUser, code: string): Promise<boolean> {
+  if (!user.totpSecret) {
+    return false;
+  }
+  const step = verifyTotp(user.totpSecret, code, user.totpLastStep);
+  if (step === null) {
+    return false;
+  }
+
+  const [accepted] = await db.update(admin_users)
+    .set({ totpLastStep: step })
+    .where(and(
+      eq(admin_users.id, user.id),
+      or(isNull(admin_users.totpLastStep), lt(admin_users.totpLastStep, step))
+    ))
+    .returning({ id: admin_users.id });
+  return !!accepted;
+}
+
+// Postgres reports a taken username as a unique violation
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && "code" in error && error.code === "23505";
+}
+
 export function setupAuth(app: Express) {
+  const secret = getSessionSecret();
+
   // Create initial admin user from environment variables
-  createInitialAdminUser();
+  createInitialAdminUser().then(ensureOwnerExists);
 
-  const MemoryStore = createMemoryStore(session);
   const sessionSettings: session.SessionOptions = {
-    secret: process.env.REPL_ID || "secure-session-secret",
+    secret,
     resave: false,
     saveUninitialized: false,
-    cookie: {},
-    store: new MemoryStore({
-      checkPeriod: 86400000, // prune expired entries every 24h
-    }),
+    cookie: {
+      maxAge: SESSION_MAX_AGE_MS,
+      httpOnly: true,
+      sameSite: "lax",
+    },
+    store: new PostgresSessionStore(),
   };
 
   if (app.get("env") === "production") {
     app.set("trust proxy", 1);
-    sessionSettings.cookie = {
-      secure: true,
-    };
+    sessionSettings.cookie!.secure = true;
   }
 
+  // Shared by everything that checks a password or authenticator code
+  const credentialRateLimit = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 20,
+    message: "Too many attempts. Please try again later.",
+  });
+
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
 
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
         const [user] = await db
           .select()
@@ -108,10 +238,35 @@ export function setupAuth(app: Express) {
         if (!user) {
           return done(null, false, { message: "Incorrect username." });
         }
+        if (!user.password) {
+          return done(null, false, { message: "This account signs in with Discord." });
+        }
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+          const minutes = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+          return done(null, false, {
+            message: `Too many failed logins. Try again in ${minutes} minute${minutes !== 1 ? "s" : ""}.`,
+          });
+        }
         const isMatch = await crypto.compare(password, user.password);
         if (!isMatch) {
+          await recordFailedLogin(user);
           return done(null, false, { message: "Incorrect password." });
         }
+
+        if (user.totpEnabled && user.totpSecret) {
+          const { totpCode } = req.body;
+          if (!totpCode) {
+            const failure: LoginFailure = { message: "Enter the code from your authenticator app.", twoFactorRequired: true };
+            return done(null, false, failure);
+          }
+          if (!await acceptTotpCode(user, String(totpCode))) {
+            await recordFailedLogin(user);
+            const failure: LoginFailure = { message: "Incorrect authenticator code.", twoFactorRequired: true };
+            return done(null, false, failure);
+          }
+        }
+
+        await clearFailedLogins(user);
         return done(null, user);
       } catch (err) {
         return done(err);
@@ -119,6 +274,11 @@ export function setupAuth(app: Express) {
     })
   );
 
+  const discordAuthConfig = getDiscordAuthConfig();
+  if (discordAuthConfig) {
+    passport.use("discord", createDiscordStrategy(discordAuthConfig));
+  }
+
   passport.serializeUser((user, done) => {
     done(null, user.id);
   });
@@ -136,7 +296,7 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", credentialRateLimit, async (req, res, next) => {
     try {
       const result = insertAdminUserSchema.safeParse(req.body);
       if (!result.success) {
@@ -146,29 +306,77 @@ export function setupAuth(app: Express) {
       }
 
       const { username, password } = result.data;
+      const { inviteToken } = req.body;
 
-      // Check if user already exists
-      const [existingUser] = await db
-        .select()
-        .from(admin_users)
-        .where(eq(admin_users.username, username))
-        .limit(1);
+      // Hash the password
+      const hashedPassword = await crypto.hash(password);
 
-      if (existingUser) {
-        return res.status(400).send("Username already exists");
+      // One transaction, so a failed insert hands the invite back. Registrations
+      // take turns on the table so two first accounts can't both become owner.
+      const registration = await db.transaction(async (tx) => {
+        await tx.execute(sql`LOCK TABLE admin_users IN SHARE ROW EXCLUSIVE MODE`);
+
+        // The first account becomes the owner; everyone after needs an invite
+        const [anyUser] = await tx.select().from(admin_users).limit(1);
+        let role: AdminRole = "owner";
+        let inviteId: number | null = null;
+
+        if (anyUser) {
+          if (!inviteToken) {
+            return { status: 403, message: "Registration requires an invite" };
+          }
+
+          // Claim the invite first so it can't be used twice
+          const [invite] = await tx.update(adminInvites)
+            .set({ usedAt: new Date() })
+            .where(and(
+              eq(adminInvites.token, String(inviteToken)),
+              isNull(adminInvites.usedAt),
+              gt(adminInvites.expiresAt, new Date())
+            ))
+            .returning();
+
+          if (!invite) {
+            return { status: 400, message: "Invite is invalid or has expired" };
+          }
+
+          role = invite.role as AdminRole;
+          inviteId = invite.id;
+        }
+
+        // The unique username constraint rejects duplicates
+        const [newUser] = await tx
+          .insert(admin_users)
+          .values({
+            username,
+            password: hashedPassword,
+            role,
+          })
+          .returning();
+
+        if (inviteId !== null) {
+          await tx.update(adminInvites)
+            .set({ usedBy: newUser.id })
+            .where(eq(adminInvites.id, inviteId));
+        }
+
+        return { newUser, role, inviteId };
+      });
+
+      if (!registration.newUser) {
+        return res.status(registration.status).send(registration.message);
       }
 
-      // Hash the password
-      const hashedPassword = await crypto.hash(password);
+      const { newUser, role, inviteId } = registration;
 
-      // Create the new user
-      const [newUser] = await db
-        .insert(admin_users)
-        .values({
-          ...result.data,
-          password: hashedPassword,
-        })
-        .returning();
+      await recordAudit({
+        guildId: null,
+        actor: adminActor(newUser),
+        action: "admin.create",
+        targetType: "admin",
+        targetId: newUser.id,
+        after: { username: newUser.username, role, inviteId },
+      });
 
       // Log the user in after registration
       req.login(newUser, (err) => {
@@ -181,11 +389,14 @@ export function setupAuth(app: Express) {
         });
       });
     } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(400).send("Username already exists");
+      }
       next(error);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
+  app.post("/api/login", credentialRateLimit, (req, res, next) => {
     const result = insertAdminUserSchema.safeParse(req.body);
     if (!result.success) {
       return res
@@ -193,12 +404,15 @@ export function setupAuth(app: Express) {
         .send("Invalid input: " + result.error.issues.map(i => i.message).join(", "));
     }
 
-    const cb = (err: any, user: Express.User, info: IVerifyOptions) => {
+    const cb = (err: any, user: Express.User, info: LoginFailure) => {
       if (err) {
         return next(err);
       }
 
       if (!user) {
+        if (info.twoFactorRequired) {
+          return res.status(401).json({ message: info.message, twoFactorRequired: true });
+        }
         return res.status(400).send(info.message ?? "Login failed");
       }
 
@@ -216,6 +430,44 @@ export function setupAuth(app: Express) {
     passport.authenticate("local", cb)(req, res, next);
   });
 
+  // Lets the login page know which sign-in options to show
+  app.get("/api/auth/methods", (_req, res) => {
+    res.json({ discord: !!discordAuthConfig });
+  });
+
+  app.get("/api/auth/discord", (req, res, next) => {
+    if (!discordAuthConfig) {
+      return res.status(404).send("Discord login is not configured");
+    }
+    passport.authenticate("discord")(req, res, next);
+  });
+
+  // Discord redirects back here; failures go back to the login page with a message
+  app.get("/api/auth/discord/callback", (req, res, next) => {
+    if (!discordAuthConfig) {
+      return res.status(404).send("Discord login is not configured");
+    }
+
+    const cb = (err: any, user: Express.User | false, info?: { message?: string }) => {
+      if (err) {
+        console.error("Discord login failed:", err);
+        return res.redirect(`/?authError=${encodeURIComponent("Discord login failed")}`);
+      }
+
+      if (!user) {
+        return res.redirect(`/?authError=${encodeURIComponent(info?.message ?? "Discord login failed")}`);
+      }
+
+      req.logIn(user, (err) => {
+        if (err) {
+          return next(err);
+        }
+        res.redirect("/");
+      });
+    };
+    passport.authenticate("discord", cb)(req, res, next);
+  });
+
   app.post("/api/logout", (req, res) => {
     req.logout((err) => {
       if (err) {
@@ -226,9 +478,150 @@ export function setupAuth(app: Express) {
     });
   });
 
+  // Ends every session of the current account, including this one
+  app.post("/api/logout-everywhere", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).send("Not logged in");
+    }
+
+    try {
+      const user = req.user;
+      const sessionCount = await destroyUserSessions(user.id);
+
+      await recordAudit({
+        guildId: null,
+        actor: adminActor(user),
+        action: "admin.sign_out_everywhere",
+        targetType: "admin",
+        targetId: user.id,
+        after: { sessionCount },
+      });
+
+      req.logout((err) => {
+        if (err) {
+          return next(err);
+        }
+        res.json({ message: "Signed out everywhere", sessionCount });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Starts TOTP enrollment; it only takes effect once a code is confirmed
+  app.post("/api/2fa/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).send("Not logged in");
+    }
+    if (req.user.discordId) {
+      return res.status(400).json({ message: "Accounts that sign in with Discord use Discord's two-factor authentication" });
+    }
+    if (req.user.totpEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+
+    try {
+      const totpSecret = generateTotpSecret();
+      await db.update(admin_users)
+        .set({ totpSecret })
+        .where(eq(admin_users.id, req.user.id));
+
+      res.json({
+        secret: totpSecret,
+        uri: getTotpUri(totpSecret, req.user.username),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/enable", credentialRateLimit, async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).send("Not logged in");
+    }
+
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+    if (!req.user.totpSecret || req.user.totpEnabled) {
+      return res.status(400).json({ message: "Start two-factor setup first" });
+    }
+    if (!await acceptTotpCode(req.user, String(code))) {
+      return res.status(400).json({ message: "Incorrect authenticator code" });
+    }
+
+    try {
+      await db.update(admin_users)
+        .set({ totpEnabled: true })
+        .where(eq(admin_users.id, req.user.id));
+
+      await recordAudit({
+        guildId: null,
+        actor: adminActor(req.user),
+        action: "admin.enable_2fa",
+        targetType: "admin",
+        targetId: req.user.id,
+        before: { totpEnabled: false },
+        after: { totpEnabled: true },
+      });
+
+      res.json({ totpEnabled: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Turning 2FA off needs a current code, so a stolen session alone can't do it
+  app.post("/api/2fa/disable", credentialRateLimit, async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).send("Not logged in");
+    }
+
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+    if (!req.user.totpEnabled || !req.user.totpSecret) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+    if (!await acceptTotpCode(req.user, String(code))) {
+      return res.status(400).json({ message: "Incorrect authenticator code" });
+    }
+
+    try {
+      await db.update(admin_users)
+        .set({ totpEnabled: false, totpSecret: null, totpLastStep: null })
+        .where(eq(admin_users.id, req.user.id));
+
+      await recordAudit({
+        guildId: null,
+        actor: adminActor(req.user),
+        action: "admin.disable_2fa",
+        targetType: "admin",
+        targetId: req.user.id,
+        before: { totpEnabled: true },
+        after: { totpEnabled: false },
+      });
+
+      res.json({ totpEnabled: false });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (req.isAuthenticated()) {
-      return res.json(req.user);
+      // Never send the password hash to the client
+      return res.json({
+        id: req.user.id,
+        username: req.user.username,
+        discordId: req.user.discordId,
+        totpEnabled: req.user.totpEnabled,
+        role: req.user.role,
+        permissions: getPermissions(req.user.role),
+        createdAt: req.user.createdAt,
+      });
     }
 
     res.status(401).send("Not logged in");
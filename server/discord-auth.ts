@@ -0,0 +1,171 @@
+import OAuth2Strategy from "passport-oauth2";
+import { db } from "@db";
+import { admin_users, type SelectAdminUser } from "@db/schema";
+import { eq } from "drizzle-orm";
+import { getGuild, getDefaultGuildId } from "./services/guilds";
+import { recordAudit, adminActor } from "./services/audit";
+import { roleFromDiscordRoles } from "./permissions";
+
+// Overridable so the login flow can run against a local mock of Discord
+export interface DiscordAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  callbackUrl: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  apiBaseUrl: string;
+  guildId: string | null; // null = the primary server from the Discord settings
+}
+
+interface DiscordUser {
+  id: string;
+  username: string;
+}
+
+interface DiscordMember {
+  roles: string[];
+}
+
+// Discord login is only offered when the application credentials are set
+export function getDiscordAuthConfig(): DiscordAuthConfig | null {
+  const clientId = process.env.DISCORD_CLIENT_ID;
+  const clientSecret = process.env.DISCORD_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    return null;
+  }
+
+  return {
+    clientId,
+    clientSecret,
+    callbackUrl: process.env.DISCORD_OAUTH_CALLBACK_URL || "/api/auth/discord/callback",
+    authorizationUrl: process.env.DISCORD_OAUTH_AUTHORIZE_URL || "https://discord.com/oauth2/authorize",
+    tokenUrl: process.env.DISCORD_OAUTH_TOKEN_URL || "https://discord.com/api/oauth2/token",
+    apiBaseUrl: (process.env.DISCORD_API_BASE_URL || "https://discord.com/api/v10").replace(/\/+$/, ""),
+    guildId: process.env.DISCORD_OAUTH_GUILD_ID || null,
+  };
+}
+
+// Returns null when Discord answers 404, e.g. the user isn't in the guild
+async function fetchDiscord<T>(config: DiscordAuthConfig, path: string, accessToken: string): Promise<T | null> {
+  const response = await fetch(`${config.apiBaseUrl}${path}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Discord API request to ${path} failed with status ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// Discord usernames can collide with password accounts, which keep theirs
+async function pickUsername(discordUser: DiscordUser): Promise<string> {
+  const existing = await db.query.admin_users.findFirst({
+    where: eq(admin_users.username, discordUser.username),
+  });
+  return existing ? `${discordUser.username}#${discordUser.id}` : discordUser.username;
+}
+
+/**
+ * Finds or creates the dashboard account for a Discord user and brings its
+ * role in line with their current guild roles, so removing a role in Discord
+ * takes effect at the next login.
+ */
+async function syncDiscordAccount(discordUser: DiscordUser, role: string): Promise<SelectAdminUser> {
+  const account = await db.query.admin_users.findFirst({
+    where: eq(admin_users.discordId, discordUser.id),
+  });
+
+  if (!account) {
+    const [newAccount] = await db.insert(admin_users)
+      .values({
+        username: await pickUsername(discordUser),
+        password: null,
+        discordId: discordUser.id,
+        role,
+      })
+      .returning();
+
+    await recordAudit({
+      guildId: null,
+      actor: adminActor(newAccount),
+      action: "admin.create",
+      targetType: "admin",
+      targetId: newAccount.id,
+      after: { username: newAccount.username, role, discordId: discordUser.id },
+    });
+
+    return newAccount;
+  }
+
+  if (account.role === role) {
+    return account;
+  }
+
+  const [updatedAccount] = await db.update(admin_users)
+    .set({ role })
+    .where(eq(admin_users.id, account.id))
+    .returning();
+
+  await recordAudit({
+    guildId: null,
+    actor: adminActor(updatedAccount),
+    action: "admin.update_role",
+    targetType: "admin",
+    targetId: account.id,
+    before: { username: account.username, role: account.role },
+    after: { username: updatedAccount.username, role: updatedAccount.role },
+  });
+
+  return updatedAccount;
+}
+
+export function createDiscordStrategy(config: DiscordAuthConfig) {
+  return new OAuth2Strategy(
+    {
+      clientID: config.clientId,
+      clientSecret: config.clientSecret,
+      callbackURL: config.callbackUrl,
+      authorizationURL: config.authorizationUrl,
+      tokenURL: config.tokenUrl,
+      scope: ["identify", "guilds.members.read"],
+      state: true,
+    },
+    async (
+      accessToken: string,
+      _refreshToken: string,
+      _profile: unknown,
+      done: (err: unknown, user?: Express.User | false, info?: { message: string }) => void
+    ) => {
+      try {
+        const guildId = config.guildId ?? await getDefaultGuildId();
+        const guild = guildId ? await getGuild(guildId) : undefined;
+        if (!guild) {
+          return done(null, false, { message: "No Discord server is configured for dashboard logins" });
+        }
+
+        const discordUser = await fetchDiscord<DiscordUser>(config, "/users/@me", accessToken);
+        if (!discordUser) {
+          return done(null, false, { message: "Could not read your Discord account" });
+        }
+
+        const member = await fetchDiscord<DiscordMember>(config, `/users/@me/guilds/${guild.id}/member`, accessToken);
+        if (!member) {
+          return done(null, false, { message: `You are not a member of ${guild.name}` });
+        }
+
+        const role = roleFromDiscordRoles(member.roles, guild);
+        if (!role) {
+          return done(null, false, { message: `None of your roles in ${guild.name} grant dashboard access` });
+        }
+
+        done(null, await syncDiscordAccount(discordUser, role));
+      } catch (error) {
+        done(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,42 @@
+import type { Request, Response, NextFunction } from "express";
+import { getDefaultGuildId, getGuild } from "./services/guilds";
+
+declare module "express-session" {
+  interface SessionData {
+    guildId?: string;
+  }
+}
+
+// extend express request with the guild the dashboard is working on
+declare global {
+  namespace Express {
+    interface Request {
+      guildId?: string;
+    }
+  }
+}
+
+// Returns the guild selected in the session, falling back to the default guild
+export async function getSelectedGuildId(req: Request): Promise<string | null> {
+  if (req.session.guildId && await getGuild(req.session.guildId)) {
+    return req.session.guildId;
+  }
+  return getDefaultGuildId();
+}
+
+// Resolves the selected guild onto `req.guildId`, rejecting requests without one
+export async function requireGuild(req: Request, res: Response, next: NextFunction) {
+  try {
+    const guildId = await getSelectedGuildId(req);
+    if (!guildId) {
+      return res.status(400).json({
+        message: "No Discord server available. Connect the bot to a server first."
+      });
+    }
+
+    req.guildId = guildId;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
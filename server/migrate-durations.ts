@@ -0,0 +1,72 @@
+import { db } from "@db";
+import { punishmentRules, punishments } from "@db/schema";
+import { and, eq, isNull, isNotNull } from "drizzle-orm";
+import { MAX_TIMEOUT_MINUTES } from "./services/punishments";
+import { recordAudit, type AuditActor } from "./services/audit";
+
+const MIGRATION_ACTOR: AuditActor = { type: "system", id: null, name: "Duration migration" };
+
+/**
+ * Copies the unitless `duration` columns into `duration_minutes`. Mute rules
+ * were entered in hours on the settings page, so they are converted and held
+ * to Discord's 28 day timeout limit; the other rule types were always entered
+ * in minutes. Punishments take their real length from when they expire. Rows
+ * that already have minutes are left alone, so it is safe to run twice.
+ *
+ *   npm run db:push && npm run db:migrate-durations
+ */
+async function migrateDurations() {
+  let rulesMigrated = 0;
+  let punishmentsMigrated = 0;
+
+  const legacyRules = await db.select().from(punishmentRules)
+    .where(and(isNotNull(punishmentRules.duration), isNull(punishmentRules.durationMinutes)));
+
+  for (const rule of legacyRules) {
+    let durationMinutes = rule.type === "mute" ? rule.duration! * 60 : rule.duration!;
+    if (rule.type === "mute" && durationMinutes > MAX_TIMEOUT_MINUTES) {
+      console.warn(`Punishment rule ${rule.id} muted for ${rule.duration} hours, capping it at 28 days`);
+      durationMinutes = MAX_TIMEOUT_MINUTES;
+    }
+
+    await db.update(punishmentRules)
+      .set({ durationMinutes })
+      .where(eq(punishmentRules.id, rule.id));
+    rulesMigrated++;
+  }
+
+  const legacyPunishments = await db.select().from(punishments)
+    .where(and(isNotNull(punishments.duration), isNull(punishments.durationMinutes)));
+
+  for (const punishment of legacyPunishments) {
+    const durationMinutes = punishment.expiresAt
+      ? Math.max(1, Math.round((punishment.expiresAt.getTime() - punishment.createdAt.getTime()) / 60000))
+      : punishment.duration!;
+
+    await db.update(punishments)
+      .set({ durationMinutes })
+      .where(eq(punishments.id, punishment.id));
+    punishmentsMigrated++;
+  }
+
+  await recordAudit({
+    guildId: null,
+    actor: MIGRATION_ACTOR,
+    action: "settings.migrate_durations",
+    targetType: "settings",
+    targetId: "durations",
+    after: { rulesMigrated, punishmentsMigrated },
+  });
+
+  return { rulesMigrated, punishmentsMigrated };
+}
+
+migrateDurations()
+  .then(({ rulesMigrated, punishmentsMigrated }) => {
+    console.log(`Migrated durations of ${rulesMigrated} punishment rule(s) and ${punishmentsMigrated} punishment(s) to minutes`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error("Duration migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,100 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+// Tables that held single-server data before moderation was scoped per guild
+const GUILD_SCOPED_TABLES = [
+  "users",
+  "warnings",
+  "warning_levels",
+  "rules",
+  "punishments",
+  "punishment_rules",
+  "ai_prompt_templates",
+];
+
+/**
+ * Moves a single-server database onto per-guild scoping. Everything already
+ * stored belonged to the server in `discord_settings.guild_id`, so that
+ * server gets a `guilds` row and every existing row is given its ID. Users
+ * are re-keyed on (id, guild_id), which means dropping the old foreign keys
+ * to them first. It has to run before `db:push`, which can't add the NOT NULL
+ * columns to tables that already have rows. The bot fills in the server's
+ * real name when it next connects. Safe to run twice.
+ *
+ *   npm run db:migrate-guilds && npm run db:push
+ *
+ * Pass a guild ID to use when no bot has been configured yet:
+ *
+ *   npm run db:migrate-guilds -- 123456789012345678
+ */
+async function migrateGuilds() {
+  return db.transaction(async (tx) => {
+    const tableExists = async (table: string) => {
+      const { rows } = await tx.execute(sql`SELECT to_regclass(${`public.${table}`}) IS NOT NULL AS "exists"`);
+      return rows[0].exists === true;
+    };
+
+    let guildId: string | undefined = process.argv[2];
+    if (!guildId && await tableExists("discord_settings")) {
+      const { rows } = await tx.execute(sql`SELECT guild_id FROM discord_settings ORDER BY id DESC LIMIT 1`);
+      guildId = rows[0]?.guild_id as string | undefined;
+    }
+    if (!guildId || !/^\d+$/.test(guildId)) {
+      throw new Error("No Discord guild ID found in discord_settings. Pass it as an argument: npm run db:migrate-guilds -- <guild id>");
+    }
+
+    // The rest of the guilds columns have defaults, so db:push adds them afterwards
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS guilds (
+        id text PRIMARY KEY,
+        name text NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`INSERT INTO guilds (id, name) VALUES (${guildId}, ${guildId}) ON CONFLICT (id) DO NOTHING`);
+
+    const backfilled: Record<string, number> = {};
+    for (const table of GUILD_SCOPED_TABLES) {
+      if (!await tableExists(table)) {
+        continue;
+      }
+      await tx.execute(sql`ALTER TABLE ${sql.identifier(table)} ADD COLUMN IF NOT EXISTS guild_id text`);
+      const result = await tx.execute(sql`UPDATE ${sql.identifier(table)} SET guild_id = ${guildId} WHERE guild_id IS NULL`);
+      backfilled[table] = result.rowCount ?? 0;
+    }
+
+    // Users were keyed on their Discord ID alone, which warnings and punishments referenced
+    if (await tableExists("users")) {
+      const { rows: composite } = await tx.execute(sql`
+        SELECT 1 FROM pg_constraint WHERE conname = 'users_id_guild_id_pk'
+      `);
+      if (composite.length === 0) {
+        const { rows: references } = await tx.execute(sql`
+          SELECT conname, conrelid::regclass::text AS "table"
+          FROM pg_constraint
+          WHERE contype = 'f' AND confrelid = 'users'::regclass
+        `);
+        for (const reference of references) {
+          await tx.execute(sql`ALTER TABLE ${sql.identifier(reference.table as string)} DROP CONSTRAINT ${sql.identifier(reference.conname as string)}`);
+        }
+        await tx.execute(sql`ALTER TABLE users DROP CONSTRAINT IF EXISTS users_pkey`);
+        await tx.execute(sql`ALTER TABLE users ALTER COLUMN guild_id SET NOT NULL`);
+        await tx.execute(sql`ALTER TABLE users ADD CONSTRAINT users_id_guild_id_pk PRIMARY KEY (id, guild_id)`);
+      }
+    }
+
+    return { guildId, backfilled };
+  });
+}
+
+migrateGuilds()
+  .then(({ guildId, backfilled }) => {
+    const counts = Object.entries(backfilled).map(([table, count]) => `${count} ${table}`).join(", ");
+    console.log(`Assigned existing data to guild ${guildId}: ${counts || "no tables to update"}. Now run npm run db:push`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error("Guild migration failed:", error);
+    process.exit(1);
+  });
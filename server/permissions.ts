@@ -0,0 +1,133 @@
+import type { Request, Response, NextFunction } from "express";
+import type { SelectAdminUser, SelectGuild } from "@db/schema";
+
+// Ordered from most to least privileged
+export const ADMIN_ROLES = ["owner", "admin", "moderator", "viewer"] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export type Permission =
+  | "dashboard.view"
+  | "moderation.act" // ignore warnings, decide reviews and appeals, test moderation, recalculate points
+  | "users.reset"
+  | "config.edit" // warning levels, rules, punishment rules, prompts and server settings
+  | "audit.view"
+  | "accounts.manage"
+  | "settings.manage"; // bot token and AI provider credentials
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  viewer: ["dashboard.view"],
+  moderator: ["dashboard.view", "moderation.act"],
+  admin: ["dashboard.view", "moderation.act", "users.reset", "config.edit", "audit.view", "accounts.manage"],
+  owner: ["dashboard.view", "moderation.act", "users.reset", "config.edit", "audit.view", "accounts.manage", "settings.manage"],
+};
+
+export function isAdminRole(role: unknown): role is AdminRole {
+  return typeof role === "string" && (ADMIN_ROLES as readonly string[]).includes(role);
+}
+
+// Unknown roles get no permissions rather than failing open
+export function getPermissions(role: string): Permission[] {
+  return isAdminRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function hasPermission(user: Pick<SelectAdminUser, "role">, permission: Permission): boolean {
+  return getPermissions(user.role).includes(permission);
+}
+
+function roleRank(role: string): number {
+  const rank = ADMIN_ROLES.indexOf(role as AdminRole);
+  return rank === -1 ? ADMIN_ROLES.length : rank;
+}
+
+/**
+ * Returns why `actor` may not give an account `role`, or null when they can.
+ * Only owners can hand out the owner role; everyone else is limited to their
+ * own role and below.
+ */
+export function checkCanAssignRole(actor: Pick<SelectAdminUser, "role">, role: string): string | null {
+  if (!isAdminRole(role)) {
+    return `Role must be one of: ${ADMIN_ROLES.join(", ")}`;
+  }
+  if (!hasPermission(actor, "accounts.manage") || roleRank(role) < roleRank(actor.role)) {
+    return "You can't assign a role above your own";
+  }
+  return null;
+}
+
+// Returns why `actor` may not change or remove `target`, or null when they can
+export function checkCanManageAccount(
+  actor: Pick<SelectAdminUser, "id" | "role">,
+  target: Pick<SelectAdminUser, "id" | "role">
+): string | null {
+  if (actor.id === target.id) {
+    return "You can't change your own account";
+  }
+  if (!hasPermission(actor, "accounts.manage") || roleRank(target.role) < roleRank(actor.role)) {
+    return "You can't manage an account with a higher role than your own";
+  }
+  return null;
+}
+
+/**
+ * Picks the dashboard role for a Discord member from the guild's role mapping.
+ * The guild's moderator role counts as moderator unless mapped otherwise, and
+ * the highest role wins. Returns null when none of the member's roles grant
+ * dashboard access.
+ */
+export function roleFromDiscordRoles(
+  memberRoleIds: string[],
+  guild: Pick<SelectGuild, "dashboardRoles" | "moderatorRoleId">
+): AdminRole | null {
+  const mapped = memberRoleIds
+    .map(roleId => guild.dashboardRoles[roleId] ?? (roleId === guild.moderatorRoleId ? "moderator" : null))
+    .filter(isAdminRole);
+
+  if (!mapped.length) {
+    return null;
+  }
+  return mapped.reduce((best, role) => roleRank(role) < roleRank(best) ? role : best);
+}
+
+/**
+ * Returns why `actor` may not replace the guild's Discord role mapping, or
+ * null when they can. Every role added or removed must be one they could
+ * assign directly, so the mapping can't be used to grant a higher role.
+ */
+export function checkCanMapDiscordRoles(
+  actor: Pick<SelectAdminUser, "role">,
+  mapping: unknown,
+  previous: Record<string, string>
+): string | null {
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    return "Dashboard roles must map Discord role IDs to roles";
+  }
+
+  const entries = Object.entries(mapping as Record<string, unknown>);
+  for (const [roleId, role] of entries) {
+    if (!/^\d+$/.test(roleId)) {
+      return "Dashboard roles must map Discord role IDs to roles";
+    }
+    const problem = checkCanAssignRole(actor, String(role));
+    if (problem) {
+      return problem;
+    }
+  }
+
+  for (const [roleId, role] of Object.entries(previous)) {
+    if ((mapping as Record<string, unknown>)[roleId] !== role && checkCanAssignRole(actor, role)) {
+      return "You can't change a mapping to a role above your own";
+    }
+  }
+
+  return null;
+}
+
+// Rejects requests from dashboard accounts whose role lacks the permission
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !hasPermission(req.user, permission)) {
+      return res.status(403).json({ message: "You don't have permission to do that" });
+    }
+    next();
+  };
+}
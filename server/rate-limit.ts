@@ -0,0 +1,42 @@
+import type { Request, Response, NextFunction } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message: string;
+}
+
+/**
+ * Limits each client IP to `max` requests per sliding window. Counts live in
+ * memory, which is enough to slow down password guessing against a single
+ * dashboard process.
+ */
+export function rateLimit({ windowMs, max, message }: RateLimitOptions) {
+  const hits = new Map<string, number[]>();
+
+  const timer = setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    for (const [key, times] of Array.from(hits.entries())) {
+      if (times[times.length - 1] <= cutoff) {
+        hits.delete(key);
+      }
+    }
+  }, windowMs);
+  timer.unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = req.ip ?? "unknown";
+    const now = Date.now();
+    const recent = (hits.get(key) ?? []).filter(time => time > now - windowMs);
+
+    if (recent.length >= max) {
+      res.setHeader("Retry-After", Math.ceil((recent[0] + windowMs - now) / 1000).toString());
+      hits.set(key, recent);
+      return res.status(429).send(message);
+    }
+
+    recent.push(now);
+    hits.set(key, recent);
+    next();
+  };
+}
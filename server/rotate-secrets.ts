@@ -0,0 +1,69 @@
+import { db } from "@db";
+import { discordSettings, openaiSettings } from "@db/schema";
+import { eq } from "drizzle-orm";
+import { encryptSecret, decryptSecret, getSecretKeyId, getCurrentMasterKeyId } from "./secrets";
+import { recordAudit, type AuditActor } from "./services/audit";
+
+const ROTATION_ACTOR: AuditActor = { type: "system", id: null, name: "Key rotation" };
+
+// Re-encrypts a stored value with the current master key, or returns null
+// when it already is
+function rotate(stored: string): string | null {
+  if (getSecretKeyId(stored) === getCurrentMasterKeyId()) {
+    return null;
+  }
+  return encryptSecret(decryptSecret(stored));
+}
+
+/**
+ * Re-encrypts the bot token and LLM API key with SECRETS_MASTER_KEY. Run it
+ * after moving the old key to SECRETS_PREVIOUS_MASTER_KEYS; once it finishes
+ * the old key can be dropped. Plaintext rows from before encryption are
+ * encrypted too.
+ *
+ *   npm run secrets:rotate
+ */
+async function rotateSecrets() {
+  let rotated = 0;
+
+  for (const row of await db.select().from(discordSettings)) {
+    const botToken = rotate(row.botToken);
+    if (botToken) {
+      await db.update(discordSettings)
+        .set({ botToken })
+        .where(eq(discordSettings.id, row.id));
+      rotated++;
+    }
+  }
+
+  for (const row of await db.select().from(openaiSettings)) {
+    const apiKey = row.apiKey && rotate(row.apiKey);
+    if (apiKey) {
+      await db.update(openaiSettings)
+        .set({ apiKey })
+        .where(eq(openaiSettings.id, row.id));
+      rotated++;
+    }
+  }
+
+  await recordAudit({
+    guildId: null,
+    actor: ROTATION_ACTOR,
+    action: "settings.rotate_secrets",
+    targetType: "settings",
+    targetId: "secrets",
+    after: { masterKeyId: getCurrentMasterKeyId(), rotated },
+  });
+
+  return rotated;
+}
+
+rotateSecrets()
+  .then(rotated => {
+    console.log(`Re-encrypted ${rotated} secret(s) with master key ${getCurrentMasterKeyId()}`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error("Secret rotation failed:", error);
+    process.exit(1);
+  });
@@ -1,13 +1,33 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { db } from "@db";
-import { users, warnings, punishments, warningLevels, rules, discordSettings, openaiSettings, aiPromptTemplates, aiPromptHistory, punishmentRules, insertRuleSchema } from "@db/schema";
-import { eq, and, sql } from "drizzle-orm";
-import { setupDiscordBot } from "./services/discord";
-import { testOpenAIConnection } from "./services/openai";
-import { analyzeMessage } from "./services/moderation";
-import { validateDiscordToken } from "./services/discord";
+import { users, warnings, warningLevels, rules, discordSettings, openaiSettings, aiPromptTemplates, aiPromptHistory, punishmentRules, guilds, pendingReviews, appeals, admin_users, adminInvites, insertRuleSchema } from "@db/schema";
+import { eq, and, or, ne, gt, isNull, sql } from "drizzle-orm";
+import { setupDiscordBot, enforceViolation } from "./services/discord";
+import { LLM_PROVIDERS, llmConfigInputSchema, buildLLMConfig, pickLLMConfig, validateLLMConfig, getLLMSettings, testLLMConnection, invalidateLLMConfigCache } from "./services/llm";
+import { invalidateAnalysisCache } from "./services/openai";
+import { analyzeMessage, needsReview } from "./services/moderation";
+import { queueViolationForReview, pardonWarning } from "./services/violations";
+import { approveReview, rejectReview } from "./services/reviews";
+import { acceptAppeal, rejectAppeal } from "./services/appeals";
+import { validateDiscordToken, listGuildChannels, listGuildRoles } from "./services/discord";
 import { setupAuth } from "./auth";
+import { destroyUserSessions } from "./session-store";
+import { encryptSecret, decryptSecret, maskSecret } from "./secrets";
+import { setWatchlisted, listDeletedMessages } from "./services/watchlist";
+import { validateMediaSettings } from "./services/media";
+import { validateModerationScope } from "./services/scope";
+import { validatePunishmentRule, punishmentRuleValues } from "./services/punishments";
+import { reconcilePunishments, reversePunishments } from "./services/punishment-engine";
+import { validateSpamSettings, isRaidModeActive, startRaidMode, endRaidMode } from "./services/spam";
+import { validateNotificationSettings, validateTemplate } from "./services/notifications";
+import { validateRulePatterns, cleanRulePatterns, isPatternList, matchRulePatterns } from "./services/prefilter";
+import { requireGuild, getSelectedGuildId } from "./guild";
+import { requirePermission, hasPermission, checkCanAssignRole, checkCanManageAccount, checkCanMapDiscordRoles } from "./permissions";
+import { getGuild, copyGuildConfig } from "./services/guilds";
+import { syncUserPoints, syncGuildPoints, getWarningExpiry, isWarningExpired } from "./services/points";
+import { recordAudit, adminActor, actorReference, listAuditEntries, toAuditCsv, parseAuditFilters } from "./services/audit";
 
 export function registerRoutes(app: Express): Server {
   // Set up authentication routes and middleware
@@ -26,35 +46,323 @@ export function registerRoutes(app: Express): Server {
     next();
   });
 
-  // Get Discord settings
-  app.get("/api/settings/discord", async (_req, res) => {
-    const settings = await db.query.discordSettings.findFirst({
-      orderBy: (discordSettings, { desc }) => [desc(discordSettings.createdAt)],
-    });
+  // resolve the selected guild for all guild-scoped routes
+  app.use([
+    "/api/warning-levels",
+    "/api/rules",
+    "/api/test",
+    "/api/warnings",
+    "/api/users",
+    "/api/prompt-templates",
+    "/api/punishment-rules",
+    "/api/reviews",
+    "/api/appeals",
+    "/api/audit",
+  ], requireGuild);
+
+  // Cached prompts and verdicts depend on the guild's rules and templates
+  app.use(["/api/warning-levels", "/api/rules", "/api/prompt-templates"], (req, res, next) => {
+    if (req.method !== "GET") {
+      res.on("finish", () => {
+        if (res.statusCode < 400) {
+          invalidateAnalysisCache(req.guildId!);
+        }
+      });
+    }
+    next();
+  });
 
-    if (!settings) {
-      return res.json({
-        status: "disconnected",
+  // Get guilds the bot has joined and the one selected in this session
+  app.get("/api/guilds", async (req, res) => {
+    try {
+      const guildList = await db.query.guilds.findMany({
+        orderBy: (guilds, { asc }) => [asc(guilds.name)],
+      });
+
+      res.json({
+        guilds: guildList,
+        selectedGuildId: await getSelectedGuildId(req),
       });
+    } catch (error: any) {
+      console.error('Error fetching guilds:', error);
+      res.status(500).json({ message: error.message });
     }
+  });
 
-    // Don't send the actual token back to the client
-    return res.json({
-      guildId: settings.guildId,
-      status: settings.status,
-      error: settings.error,
-    });
+  // Select the guild the dashboard works on
+  app.post("/api/guilds/select", async (req, res) => {
+    try {
+      const { guildId } = req.body;
+
+      if (!guildId) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      const guild = await getGuild(guildId);
+      if (!guild) {
+        return res.status(404).json({ message: "Guild not found" });
+      }
+
+      req.session.guildId = guild.id;
+      res.json({ selectedGuildId: guild.id });
+    } catch (error: any) {
+      console.error('Error selecting guild:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Channels and roles come from the bot so the settings can offer them by name
+  app.get("/api/guilds/:id/channels", async (req, res) => {
+    try {
+      const channels = await listGuildChannels(req.params.id);
+      if (!channels) {
+        return res.status(503).json({ message: "The bot can't reach this server. Check that it's connected." });
+      }
+      res.json(channels);
+    } catch (error: any) {
+      console.error('Error fetching guild channels:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/guilds/:id/roles", async (req, res) => {
+    try {
+      const roles = await listGuildRoles(req.params.id);
+      if (!roles) {
+        return res.status(503).json({ message: "The bot can't reach this server. Check that it's connected." });
+      }
+      res.json(roles);
+    } catch (error: any) {
+      console.error('Error fetching guild roles:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Start or end raid mode by hand
+  app.put("/api/guilds/:id/raid-mode", requirePermission("moderation.act"), async (req, res) => {
+    const { active } = req.body;
+
+    if (typeof active !== "boolean") {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    try {
+      const guild = await getGuild(req.params.id);
+      if (!guild) {
+        return res.status(404).json({ message: "Guild not found" });
+      }
+
+      if (active === isRaidModeActive(guild)) {
+        return res.json(guild);
+      }
+
+      const updated = active
+        ? await startRaidMode(guild, "Started from the dashboard", adminActor(req.user!))
+        : await endRaidMode(guild, adminActor(req.user!));
+      res.json(updated);
+    } catch (error: any) {
+      console.error('Error updating raid mode:', error);
+      res.status(500).json({ message: error.message || "Failed to update raid mode" });
+    }
+  });
+
+  // Update guild settings
+  app.put("/api/guilds/:id", requirePermission("config.edit"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const {
+        sharePoints, forgivenessPointsPerWeek, moderatorRoleId, dashboardRoles,
+        mediaModeration, mediaMaxBytes, mediaContentTypes, spamSettings,
+        excludedChannelIds, exemptRoleIds, categoryStrictness,
+        dmNotifications, warningVisibility, modLogChannelId, punishmentDmTemplates,
+      } = req.body;
+
+      if (sharePoints === undefined && forgivenessPointsPerWeek === undefined &&
+        moderatorRoleId === undefined && dashboardRoles === undefined &&
+        mediaModeration === undefined && mediaMaxBytes === undefined && mediaContentTypes === undefined &&
+        spamSettings === undefined && excludedChannelIds === undefined && exemptRoleIds === undefined &&
+        categoryStrictness === undefined && dmNotifications === undefined && warningVisibility === undefined &&
+        modLogChannelId === undefined && punishmentDmTemplates === undefined) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      if (sharePoints !== undefined && typeof sharePoints !== "boolean") {
+        return res.status(400).json({ message: "sharePoints must be a boolean" });
+      }
+
+      if (forgivenessPointsPerWeek !== undefined &&
+        (!Number.isInteger(forgivenessPointsPerWeek) || forgivenessPointsPerWeek < 0)) {
+        return res.status(400).json({ message: "Forgiveness rate must be a whole number of points" });
+      }
+
+      if (moderatorRoleId !== undefined && moderatorRoleId !== null &&
+        (typeof moderatorRoleId !== "string" || !/^\d+$/.test(moderatorRoleId))) {
+        return res.status(400).json({ message: "Moderator role ID must be a Discord role ID" });
+      }
+
+      const mediaProblem = validateMediaSettings({ mediaModeration, mediaMaxBytes, mediaContentTypes });
+      if (mediaProblem) {
+        return res.status(400).json({ message: mediaProblem });
+      }
+
+      const scopeProblem = validateModerationScope({ excludedChannelIds, exemptRoleIds, categoryStrictness });
+      if (scopeProblem) {
+        return res.status(400).json({ message: scopeProblem });
+      }
+
+      if (spamSettings !== undefined) {
+        const spamProblem = await validateSpamSettings(id, spamSettings);
+        if (spamProblem) {
+          return res.status(400).json({ message: spamProblem });
+        }
+      }
+
+      const existingGuild = await getGuild(id);
+
+      const notificationProblem = validateNotificationSettings(
+        { dmNotifications, warningVisibility, modLogChannelId, punishmentDmTemplates },
+        existingGuild
+      );
+      if (notificationProblem) {
+        return res.status(400).json({ message: notificationProblem });
+      }
+
+      // The mapping grants dashboard roles to Discord logins, so it's account management
+      if (dashboardRoles !== undefined) {
+        if (!hasPermission(req.user!, "accounts.manage")) {
+          return res.status(403).json({ message: "You don't have permission to do that" });
+        }
+        const problem = checkCanMapDiscordRoles(req.user!, dashboardRoles, existingGuild?.dashboardRoles ?? {});
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+
+      const guild = await db.update(guilds)
+        .set({
+          sharePoints,
+          forgivenessPointsPerWeek,
+          moderatorRoleId,
+          dashboardRoles,
+          mediaModeration,
+          mediaMaxBytes,
+          mediaContentTypes,
+          spamSettings,
+          excludedChannelIds,
+          exemptRoleIds,
+          categoryStrictness,
+          dmNotifications,
+          warningVisibility,
+          modLogChannelId,
+          punishmentDmTemplates,
+          updatedAt: new Date(),
+        })
+        .where(eq(guilds.id, id))
+        .returning();
+
+      if (!guild.length) {
+        return res.status(404).json({ message: "Guild not found" });
+      }
+
+      if (forgivenessPointsPerWeek !== undefined) {
+        await syncGuildPoints(id);
+      }
+
+      await recordAudit({
+        guildId: id,
+        actor: adminActor(req.user!),
+        action: "guild.update",
+        targetType: "guild",
+        targetId: id,
+        before: existingGuild,
+        after: guild[0],
+      });
+
+      res.json(guild[0]);
+    } catch (error: any) {
+      console.error('Error updating guild settings:', error);
+      res.status(500).json({ message: error.message });
+    }
   });
 
-  // Update Discord settings
-  app.post("/api/settings/discord", async (req, res) => {
-    const { botToken, guildId } = req.body;
+  // Copy rules, punishments and the active prompt from another guild
+  app.post("/api/guilds/:id/copy-config", requirePermission("config.edit"), async (req, res) => {
+    const { id } = req.params;
+    const { sourceGuildId } = req.body;
 
-    if (!botToken || !guildId) {
+    if (!sourceGuildId) {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
+    if (sourceGuildId === id) {
+      return res.status(400).json({ message: "Source and target guild must differ" });
+    }
+
+    try {
+      if (!await getGuild(id) || !await getGuild(sourceGuildId)) {
+        return res.status(404).json({ message: "Guild not found" });
+      }
+
+      await copyGuildConfig(sourceGuildId, id);
+      invalidateAnalysisCache(id);
+
+      await recordAudit({
+        guildId: id,
+        actor: adminActor(req.user!),
+        action: "guild.copy_config",
+        targetType: "guild",
+        targetId: id,
+        after: { sourceGuildId },
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error copying guild configuration:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get Discord settings
+  app.get("/api/settings/discord", async (_req, res) => {
+    try {
+      const settings = await db.query.discordSettings.findFirst({
+        orderBy: (discordSettings, { desc }) => [desc(discordSettings.createdAt)],
+      });
+
+      if (!settings) {
+        return res.json({
+          status: "disconnected",
+        });
+      }
+
+      // Only the end of the token is sent back, so it can be recognised
+      return res.json({
+        guildId: settings.guildId,
+        status: settings.status,
+        error: settings.error,
+        botTokenLast4: maskSecret(decryptSecret(settings.botToken)),
+      });
+    } catch (error: any) {
+      console.error("Error fetching Discord settings:", error);
+      return res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Update Discord settings. A blank token keeps the stored one.
+  app.post("/api/settings/discord", requirePermission("settings.manage"), async (req, res) => {
+    const { guildId } = req.body;
+
     try {
+      const existingSettings = await db.query.discordSettings.findFirst({
+        orderBy: (discordSettings, { desc }) => [desc(discordSettings.createdAt)],
+      });
+      const existingToken = existingSettings && decryptSecret(existingSettings.botToken);
+      const botToken: string | undefined = req.body.botToken || existingToken;
+
+      if (!botToken || !guildId) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
       // Validate token first
       const validation = await validateDiscordToken(botToken);
       if (!validation.valid) {
@@ -63,18 +371,31 @@ export function registerRoutes(app: Express): Server {
         });
       }
 
+      const encryptedToken = encryptSecret(botToken);
+
       // Delete any existing settings
       await db.delete(discordSettings);
 
       // Insert new settings
       const settings = await db.insert(discordSettings)
         .values({
-          botToken,
+          botToken: encryptedToken,
           guildId,
           status: "connecting",
         })
         .returning();
 
+      await recordAudit({
+        guildId: null,
+        actor: adminActor(req.user!),
+        action: "settings.discord.update",
+        targetType: "settings",
+        targetId: "discord",
+        before: existingSettings && { botToken: existingToken, guildId: existingSettings.guildId },
+        after: { botToken, guildId },
+        secretFields: ["botToken"],
+      });
+
       // Try to connect to Discord
       const setup = await setupDiscordBot(botToken);
 
@@ -111,7 +432,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Check Discord connection status
-  app.post("/api/settings/discord/status", async (_req, res) => {
+  app.post("/api/settings/discord/status", requirePermission("settings.manage"), async (_req, res) => {
     const settings = await db.query.discordSettings.findFirst({
       orderBy: (discordSettings, { desc }) => [desc(discordSettings.createdAt)],
     });
@@ -121,8 +442,7 @@ export function registerRoutes(app: Express): Server {
     }
 
     try {
-      // Pass the token to setupDiscordBot
-      const setup = await setupDiscordBot(settings.botToken);
+      const setup = await setupDiscordBot(decryptSecret(settings.botToken));
 
       if (setup.success) {
         await db.update(discordSettings)
@@ -161,65 +481,104 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Get OpenAI settings
+  // Get LLM provider settings
   app.get("/api/settings/openai", async (_req, res) => {
-    const settings = await db.query.openaiSettings.findFirst({
-      orderBy: (openaiSettings, { desc }) => [desc(openaiSettings.createdAt)],
-    });
+    try {
+      const settings = await getLLMSettings();
 
-    if (!settings) {
+      if (!settings) {
+        return res.json({
+          status: "disconnected",
+          providers: LLM_PROVIDERS,
+        });
+      }
+
+      // Only the end of the key is sent back, so it can be recognised
       return res.json({
-        status: "disconnected",
+        status: settings.status,
+        error: settings.error,
+        latencyMs: settings.latencyMs,
+        provider: settings.provider,
+        baseUrl: settings.baseUrl,
+        model: settings.model,
+        visionModel: settings.visionModel,
+        temperature: settings.temperature,
+        timeoutMs: settings.timeoutMs,
+        maxTokens: settings.maxTokens,
+        batchSize: settings.batchSize,
+        batchWindowMs: settings.batchWindowMs,
+        hasApiKey: !!settings.apiKey,
+        apiKeyLast4: maskSecret(settings.apiKey),
+        providers: LLM_PROVIDERS,
       });
+    } catch (error: any) {
+      console.error("Error fetching LLM settings:", error);
+      return res.status(500).json({ message: error.message });
     }
-
-    // Don't send the actual key back to the client
-    return res.json({
-      status: settings.status,
-      error: settings.error,
-    });
   });
 
-  // Update OpenAI settings
-  app.post("/api/settings/openai", async (req, res) => {
-    const { apiKey } = req.body;
+  // Update LLM provider settings
+  app.post("/api/settings/openai", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const input = llmConfigInputSchema.safeParse(req.body);
+      if (!input.success) {
+        return res.status(400).json({ message: input.error.issues.map(i => i.message).join(", ") });
+      }
 
-    if (!apiKey) {
-      return res.status(400).json({ message: "Missing required fields" });
-    }
+      const existingSettings = await getLLMSettings();
+      const config = buildLLMConfig(input.data, existingSettings);
+      const problem = validateLLMConfig(config);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
 
-    try {
       // Delete any existing settings
       await db.delete(openaiSettings);
 
       // Insert new settings
       const settings = await db.insert(openaiSettings)
         .values({
-          apiKey,
+          ...config,
+          apiKey: config.apiKey && encryptSecret(config.apiKey),
           status: "disconnected",
         })
         .returning();
+      invalidateLLMConfigCache();
+
+      await recordAudit({
+        guildId: null,
+        actor: adminActor(req.user!),
+        action: "settings.llm.update",
+        targetType: "settings",
+        targetId: "llm",
+        before: existingSettings && pickLLMConfig(existingSettings),
+        after: pickLLMConfig(config),
+        secretFields: ["apiKey"],
+      });
 
       // Test the connection
       try {
-        await testOpenAIConnection();
+        const { latencyMs } = await testLLMConnection(config);
 
         await db.update(openaiSettings)
           .set({
             status: "connected",
             error: null,
+            latencyMs,
             updatedAt: new Date(),
           })
           .where(eq(openaiSettings.id, settings[0].id));
 
         return res.json({
           status: "connected",
+          latencyMs,
         });
       } catch (error: any) {
         await db.update(openaiSettings)
           .set({
             status: "error",
             error: error.message,
+            latencyMs: null,
             updatedAt: new Date(),
           })
           .where(eq(openaiSettings.id, settings[0].id));
@@ -231,35 +590,57 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Check OpenAI connection status
-  app.post("/api/settings/openai/status", async (_req, res) => {
-    const settings = await db.query.openaiSettings.findFirst({
-      orderBy: (openaiSettings, { desc }) => [desc(openaiSettings.createdAt)],
-    });
+  // Test LLM provider settings without saving them
+  app.post("/api/settings/openai/test", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const input = llmConfigInputSchema.safeParse(req.body);
+      if (!input.success) {
+        return res.status(400).json({ message: input.error.issues.map(i => i.message).join(", ") });
+      }
+
+      const config = buildLLMConfig(input.data, await getLLMSettings());
+      const problem = validateLLMConfig(config);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const { latencyMs } = await testLLMConnection(config);
+      return res.json({ latencyMs });
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Check LLM provider connection status
+  app.post("/api/settings/openai/status", requirePermission("settings.manage"), async (_req, res) => {
+    const settings = await getLLMSettings();
 
     if (!settings) {
-      return res.status(404).json({ message: "OpenAI API not configured" });
+      return res.status(404).json({ message: "LLM provider not configured" });
     }
 
     try {
-      await testOpenAIConnection();
+      const { latencyMs } = await testLLMConnection(settings);
 
       await db.update(openaiSettings)
         .set({
           status: "connected",
           error: null,
+          latencyMs,
           updatedAt: new Date(),
         })
         .where(eq(openaiSettings.id, settings.id));
 
       return res.json({
         status: "connected",
+        latencyMs,
       });
     } catch (error: any) {
       await db.update(openaiSettings)
         .set({
           status: "error",
           error: error.message,
+          latencyMs: null,
           updatedAt: new Date(),
         })
         .where(eq(openaiSettings.id, settings.id));
@@ -269,8 +650,9 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Get all warning levels with their rules
-  app.get("/api/warning-levels", async (_req, res) => {
+  app.get("/api/warning-levels", async (req, res) => {
     const levels = await db.query.warningLevels.findMany({
+      where: eq(warningLevels.guildId, req.guildId!),
       with: {
         rules: {
           orderBy: (rules, { asc }) => [asc(rules.order)],
@@ -282,35 +664,83 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Create a warning level
-  app.post("/api/warning-levels", async (req, res) => {
-    const { name, color, points, deleteMessage, description } = req.body;
+  app.post("/api/warning-levels", requirePermission("config.edit"), async (req, res) => {
+    const { name, color, points, deleteMessage, description, expiryDays, confidenceThreshold, dmTemplate } = req.body;
 
     if (!name || !color || typeof points !== "number" || !description) {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
+    if (expiryDays != null && (!Number.isInteger(expiryDays) || expiryDays < 1)) {
+      return res.status(400).json({ message: "Expiry must be a whole number of days" });
+    }
+
+    if (confidenceThreshold != null &&
+      (typeof confidenceThreshold !== "number" || confidenceThreshold < 0 || confidenceThreshold > 1)) {
+      return res.status(400).json({ message: "Confidence threshold must be between 0 and 1" });
+    }
+
+    const templateProblem = validateTemplate(dmTemplate);
+    if (templateProblem) {
+      return res.status(400).json({ message: templateProblem });
+    }
+
     const warningLevel = await db.insert(warningLevels)
       .values({
+        guildId: req.guildId!,
         name,
         color,
         points,
         deleteMessage: !!deleteMessage,
         description,
+        expiryDays: expiryDays ?? null,
+        confidenceThreshold: confidenceThreshold ?? 0,
+        dmTemplate: dmTemplate || null,
       })
       .returning();
 
+    await recordAudit({
+      guildId: req.guildId!,
+      actor: adminActor(req.user!),
+      action: "warning_level.create",
+      targetType: "warning_level",
+      targetId: warningLevel[0].id,
+      after: warningLevel[0],
+    });
+
     res.json(warningLevel[0]);
   });
 
   // Update a warning level
-  app.put("/api/warning-levels/:id", async (req, res) => {
+  app.put("/api/warning-levels/:id", requirePermission("config.edit"), async (req, res) => {
     const { id } = req.params;
-    const { name, color, points, deleteMessage, description } = req.body;
+    const { name, color, points, deleteMessage, description, expiryDays, confidenceThreshold, dmTemplate } = req.body;
 
     if (!name || !color || typeof points !== "number" || !description) {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
+    if (expiryDays != null && (!Number.isInteger(expiryDays) || expiryDays < 1)) {
+      return res.status(400).json({ message: "Expiry must be a whole number of days" });
+    }
+
+    if (confidenceThreshold != null &&
+      (typeof confidenceThreshold !== "number" || confidenceThreshold < 0 || confidenceThreshold > 1)) {
+      return res.status(400).json({ message: "Confidence threshold must be between 0 and 1" });
+    }
+
+    const templateProblem = validateTemplate(dmTemplate);
+    if (templateProblem) {
+      return res.status(400).json({ message: templateProblem });
+    }
+
+    const existingLevel = await db.query.warningLevels.findFirst({
+      where: and(
+        eq(warningLevels.id, parseInt(id)),
+        eq(warningLevels.guildId, req.guildId!)
+      ),
+    });
+
     const warningLevel = await db.update(warningLevels)
       .set({
         name,
@@ -318,20 +748,39 @@ export function registerRoutes(app: Express): Server {
         points,
         deleteMessage: !!deleteMessage,
         description,
+        expiryDays: expiryDays ?? null,
+        confidenceThreshold: confidenceThreshold ?? 0,
+        dmTemplate: dmTemplate || null,
         updatedAt: new Date(),
       })
-      .where(eq(warningLevels.id, parseInt(id)))
+      .where(and(
+        eq(warningLevels.id, parseInt(id)),
+        eq(warningLevels.guildId, req.guildId!)
+      ))
       .returning();
 
     if (!warningLevel.length) {
       return res.status(404).json({ message: "Warning level not found" });
     }
 
+    // A changed expiry can make existing warnings count again or stop counting
+    await syncGuildPoints(req.guildId!);
+
+    await recordAudit({
+      guildId: req.guildId!,
+      actor: adminActor(req.user!),
+      action: "warning_level.update",
+      targetType: "warning_level",
+      targetId: warningLevel[0].id,
+      before: existingLevel,
+      after: warningLevel[0],
+    });
+
     res.json(warningLevel[0]);
   });
 
   // Delete a warning level
-  app.delete("/api/warning-levels/:id", async (req, res) => {
+  app.delete("/api/warning-levels/:id", requirePermission("config.edit"), async (req, res) => {
     const { id } = req.params;
 
     try {
@@ -348,8 +797,37 @@ export function registerRoutes(app: Express): Server {
         });
       }
 
-      await db.delete(warningLevels)
-        .where(eq(warningLevels.id, parseInt(id)));
+      // Approved reviews have warnings, so only undecided or rejected ones remain
+      await db.delete(pendingReviews)
+        .where(and(
+          eq(pendingReviews.levelId, parseInt(id)),
+          eq(pendingReviews.guildId, req.guildId!),
+          ne(pendingReviews.status, "approved")
+        ));
+
+      await db.delete(rules)
+        .where(and(
+          eq(rules.warningLevelId, parseInt(id)),
+          eq(rules.guildId, req.guildId!)
+        ));
+
+      const [deletedLevel] = await db.delete(warningLevels)
+        .where(and(
+          eq(warningLevels.id, parseInt(id)),
+          eq(warningLevels.guildId, req.guildId!)
+        ))
+        .returning();
+
+      if (deletedLevel) {
+        await recordAudit({
+          guildId: req.guildId!,
+          actor: adminActor(req.user!),
+          action: "warning_level.delete",
+          targetType: "warning_level",
+          targetId: deletedLevel.id,
+          before: deletedLevel,
+        });
+      }
 
       res.status(204).end();
     } catch (error: any) {
@@ -359,9 +837,9 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Create a rule
-  app.post("/api/warning-levels/:levelId/rules", async (req, res) => {
+  app.post("/api/warning-levels/:levelId/rules", requirePermission("config.edit"), async (req, res) => {
     const { levelId } = req.params;
-    const { name, description } = req.body;
+    const { name, description, matchType = "ai" } = req.body;
 
     if (!name || !description) {
       return res.status(400).json({
@@ -369,7 +847,26 @@ export function registerRoutes(app: Express): Server {
       });
     }
 
+    // Cleaned first, so domains like "https://Discord.GG/" are normalized before they are checked
+    const rawPatterns = req.body.patterns ?? [];
+    const patterns = isPatternList(rawPatterns) ? cleanRulePatterns(matchType, rawPatterns) : rawPatterns;
+    const patternsProblem = validateRulePatterns(matchType, patterns);
+    if (patternsProblem) {
+      return res.status(400).json({ message: patternsProblem });
+    }
+
     try {
+      const level = await db.query.warningLevels.findFirst({
+        where: and(
+          eq(warningLevels.id, parseInt(levelId)),
+          eq(warningLevels.guildId, req.guildId!)
+        ),
+      });
+
+      if (!level) {
+        return res.status(404).json({ message: "Warning level not found" });
+      }
+
       // Get the highest order number for this warning level
       const existingRules = await db.query.rules.findMany({
         where: eq(rules.warningLevelId, parseInt(levelId)),
@@ -382,13 +879,25 @@ export function registerRoutes(app: Express): Server {
       // Create the rule with the calculated order
       const rule = await db.insert(rules)
         .values({
+          guildId: req.guildId!,
           name,
           description,
           warningLevelId: parseInt(levelId),
           order: nextOrder,
+          matchType,
+          patterns,
         })
         .returning();
 
+      await recordAudit({
+        guildId: req.guildId!,
+        actor: adminActor(req.user!),
+        action: "rule.create",
+        targetType: "rule",
+        targetId: rule[0].id,
+        after: rule[0],
+      });
+
       res.json(rule[0]);
     } catch (error: any) {
       console.error('Error creating rule:', error);
@@ -398,38 +907,84 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Try a rule's patterns against a sample message without saving them
+  app.post("/api/rules/test", requirePermission("config.edit"), async (req, res) => {
+    const { matchType, content } = req.body;
+
+    if (typeof content !== "string") {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const rawPatterns = req.body.patterns;
+    const patterns = isPatternList(rawPatterns) ? cleanRulePatterns(matchType, rawPatterns) : rawPatterns;
+    const patternsProblem = validateRulePatterns(matchType, patterns);
+    if (patternsProblem) {
+      return res.status(400).json({ message: patternsProblem });
+    }
+
+    const reason = matchRulePatterns(matchType, patterns, content);
+    res.json({ matched: reason !== null, reason });
+  });
+
   // Update a rule
-  app.put("/api/rules/:id", async (req, res) => {
+  app.put("/api/rules/:id", requirePermission("config.edit"), async (req, res) => {
     const { id } = req.params;
     const { name, description } = req.body;
 
     try {
       // First get the existing rule to get its warningLevelId
       const existingRule = await db.query.rules.findFirst({
-        where: eq(rules.id, parseInt(id))
+        where: and(
+          eq(rules.id, parseInt(id)),
+          eq(rules.guildId, req.guildId!)
+        ),
       });
 
       if (!existingRule) {
         return res.status(404).json({ message: "Rule not found" });
       }
 
+      // Match settings are optional so older clients keep the rule's current ones
+      const matchType = req.body.matchType ?? existingRule.matchType;
+      const rawPatterns = req.body.patterns ?? existingRule.patterns;
+      const patterns = isPatternList(rawPatterns) ? cleanRulePatterns(matchType, rawPatterns) : rawPatterns;
+      const patternsProblem = validateRulePatterns(matchType, patterns);
+      if (patternsProblem) {
+        return res.status(400).json({ message: patternsProblem });
+      }
+
       // Validate input using our schema
       const validatedData = insertRuleSchema.parse({
+        guildId: existingRule.guildId,
         name,
         description,
         warningLevelId: existingRule.warningLevelId,
-        order: existingRule.order
+        order: existingRule.order,
+        matchType,
+        patterns,
       });
 
       const rule = await db.update(rules)
         .set({
           name: validatedData.name,
           description: validatedData.description,
+          matchType: validatedData.matchType,
+          patterns: validatedData.patterns,
           updatedAt: new Date(),
         })
         .where(eq(rules.id, parseInt(id)))
         .returning();
 
+      await recordAudit({
+        guildId: req.guildId!,
+        actor: adminActor(req.user!),
+        action: "rule.update",
+        targetType: "rule",
+        targetId: rule[0].id,
+        before: existingRule,
+        after: rule[0],
+      });
+
       res.json(rule[0]);
     } catch (error: any) {
       if (error.errors) {
@@ -443,17 +998,32 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Delete a rule
-  app.delete("/api/rules/:id", async (req, res) => {
+  app.delete("/api/rules/:id", requirePermission("config.edit"), async (req, res) => {
     const { id } = req.params;
 
-    await db.delete(rules)
-      .where(eq(rules.id, parseInt(id)));
+    const [deletedRule] = await db.delete(rules)
+      .where(and(
+        eq(rules.id, parseInt(id)),
+        eq(rules.guildId, req.guildId!)
+      ))
+      .returning();
+
+    if (deletedRule) {
+      await recordAudit({
+        guildId: req.guildId!,
+        actor: adminActor(req.user!),
+        action: "rule.delete",
+        targetType: "rule",
+        targetId: deletedRule.id,
+        before: deletedRule,
+      });
+    }
 
     res.status(204).end();
   });
 
   // Update rule order
-  app.put("/api/warning-levels/:levelId/rules/reorder", async (req, res) => {
+  app.put("/api/warning-levels/:levelId/rules/reorder", requirePermission("config.edit"), async (req, res) => {
     const { levelId } = req.params;
     const { rules: ruleUpdates } = req.body as { rules: { id: number; order: number }[] };
 
@@ -461,148 +1031,136 @@ export function registerRoutes(app: Express): Server {
       return res.status(400).json({ message: "Invalid rules array" });
     }
 
+    const previousRules = await db.query.rules.findMany({
+      where: and(
+        eq(rules.warningLevelId, parseInt(levelId)),
+        eq(rules.guildId, req.guildId!)
+      ),
+    });
+
     // Update each rule's order
     for (const { id, order } of ruleUpdates) {
       await db.update(rules)
         .set({ order })
         .where(and(
           eq(rules.id, id),
-          eq(rules.warningLevelId, parseInt(levelId))
+          eq(rules.warningLevelId, parseInt(levelId)),
+          eq(rules.guildId, req.guildId!)
         ));
     }
 
     // Get updated rules
     const updatedRules = await db.query.rules.findMany({
-      where: eq(rules.warningLevelId, parseInt(levelId)),
+      where: and(
+        eq(rules.warningLevelId, parseInt(levelId)),
+        eq(rules.guildId, req.guildId!)
+      ),
       orderBy: (rules, { asc }) => [asc(rules.order)],
     });
 
+    await recordAudit({
+      guildId: req.guildId!,
+      actor: adminActor(req.user!),
+      action: "rule.reorder",
+      targetType: "warning_level",
+      targetId: levelId,
+      before: Object.fromEntries(previousRules.map(rule => [rule.name, rule.order])),
+      after: Object.fromEntries(updatedRules.map(rule => [rule.name, rule.order])),
+    });
+
     res.json(updatedRules);
   });
 
   // Test endpoint for message moderation
-  app.post("/api/test/moderate", async (req, res) => {
-    const { content, userId, username } = req.body;
+  app.post("/api/test/moderate", requirePermission("moderation.act"), async (req, res) => {
+    const { content, userId, username, enforce } = req.body;
 
     if (!content || !userId || !username) {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
+    if (enforce !== undefined && typeof enforce !== "boolean") {
+      return res.status(400).json({ message: "enforce must be a boolean" });
+    }
+
     try {
       console.log('Testing moderation for:', { content, userId, username });
 
       // Use the moderation service to analyze the message
-      const warning = await analyzeMessage(content, []);
+      const warning = await analyzeMessage(content, [], req.guildId!);
       console.log('Moderation result:', warning);
 
       // If no warning, return early
-      if (warning.warningLevel === "none") {
+      const warningLevel = warning.warningLevel;
+      if (!warningLevel) {
         return res.json({ warningLevel: "none" });
       }
 
-      // Get the warning level from database
-      const warningLevel = await db.query.warningLevels.findFirst({
-        where: eq(warningLevels.name, warning.warningLevel),
-      });
+      // Without enforce the verdict is only previewed. Nothing is stored, so the
+      // user's points can't get ahead of the thresholds the punishment engine has triggered.
+      if (!enforce) {
+        const user = await db.query.users.findFirst({
+          where: and(eq(users.id, userId), eq(users.guildId, req.guildId!)),
+        });
 
-      if (!warningLevel) {
-        console.error('Warning level not found:', warning.warningLevel);
-        return res.status(500).json({ message: "Warning level not found" });
+        return res.json({
+          warningLevel: warningLevel.name,
+          confidence: warning.confidence,
+          needsReview: needsReview(warning),
+          deleteMessage: warningLevel.deleteMessage,
+          points: warningLevel.points,
+          totalPoints: (user?.totalPoints ?? 0) + warningLevel.points,
+          punishment: null,
+          enforced: false,
+        });
       }
 
-      // Get or create user
-      let user = await db.query.users.findFirst({
-        where: eq(users.id, userId),
-      });
-
-      if (!user) {
-        await db.insert(users).values({
-          id: userId,
+      if (needsReview(warning)) {
+        const review = await queueViolationForReview({
+          guildId: req.guildId!,
+          userId,
           username,
-          totalPoints: 0,
-        });
-        user = await db.query.users.findFirst({
-          where: eq(users.id, userId),
-        });
-      }
+          warningLevel,
+          ruleId: warning.rule?.id ?? null,
+          ruleTriggered: warning.ruleTriggered,
+          confidence: warning.confidence,
+          messageContent: content,
+          contextMessages: [],
+          channelName: "Test Console",
+        }, adminActor(req.user!));
 
-      if (!user) {
-        return res.status(500).json({ message: "Failed to create user" });
+        return res.json({
+          warningLevel: warningLevel.name,
+          confidence: warning.confidence,
+          pendingReviewId: review.id,
+        });
       }
 
-      // Add warning to database
-      await db.insert(warnings).values({
+      const violation = {
+        guildId: req.guildId!,
         userId,
-        levelId: warningLevel.id,
-        points: warningLevel.points,
+        username,
+        warningLevel,
+        ruleId: warning.rule?.id ?? null,
         ruleTriggered: warning.ruleTriggered,
+        confidence: warning.confidence,
         messageContent: content,
-        messageContext: [],
-        messageDeleted: warning.deleteMessage,
-      });
+        contextMessages: [],
+        channelName: "Test Console",
+      };
 
-      // Update user points
-      const newTotalPoints = user.totalPoints + warningLevel.points;
-      await db.update(users)
-        .set({ totalPoints: newTotalPoints })
-        .where(eq(users.id, userId));
+      // Enforced like the bot would: points, DMs, the mod-log and punishments in Discord
+      const { totalPoints: newTotalPoints, punishment } = await enforceViolation(violation, undefined, adminActor(req.user!));
 
       console.log('Updated user points:', { userId, newTotal: newTotalPoints });
 
-      // Process any applicable punishments
-      const allPunishmentRules = await db.query.punishmentRules.findMany({
-        where: eq(punishmentRules.isActive, true),
-        orderBy: (rules, { desc }) => [desc(rules.pointThreshold)],
-      });
-
-      console.log('Available punishment rules:', allPunishmentRules);
-
-      // Find the highest applicable punishment
-      let punishment = null;
-      for (const rule of allPunishmentRules) {
-        console.log('Checking rule:', { rule, userPoints: newTotalPoints });
-
-        if (newTotalPoints >= rule.pointThreshold) {
-          if (rule.type === "ban") {
-            await db.update(users)
-              .set({ isBanned: true })
-              .where(eq(users.id, userId));
-
-            await db.insert(punishments).values({
-              userId,
-              type: "ban",
-              reason: "Exceeded maximum warning points",
-            });
-            punishment = "ban";
-            break;
-          } else if (rule.type === "mute" && !user.isMuted) {
-            const expiresAt = new Date(Date.now() + (rule.duration || 60) * 60 * 1000);
-            await db.update(users)
-              .set({ 
-                isMuted: true, 
-                muteExpiresAt: expiresAt,
-                updatedAt: new Date() 
-              })
-              .where(eq(users.id, userId));
-
-            await db.insert(punishments).values({
-              userId,
-              type: "mute",
-              reason: "Accumulated warning points",
-              duration: rule.duration || 60,
-              expiresAt,
-            });
-            punishment = "mute";
-            break;
-          }
-        }
-      }
-
       res.json({
-        warningLevel: warning.warningLevel,
+        warningLevel: warningLevel.name,
+        deleteMessage: warningLevel.deleteMessage,
         points: warningLevel.points,
         totalPoints: newTotalPoints,
         punishment,
+        enforced: true,
       });
     } catch (error: any) {
       console.error('Error in test moderation:', error);
@@ -610,9 +1168,168 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Get warnings with optional user filter
-  app.get("/api/warnings", async (req, res) => {
-    const { userId } = req.query;
+  // Get review queue entries, pending ones by default
+  app.get("/api/reviews", async (req, res) => {
+    const status = req.query.status?.toString() || "pending";
+
+    try {
+      const reviews = await db.query.pendingReviews.findMany({
+        where: and(
+          eq(pendingReviews.guildId, req.guildId!),
+          eq(pendingReviews.status, status)
+        ),
+        with: {
+          level: true,
+        },
+        orderBy: (pendingReviews, { desc }) => [desc(pendingReviews.createdAt)],
+      });
+
+      res.json(reviews.map(review => ({
+        ...review,
+        level: {
+          name: review.level.name,
+          color: review.level.color,
+          points: review.level.points,
+          deleteMessage: review.level.deleteMessage,
+          confidenceThreshold: review.level.confidenceThreshold,
+        },
+      })));
+    } catch (error: any) {
+      console.error('Error fetching reviews:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Approve a held verdict, enforcing it in Discord
+  app.post("/api/reviews/:id/approve", requirePermission("moderation.act"), async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const result = await approveReview(parseInt(id), req.guildId!, adminActor(req.user!));
+      if (!result) {
+        return res.status(404).json({ message: "Review not found or already decided" });
+      }
+
+      res.json({
+        review: result.review,
+        totalPoints: result.enforcement.totalPoints,
+        messageDeleted: result.enforcement.messageDeleted,
+        punishment: result.enforcement.punishment,
+      });
+    } catch (error: any) {
+      console.error('Error approving review:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Reject a held verdict
+  app.post("/api/reviews/:id/reject", requirePermission("moderation.act"), async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const review = await rejectReview(parseInt(id), req.guildId!, adminActor(req.user!));
+      if (!review) {
+        return res.status(404).json({ message: "Review not found or already decided" });
+      }
+
+      res.json(review);
+    } catch (error: any) {
+      console.error('Error rejecting review:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get warning appeals, pending ones by default
+  app.get("/api/appeals", async (req, res) => {
+    const status = req.query.status?.toString() || "pending";
+
+    try {
+      const appealList = await db.query.appeals.findMany({
+        where: and(
+          eq(appeals.guildId, req.guildId!),
+          eq(appeals.status, status)
+        ),
+        with: {
+          warning: {
+            with: {
+              level: true,
+            },
+          },
+        },
+        orderBy: (appeals, { desc }) => [desc(appeals.createdAt)],
+      });
+
+      res.json(appealList.map(appeal => ({
+        ...appeal,
+        warning: {
+          id: appeal.warning.id,
+          points: appeal.warning.points,
+          ruleTriggered: appeal.warning.ruleTriggered,
+          messageContent: appeal.warning.messageContent,
+          messageIgnored: appeal.warning.messageIgnored,
+          createdAt: appeal.warning.createdAt,
+          level: {
+            name: appeal.warning.level.name,
+            color: appeal.warning.level.color,
+          },
+        },
+      })));
+    } catch (error: any) {
+      console.error('Error fetching appeals:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Accept an appeal, pardoning the warning and notifying the user
+  app.post("/api/appeals/:id/accept", requirePermission("moderation.act"), async (req, res) => {
+    const { id } = req.params;
+    const { note } = req.body;
+
+    try {
+      const result = await acceptAppeal(parseInt(id), req.guildId!, adminActor(req.user!), note?.trim() || null);
+      if (!result) {
+        return res.status(404).json({ message: "Appeal not found or already decided" });
+      }
+
+      res.json({
+        appeal: result.appeal,
+        totalPoints: result.pardon?.totalPoints ?? null,
+        userNotified: result.userNotified,
+      });
+    } catch (error: any) {
+      console.error('Error accepting appeal:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Reject an appeal, sending the moderator's note to the user
+  app.post("/api/appeals/:id/reject", requirePermission("moderation.act"), async (req, res) => {
+    const { id } = req.params;
+    const note = req.body.note?.trim();
+
+    if (!note) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    try {
+      const result = await rejectAppeal(parseInt(id), req.guildId!, adminActor(req.user!), note);
+      if (!result) {
+        return res.status(404).json({ message: "Appeal not found or already decided" });
+      }
+
+      res.json({
+        appeal: result.appeal,
+        userNotified: result.userNotified,
+      });
+    } catch (error: any) {
+      console.error('Error rejecting appeal:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get warnings with optional user filter
+  app.get("/api/warnings", async (req, res) => {
+    const { userId } = req.query;
 
     try {
       const warningsList = await db.query.warnings.findMany({
@@ -621,7 +1338,10 @@ export function registerRoutes(app: Express): Server {
           level: true,
         },
         orderBy: (warnings, { desc }) => [desc(warnings.createdAt)],
-        where: userId ? eq(warnings.userId, userId.toString()) : undefined,
+        where: and(
+          eq(warnings.guildId, req.guildId!),
+          userId ? eq(warnings.userId, userId.toString()) : undefined
+        ),
       });
 
       const transformedWarnings = warningsList.map(warning => ({
@@ -633,12 +1353,18 @@ export function registerRoutes(app: Express): Server {
         ruleTriggered: warning.ruleTriggered,
         messageContent: warning.messageContent,
         messageContext: warning.messageContext,
+        channelId: warning.channelId,
+        messageId: warning.messageId,
+        editHistory: warning.editHistory,
+        attachments: warning.attachments,
         createdAt: warning.createdAt,
         messageDeleted: warning.messageDeleted,
         messageIgnored: warning.messageIgnored,
         ignoredAt: warning.ignoredAt,
         ignoredBy: warning.ignoredBy,
         ignoreReason: warning.ignoreReason,
+        expiresAt: getWarningExpiry(warning, warning.level),
+        expired: isWarningExpired(warning, warning.level),
         level: {
           name: warning.level.name,
           color: warning.level.color,
@@ -654,85 +1380,21 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Ignore a warning
-  app.post("/api/warnings/:id/ignore", async (req, res) => {
+  app.post("/api/warnings/:id/ignore", requirePermission("moderation.act"), async (req, res) => {
     const { id } = req.params;
-    const { userId, reason } = req.body;
+    const { reason } = req.body;
 
-    if (!userId || !reason) {
+    if (!reason) {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
     try {
-      // Get the warning to be ignored
-      const warning = await db.query.warnings.findFirst({
-        where: eq(warnings.id, parseInt(id)),
-      });
-
-      if (!warning) {
+      // Recorded against the logged-in admin, never a client-supplied id
+      const pardoned = await pardonWarning(parseInt(id), req.guildId!, adminActor(req.user!), reason);
+      if (!pardoned) {
         return res.status(404).json({ message: "Warning not found" });
       }
 
-      // Get current user
-      const user = await db.query.users.findFirst({
-        where: eq(users.id, warning.userId),
-      });
-
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      // Update warning as ignored
-      await db.update(warnings)
-        .set({
-          messageIgnored: true,
-          ignoredAt: new Date(),
-          ignoredBy: userId,
-          ignoreReason: reason,
-        })
-        .where(eq(warnings.id, parseInt(id)));
-
-      // Calculate new total points by subtracting the ignored warning's points
-      const newTotalPoints = user.totalPoints - warning.points;
-
-      // Update user's total points
-      await db.update(users)
-        .set({ totalPoints: newTotalPoints })
-        .where(eq(users.id, user.id));
-
-      // Get applicable punishment rules ordered by point threshold
-      const existingPunishmentRules = await db.query.punishmentRules.findMany({
-        where: eq(punishmentRules.isActive, true),
-        orderBy: (rules, { desc }) => [desc(rules.pointThreshold)],
-      });
-
-      // Check if any punishments should be removed based on new point total
-      let shouldRemoveBan = user.isBanned;
-      let shouldRemoveMute = user.isMuted;
-
-      // Find the highest applicable punishment for the new point total
-      for (const rule of existingPunishmentRules) {
-        if (newTotalPoints >= rule.pointThreshold) {
-          if (rule.type === "ban") {
-            shouldRemoveBan = false;
-            break;
-          } else if (rule.type === "mute") {
-            shouldRemoveMute = false;
-            break;
-          }
-        }
-      }
-
-      // Update user status if punishments should be removed
-      if (shouldRemoveBan || shouldRemoveMute) {
-        await db.update(users)
-          .set({
-            isBanned: !shouldRemoveBan ? user.isBanned : false,
-            isMuted: !shouldRemoveMute ? user.isMuted : false,
-            muteExpiresAt: !shouldRemoveMute ? user.muteExpiresAt : null,
-          })
-          .where(eq(users.id, user.id));
-      }
-
       // Get the updated warning with user data
       const updatedWarning = await db.query.warnings.findFirst({
         where: eq(warnings.id, parseInt(id)),
@@ -756,12 +1418,16 @@ export function registerRoutes(app: Express): Server {
         ruleTriggered: updatedWarning.ruleTriggered,
         messageContent: updatedWarning.messageContent,
         messageContext: updatedWarning.messageContext,
+        channelId: updatedWarning.channelId,
+        messageId: updatedWarning.messageId,
         createdAt: updatedWarning.createdAt,
         messageDeleted: updatedWarning.messageDeleted,
         messageIgnored: updatedWarning.messageIgnored,
         ignoredAt: updatedWarning.ignoredAt,
         ignoredBy: updatedWarning.ignoredBy,
         ignoreReason: updatedWarning.ignoreReason,
+        expiresAt: getWarningExpiry(updatedWarning, updatedWarning.level),
+        expired: isWarningExpired(updatedWarning, updatedWarning.level),
         level: {
           name: updatedWarning.level.name,
           color: updatedWarning.level.color,
@@ -780,7 +1446,7 @@ export function registerRoutes(app: Express): Server {
   app.get("/api/users/:userId", async (req, res) => {
     const { userId } = req.params;
     const user = await db.query.users.findFirst({
-      where: eq(users.id, userId),
+      where: and(eq(users.id, userId), eq(users.guildId, req.guildId!)),
     });
 
     if (!user) {
@@ -791,9 +1457,10 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Get all users
-  app.get("/api/users", async (_req, res) => {
+  app.get("/api/users", async (req, res) => {
     try {
       const usersList = await db.query.users.findMany({
+        where: eq(users.guildId, req.guildId!),
         orderBy: (users, { desc }) => [desc(users.totalPoints)],
       });
 
@@ -801,13 +1468,19 @@ export function registerRoutes(app: Express): Server {
       const usersWithWarnings = await Promise.all(
         usersList.map(async (user) => {
           const userWarnings = await db.query.warnings.findMany({
-            where: eq(warnings.userId, user.id),
+            where: and(
+              eq(warnings.userId, user.id),
+              eq(warnings.guildId, user.guildId)
+            ),
+            with: {
+              level: true,
+            },
           });
 
           return {
             ...user,
             warningCount: userWarnings.length,
-            activeWarnings: userWarnings.filter(w => !w.messageIgnored).length,
+            activeWarnings: userWarnings.filter(w => !w.messageIgnored && !isWarningExpired(w, w.level)).length,
           };
         })
       );
@@ -819,18 +1492,52 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Add a user to or remove them from the watchlist
+  app.put("/api/users/:userId/watchlist", requirePermission("moderation.act"), async (req, res) => {
+    const { watchlisted } = req.body;
+
+    if (typeof watchlisted !== "boolean") {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    try {
+      const user = await setWatchlisted(req.guildId!, req.params.userId, watchlisted, adminActor(req.user!));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(user);
+    } catch (error: any) {
+      console.error('Error updating watchlist:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get messages a watchlisted user deleted
+  app.get("/api/users/:userId/deleted-messages", async (req, res) => {
+    try {
+      res.json(await listDeletedMessages(req.guildId!, req.params.userId));
+    } catch (error: any) {
+      console.error('Error fetching deleted messages:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Get all prompt templates
-  app.get("/api/prompt-templates", async (_req, res) => {
+  app.get("/api/prompt-templates", async (req, res) => {
     const templates = await db.query.aiPromptTemplates.findMany({
+      where: eq(aiPromptTemplates.guildId, req.guildId!),
       orderBy: (templates, { desc }) => [desc(templates.updatedAt)],
     });
     res.json(templates);
   });
 
   // Get active prompt template
-  app.get("/api/prompt-templates/active", async (_req, res) => {
+  app.get("/api/prompt-templates/active", async (req, res) => {
     const template = await db.query.aiPromptTemplates.findFirst({
-      where: eq(aiPromptTemplates.isActive, true),
+      where: and(
+        eq(aiPromptTemplates.isActive, true),
+        eq(aiPromptTemplates.guildId, req.guildId!)
+      ),
       orderBy: (templates, { desc }) => [desc(templates.updatedAt)],
     });
 
@@ -842,22 +1549,26 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Create new prompt template
-  app.post("/api/prompt-templates", async (req, res) => {
+  app.post("/api/prompt-templates", requirePermission("config.edit"), async (req, res) => {
     const { name, systemPrompt, isActive } = req.body;
 
     if (!name || !systemPrompt) {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
-    // If this template should be active, deactivate all others
+    // If this template should be active, deactivate all others in the guild
     if (isActive) {
       await db.update(aiPromptTemplates)
         .set({ isActive: false })
-        .where(eq(aiPromptTemplates.isActive, true));
+        .where(and(
+          eq(aiPromptTemplates.isActive, true),
+          eq(aiPromptTemplates.guildId, req.guildId!)
+        ));
     }
 
     const template = await db.insert(aiPromptTemplates)
       .values({
+        guildId: req.guildId!,
         name,
         systemPrompt,
         isActive: !!isActive,
@@ -872,11 +1583,20 @@ export function registerRoutes(app: Express): Server {
         reason: "Initial template creation",
       });
 
+    await recordAudit({
+      guildId: req.guildId!,
+      actor: adminActor(req.user!),
+      action: "prompt_template.create",
+      targetType: "prompt_template",
+      targetId: template[0].id,
+      after: template[0],
+    });
+
     res.json(template[0]);
   });
 
   // Update prompt template
-  app.put("/api/prompt-templates/:id", async (req, res) => {
+  app.put("/api/prompt-templates/:id", requirePermission("config.edit"), async (req, res) => {
     const { id } = req.params;
     const { name, systemPrompt, isActive } = req.body;
     const reason = req.body.reason || "Template update";
@@ -885,11 +1605,25 @@ export function registerRoutes(app: Express): Server {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
-    // If this template should be active, deactivate all others
+    const existingTemplate = await db.query.aiPromptTemplates.findFirst({
+      where: and(
+        eq(aiPromptTemplates.id, parseInt(id)),
+        eq(aiPromptTemplates.guildId, req.guildId!)
+      ),
+    });
+
+    if (!existingTemplate) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    // If this template should be active, deactivate all others in the guild
     if (isActive) {
       await db.update(aiPromptTemplates)
         .set({ isActive: false })
-        .where(eq(aiPromptTemplates.isActive, true));
+        .where(and(
+          eq(aiPromptTemplates.isActive, true),
+          eq(aiPromptTemplates.guildId, req.guildId!)
+        ));
     }
 
     const template = await db.update(aiPromptTemplates)
@@ -899,7 +1633,10 @@ export function registerRoutes(app: Express): Server {
         isActive: !!isActive,
         updatedAt: new Date(),
       })
-      .where(eq(aiPromptTemplates.id, parseInt(id)))
+      .where(and(
+        eq(aiPromptTemplates.id, parseInt(id)),
+        eq(aiPromptTemplates.guildId, req.guildId!)
+      ))
       .returning();
 
     if (!template.length) {
@@ -914,12 +1651,34 @@ export function registerRoutes(app: Express): Server {
         reason,
       });
 
+    await recordAudit({
+      guildId: req.guildId!,
+      actor: adminActor(req.user!),
+      action: "prompt_template.update",
+      targetType: "prompt_template",
+      targetId: template[0].id,
+      before: existingTemplate,
+      after: { ...template[0], reason },
+    });
+
     res.json(template[0]);
   });
 
   // Get template history
   app.get("/api/prompt-templates/:id/history", async (req, res) => {
     const { id } = req.params;
+
+    const template = await db.query.aiPromptTemplates.findFirst({
+      where: and(
+        eq(aiPromptTemplates.id, parseInt(id)),
+        eq(aiPromptTemplates.guildId, req.guildId!)
+      ),
+    });
+
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
     const history = await db.query.aiPromptHistory.findMany({
       where: eq(aiPromptHistory.templateId, parseInt(id)),
       orderBy: (history, { desc }) => [desc(history.createdAt)],
@@ -929,13 +1688,27 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Set active template
-  app.post("/api/prompt-templates/:id/activate", async (req, res) => {
+  app.post("/api/prompt-templates/:id/activate", requirePermission("config.edit"), async (req, res) => {
     const { id } = req.params;
 
-    // Deactivate all templates
+    const existingTemplate = await db.query.aiPromptTemplates.findFirst({
+      where: and(
+        eq(aiPromptTemplates.id, parseInt(id)),
+        eq(aiPromptTemplates.guildId, req.guildId!)
+      ),
+    });
+
+    if (!existingTemplate) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    // Deactivate all templates in the guild
     await db.update(aiPromptTemplates)
       .set({ isActive: false })
-      .where(eq(aiPromptTemplates.isActive, true));
+      .where(and(
+        eq(aiPromptTemplates.isActive, true),
+        eq(aiPromptTemplates.guildId, req.guildId!)
+      ));
 
     // Activate the selected template
     const template = await db.update(aiPromptTemplates)
@@ -943,150 +1716,192 @@ export function registerRoutes(app: Express): Server {
         isActive: true,
         updatedAt: new Date(),
       })
-      .where(eq(aiPromptTemplates.id, parseInt(id)))
+      .where(eq(aiPromptTemplates.id, existingTemplate.id))
       .returning();
 
     if (!template.length) {
       return res.status(404).json({ message: "Template not found" });
     }
 
+    await recordAudit({
+      guildId: req.guildId!,
+      actor: adminActor(req.user!),
+      action: "prompt_template.activate",
+      targetType: "prompt_template",
+      targetId: template[0].id,
+      before: { isActive: existingTemplate.isActive },
+      after: { isActive: true },
+    });
+
     res.json(template[0]);
   });
 
   // Get punishment rules
-  app.get("/api/punishment-rules", async (_req, res) => {
+  app.get("/api/punishment-rules", async (req, res) => {
     const rules = await db.query.punishmentRules.findMany({
+      where: eq(punishmentRules.guildId, req.guildId!),
       orderBy: (punishmentRules, { asc }) => [asc(punishmentRules.pointThreshold)],
     });
     res.json(rules);
   });
 
   // Create punishment rule
-  app.post("/api/punishment-rules", async (req, res) => {
-    const { type, pointThreshold, duration } = req.body;
-
-    if (!type || typeof pointThreshold !== "number" || (type === "mute" && typeof duration !== "number")) {
-      return res.status(400).json({ message: "Missing required fields" });
+  app.post("/api/punishment-rules", requirePermission("config.edit"), async (req, res) => {
+    const error = validatePunishmentRule(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
     }
 
-    if (!["ban", "mute"].includes(type)) {
-      return res.status(400).json({ message: "Invalid punishment type" });
+    const values = punishmentRuleValues(req.body);
+    if (values.ruleId !== null) {
+      const boundRule = await db.query.rules.findFirst({
+        where: and(eq(rules.id, values.ruleId), eq(rules.guildId, req.guildId!)),
+      });
+      if (!boundRule) {
+        return res.status(400).json({ message: "Rule not found" });
+      }
     }
 
     const rule = await db.insert(punishmentRules)
       .values({
-        type,
-        pointThreshold,
-        duration: type === "mute" ? duration : null,
+        guildId: req.guildId!,
+        ...values,
         isActive: true,
       })
       .returning();
 
+    await recordAudit({
+      guildId: req.guildId!,
+      actor: adminActor(req.user!),
+      action: "punishment_rule.create",
+      targetType: "punishment_rule",
+      targetId: rule[0].id,
+      after: rule[0],
+    });
+
     res.json(rule[0]);
   });
 
   // Update punishment rule
-  app.put("/api/punishment-rules/:id", async (req, res) => {
+  app.put("/api/punishment-rules/:id", requirePermission("config.edit"), async (req, res) => {
     const { id } = req.params;
-    const { type, pointThreshold, duration, isActive } = req.body;
+    const { isActive } = req.body;
 
-    if (!type || typeof pointThreshold !== "number" || (type === "mute" && typeof duration !== "number")) {
-      return res.status(400).json({ message: "Missing required fields" });
+    const error = validatePunishmentRule(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
     }
 
-    if (!["ban", "mute"].includes(type)) {
-      return res.status(400).json({ message: "Invalid punishment type" });
+    const values = punishmentRuleValues(req.body);
+    if (values.ruleId !== null) {
+      const boundRule = await db.query.rules.findFirst({
+        where: and(eq(rules.id, values.ruleId), eq(rules.guildId, req.guildId!)),
+      });
+      if (!boundRule) {
+        return res.status(400).json({ message: "Rule not found" });
+      }
     }
 
-    const rule = awaitdb.update(punishmentRules)
+    const existingRule = await db.query.punishmentRules.findFirst({
+      where: and(
+        eq(punishmentRules.id, parseInt(id)),
+        eq(punishmentRules.guildId, req.guildId!)
+      ),
+    });
+
+    const rule = await db.update(punishmentRules)
       .set({
-        type,
-        pointThreshold,
-        duration: type === "mute" ? duration : null,
+        ...values,
         isActive: isActive ?? true,
         updatedAt: new Date(),
       })
-      .where(eq(punishmentRules.id, parseInt(id)))
+      .where(and(
+        eq(punishmentRules.id, parseInt(id)),
+        eq(punishmentRules.guildId, req.guildId!)
+      ))
       .returning();
 
     if (!rule.length) {
-            return res.status(404).json({ message: "Rule not found" });
+      return res.status(404).json({ message: "Rule not found" });
     }
 
+    await recordAudit({
+      guildId: req.guildId!,
+      actor: adminActor(req.user!),
+      action: "punishment_rule.update",
+      targetType: "punishment_rule",
+      targetId: rule[0].id,
+      before: existingRule,
+      after: rule[0],
+    });
+
     res.json(rule[0]);
   });
 
   // Delete punishment rule
-  app.delete("/api/punishment-rules/:id", async (req, res) => {
+  app.delete("/api/punishment-rules/:id", requirePermission("config.edit"), async (req, res) => {
     const { id } = req.params;
 
-    await db.delete(punishmentRules)
-      .where(eq(punishmentRules.id, parseInt(id)));
+    const [deletedRule] = await db.delete(punishmentRules)
+      .where(and(
+        eq(punishmentRules.id, parseInt(id)),
+        eq(punishmentRules.guildId, req.guildId!)
+      ))
+      .returning();
+
+    if (deletedRule) {
+      await recordAudit({
+        guildId: req.guildId!,
+        actor: adminActor(req.user!),
+        action: "punishment_rule.delete",
+        targetType: "punishment_rule",
+        targetId: deletedRule.id,
+        before: deletedRule,
+      });
+    }
 
     res.status(204).end();
   });
 
   // Get user points
-  app.post("/api/users/:userId/recalculate", async (req, res) => {
+  app.post("/api/users/:userId/recalculate", requirePermission("moderation.act"), async (req, res) => {
     const { userId } = req.params;
 
     try {
       // Get user
       const user = await db.query.users.findFirst({
-        where: eq(users.id, userId),
+        where: and(eq(users.id, userId), eq(users.guildId, req.guildId!)),
       });
 
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Get all non-ignored warnings
-      const userWarnings = await db.query.warnings.findMany({
-        where: and(
-          eq(warnings.userId, userId),
-          eq(warnings.messageIgnored, false)
-        ),
-      });
+      // Calculate total points from all non-ignored, unexpired warnings
+      const newTotalPoints = await syncUserPoints(userId, user.guildId);
 
-      // Calculate total points
-      const newTotalPoints = userWarnings.reduce((sum, warning) => sum + warning.points, 0);
+      // Apply thresholds the user now reaches and reverse ones they no longer do
+      const { applied, reversed } = await reconcilePunishments(user.guildId, userId, newTotalPoints, adminActor(req.user!));
 
-      // Get applicable punishment rules ordered by point threshold
-      const allPunishmentRules = await db.query.punishmentRules.findMany({
-        where: eq(punishmentRules.isActive, true),
-        orderBy: (rules, { desc }) => [desc(rules.pointThreshold)],
+      const updatedUser = await db.query.users.findFirst({
+        where: and(eq(users.id, userId), eq(users.guildId, user.guildId)),
       });
 
-      // Check if any punishments should be applied based on new point total
-      let shouldBeBanned = false;
-      let shouldBeMuted = false;
-      let muteExpiresAt = null;
-
-      // Find the highest applicable punishment for the new point total
-      for (const rule of allPunishmentRules) {
-        if (newTotalPoints >= rule.pointThreshold) {
-          if (rule.type === "ban") {
-            shouldBeBanned = true;
-            break;
-          } else if (rule.type === "mute") {
-            shouldBeMuted = true;
-            muteExpiresAt = new Date(Date.now() + (rule.duration || 60) * 60 * 1000);
-          }
-        }
-      }
-
-      // Update user status based on punishment rules
-      const updatedUser = await db.update(users)
-        .set({
-          totalPoints: newTotalPoints,
-          isBanned: shouldBeBanned,
-          isMuted: shouldBeMuted,
-          muteExpiresAt: shouldBeMuted ? muteExpiresAt : null,
-        })
-        .where(eq(users.id, userId))
-        .returning();
+      await recordAudit({
+        guildId: req.guildId!,
+        actor: adminActor(req.user!),
+        action: "user.recalculate",
+        targetType: "user",
+        targetId: userId,
+        before: user,
+        after: {
+          ...updatedUser,
+          appliedPunishments: applied,
+          reversedPunishmentIds: reversed.map(punishment => punishment.id),
+        },
+      });
 
-      res.json(updatedUser[0]);
+      res.json(updatedUser);
     } catch (error: any) {
       console.error("Error recalculating user points:", error);
       res.status(500).json({ message: error.message });
@@ -1094,13 +1909,13 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Reset user warnings
-  app.post("/api/users/:userId/reset-warnings", async (req, res) => {
+  app.post("/api/users/:userId/reset-warnings", requirePermission("users.reset"), async (req, res) => {
     const { userId } = req.params;
 
     try {
       // Get user
       const user = await db.query.users.findFirst({
-        where: eq(users.id, userId),
+        where: and(eq(users.id, userId), eq(users.guildId, req.guildId!)),
       });
 
       if (!user) {
@@ -1112,20 +1927,25 @@ export function registerRoutes(app: Express): Server {
         .set({
           messageIgnored: true,
           ignoredAt: new Date(),
-          ignoredBy: "system",
+          ignoredBy: actorReference(adminActor(req.user!)),
           ignoreReason: "Reset for testing purposes",
         })
-        .where(eq(warnings.userId, userId));
-
-      // Reset user's total points
-      await db.update(users)
-        .set({
-          totalPoints: 0,
-          isBanned: false,
-          isMuted: false,
-          muteExpiresAt: null,
-        })
-        .where(eq(users.id, userId));
+        .where(and(eq(warnings.userId, userId), eq(warnings.guildId, user.guildId)));
+
+      // Recalculate points, which stay non-zero only when other guilds in
+      // the points pool still have warnings, and undo the punishments
+      const totalPoints = await syncUserPoints(userId, user.guildId);
+      const reversed = await reversePunishments(user.guildId, userId, totalPoints, adminActor(req.user!));
+
+      await recordAudit({
+        guildId: req.guildId!,
+        actor: adminActor(req.user!),
+        action: "user.reset_warnings",
+        targetType: "user",
+        targetId: userId,
+        before: { totalPoints: user.totalPoints, isBanned: user.isBanned, isMuted: user.isMuted },
+        after: { totalPoints, reversedPunishmentIds: reversed.map(punishment => punishment.id) },
+      });
 
       res.json({ success: true });
     } catch (error: any) {
@@ -1134,6 +1954,247 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Get audit log entries for the selected guild
+  app.get("/api/audit", requirePermission("audit.view"), async (req, res) => {
+    try {
+      res.json(await listAuditEntries(req.guildId!, parseAuditFilters(req.query)));
+    } catch (error: any) {
+      console.error('Error fetching audit log:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Export audit log entries as CSV, using the same filters as the list
+  app.get("/api/audit/export", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const entries = await listAuditEntries(req.guildId!, { ...parseAuditFilters(req.query), limit: 10000 });
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${req.guildId}.csv"`);
+      res.send(toAuditCsv(entries));
+    } catch (error: any) {
+      console.error('Error exporting audit log:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get dashboard accounts
+  app.get("/api/admin-users", requirePermission("accounts.manage"), async (_req, res) => {
+    try {
+      const accounts = await db.query.admin_users.findMany({
+        columns: {
+          id: true,
+          username: true,
+          discordId: true,
+          role: true,
+          createdAt: true,
+        },
+        orderBy: (admin_users, { asc }) => [asc(admin_users.createdAt)],
+      });
+      res.json(accounts);
+    } catch (error: any) {
+      console.error('Error fetching dashboard accounts:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Change a dashboard account's role
+  app.put("/api/admin-users/:id", requirePermission("accounts.manage"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+
+      const { role } = req.body;
+
+      if (!role) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      const account = await db.query.admin_users.findFirst({
+        where: eq(admin_users.id, id),
+      });
+
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const problem = checkCanManageAccount(req.user!, account) ?? checkCanAssignRole(req.user!, role);
+      if (problem) {
+        return res.status(403).json({ message: problem });
+      }
+
+      if (account.discordId) {
+        return res.status(400).json({ message: "This account's role comes from its Discord roles" });
+      }
+
+      const [updatedAccount] = await db.update(admin_users)
+        .set({ role })
+        .where(eq(admin_users.id, account.id))
+        .returning();
+
+      await recordAudit({
+        guildId: null,
+        actor: adminActor(req.user!),
+        action: "admin.update_role",
+        targetType: "admin",
+        targetId: account.id,
+        before: { username: account.username, role: account.role },
+        after: { username: updatedAccount.username, role: updatedAccount.role },
+      });
+
+      res.json({
+        id: updatedAccount.id,
+        username: updatedAccount.username,
+        discordId: updatedAccount.discordId,
+        role: updatedAccount.role,
+        createdAt: updatedAccount.createdAt,
+      });
+    } catch (error: any) {
+      console.error('Error updating dashboard account:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Remove a dashboard account
+  app.delete("/api/admin-users/:id", requirePermission("accounts.manage"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+
+      const account = await db.query.admin_users.findFirst({
+        where: eq(admin_users.id, id),
+      });
+
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const problem = checkCanManageAccount(req.user!, account);
+      if (problem) {
+        return res.status(403).json({ message: problem });
+      }
+
+      // Invites only matter while pending; the audit log keeps their history
+      await db.delete(adminInvites)
+        .where(or(
+          eq(adminInvites.createdBy, account.id),
+          eq(adminInvites.usedBy, account.id)
+        ));
+
+      await db.delete(admin_users)
+        .where(eq(admin_users.id, account.id));
+      await destroyUserSessions(account.id);
+
+      await recordAudit({
+        guildId: null,
+        actor: adminActor(req.user!),
+        action: "admin.delete",
+        targetType: "admin",
+        targetId: account.id,
+        before: { username: account.username, role: account.role },
+      });
+
+      res.status(204).end();
+    } catch (error: any) {
+      console.error('Error deleting dashboard account:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get invites that haven't been used or expired
+  app.get("/api/admin-invites", requirePermission("accounts.manage"), async (_req, res) => {
+    try {
+      const invites = await db.query.adminInvites.findMany({
+        where: and(
+          isNull(adminInvites.usedAt),
+          gt(adminInvites.expiresAt, new Date())
+        ),
+        orderBy: (adminInvites, { desc }) => [desc(adminInvites.createdAt)],
+      });
+      res.json(invites);
+    } catch (error: any) {
+      console.error('Error fetching invites:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Create an invite link for a new dashboard account
+  app.post("/api/admin-invites", requirePermission("accounts.manage"), async (req, res) => {
+    try {
+      const { role } = req.body;
+
+      if (!role) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      const problem = checkCanAssignRole(req.user!, role);
+      if (problem) {
+        return res.status(403).json({ message: problem });
+      }
+
+      const [invite] = await db.insert(adminInvites)
+        .values({
+          token: randomBytes(24).toString("base64url"),
+          role,
+          createdBy: req.user!.id,
+          // Invites are valid for a week
+          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        })
+        .returning();
+
+      await recordAudit({
+        guildId: null,
+        actor: adminActor(req.user!),
+        action: "admin_invite.create",
+        targetType: "admin_invite",
+        targetId: invite.id,
+        after: { role: invite.role, expiresAt: invite.expiresAt },
+      });
+
+      res.json(invite);
+    } catch (error: any) {
+      console.error('Error creating invite:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Revoke an unused invite
+  app.delete("/api/admin-invites/:id", requirePermission("accounts.manage"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Invalid invite ID" });
+      }
+
+      const [invite] = await db.delete(adminInvites)
+        .where(and(
+          eq(adminInvites.id, id),
+          isNull(adminInvites.usedAt)
+        ))
+        .returning();
+
+      if (invite) {
+        await recordAudit({
+          guildId: null,
+          actor: adminActor(req.user!),
+          action: "admin_invite.revoke",
+          targetType: "admin_invite",
+          targetId: invite.id,
+          before: { role: invite.role, expiresAt: invite.expiresAt },
+        });
+      }
+
+      res.status(204).end();
+    } catch (error: any) {
+      console.error('Error revoking invite:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
-}
\ No newline at end of file
+}
@@ -0,0 +1,108 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+// Marks values written by encryptSecret, so rows saved before encryption
+// existed can still be read until the rotation command rewrites them
+const PREFIX = "enc:v1";
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseMasterKey(value: string, name: string): MasterKey {
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed)
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+
+  if (key.length !== KEY_BYTES) {
+    throw new Error(
+      `${name} must be ${KEY_BYTES} bytes, hex or base64 encoded, e.g. the output of \`openssl rand -hex 32\``
+    );
+  }
+
+  // A short fingerprint stored with each value, so decryption knows which
+  // master key wrapped it without revealing anything about the key
+  const id = createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+}
+
+// The key new values are encrypted with
+function getCurrentMasterKey(): MasterKey {
+  const value = process.env.SECRETS_MASTER_KEY;
+  if (!value) {
+    throw new Error("SECRETS_MASTER_KEY must be set to store the bot token and API key");
+  }
+  return parseMasterKey(value, "SECRETS_MASTER_KEY");
+}
+
+// Retired keys that can still decrypt values until they are rotated
+function getPreviousMasterKeys(): MasterKey[] {
+  return (process.env.SECRETS_PREVIOUS_MASTER_KEYS ?? "")
+    .split(",")
+    .filter(value => value.trim())
+    .map(value => parseMasterKey(value, "SECRETS_PREVIOUS_MASTER_KEYS"));
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  return `${iv.toString("base64")}.${ciphertext.toString("base64")}`;
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const [iv, data] = sealed.split(".").map(part => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(data.subarray(data.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_BYTES)), decipher.final()]);
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+// The id of the master key a stored value was wrapped with, or null for plaintext
+export function getSecretKeyId(value: string): string | null {
+  return isEncryptedSecret(value) ? value.split(":")[2] : null;
+}
+
+export function getCurrentMasterKeyId(): string {
+  return getCurrentMasterKey().id;
+}
+
+/**
+ * Envelope-encrypts a secret: the value is encrypted with a fresh data key,
+ * and the data key is encrypted with the master key. Both travel together as
+ * `enc:v1:<master key id>:<wrapped data key>:<ciphertext>`.
+ */
+export function encryptSecret(plaintext: string): string {
+  const master = getCurrentMasterKey();
+  const dataKey = randomBytes(KEY_BYTES);
+  return [PREFIX, master.id, seal(master.key, dataKey), seal(dataKey, Buffer.from(plaintext, "utf8"))].join(":");
+}
+
+export function decryptSecret(stored: string): string {
+  if (!isEncryptedSecret(stored)) {
+    return stored;
+  }
+
+  const [, , keyId, wrappedKey, ciphertext] = stored.split(":");
+  const master = [getCurrentMasterKey(), ...getPreviousMasterKeys()].find(key => key.id === keyId);
+  if (!master) {
+    throw new Error(
+      `Secret was encrypted with master key ${keyId}, which is not SECRETS_MASTER_KEY or in SECRETS_PREVIOUS_MASTER_KEYS`
+    );
+  }
+
+  return open(open(master.key, wrappedKey), ciphertext).toString("utf8");
+}
+
+// Only the last four characters are ever shown in the dashboard
+export function maskSecret(plaintext: string | null | undefined): string | null {
+  return plaintext ? plaintext.slice(-4) : null;
+}
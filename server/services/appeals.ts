@@ -0,0 +1,295 @@
+import {
+  ActionRowBuilder,
+  EmbedBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  type ButtonInteraction,
+  type Interaction,
+  type ModalSubmitInteraction,
+} from "discord.js";
+import { db } from "@db";
+import { appeals, warnings, type SelectAppeal } from "@db/schema";
+import { and, eq } from "drizzle-orm";
+import { sendDirectMessage } from "./discord";
+import { pardonWarning, type PardonedWarning } from "./violations";
+import { recordAudit, discordActor, actorReference, type AuditActor } from "./audit";
+
+export const APPEAL_BUTTON_PREFIX = "appeal_warning:";
+const APPEAL_MODAL_PREFIX = "appeal_modal:";
+const APPEAL_REASON_FIELD = "appeal_reason";
+
+export interface AcceptedAppeal {
+  appeal: SelectAppeal;
+  pardon: PardonedWarning | null; // null when the warning was already pardoned
+  userNotified: boolean;
+}
+
+export interface RejectedAppeal {
+  appeal: SelectAppeal;
+  userNotified: boolean;
+}
+
+function logError(context: string, error: unknown) {
+  console.error(`[Appeals] ${context}:`, error);
+}
+
+// Parses the warning id out of a button or modal custom id
+function parseWarningId(customId: string, prefix: string): number | null {
+  const warningId = Number(customId.slice(prefix.length));
+  return Number.isInteger(warningId) && warningId > 0 ? warningId : null;
+}
+
+// Returns why the user can't appeal the warning, or null when they can
+async function checkCanAppeal(warningId: number, userId: string): Promise<string | null> {
+  const warning = await db.query.warnings.findFirst({
+    where: eq(warnings.id, warningId),
+  });
+
+  if (!warning || warning.userId !== userId) {
+    return "Only the warned user can appeal this warning.";
+  }
+
+  if (warning.messageIgnored) {
+    return "This warning has already been pardoned.";
+  }
+
+  const existing = await db.query.appeals.findFirst({
+    where: eq(appeals.warningId, warningId),
+  });
+
+  if (existing) {
+    return existing.status === "pending"
+      ? "You have already appealed this warning. The moderators will get back to you."
+      : "This warning's appeal has already been decided.";
+  }
+
+  return null;
+}
+
+async function handleAppealButton(interaction: ButtonInteraction) {
+  const warningId = parseWarningId(interaction.customId, APPEAL_BUTTON_PREFIX);
+  if (!warningId) {
+    return;
+  }
+
+  const problem = await checkCanAppeal(warningId, interaction.user.id);
+  if (problem) {
+    await interaction.reply({ content: problem, ephemeral: true });
+    return;
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`${APPEAL_MODAL_PREFIX}${warningId}`)
+    .setTitle('Appeal Warning')
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId(APPEAL_REASON_FIELD)
+          .setLabel('Why should this warning be removed?')
+          .setStyle(TextInputStyle.Paragraph)
+          .setMinLength(10)
+          .setMaxLength(1000)
+          .setRequired(true)
+      )
+    );
+
+  await interaction.showModal(modal);
+}
+
+async function handleAppealModal(interaction: ModalSubmitInteraction) {
+  const warningId = parseWarningId(interaction.customId, APPEAL_MODAL_PREFIX);
+  if (!warningId) {
+    return;
+  }
+
+  // Checked again in case the warning changed while the modal was open
+  const problem = await checkCanAppeal(warningId, interaction.user.id);
+  if (problem) {
+    await interaction.reply({ content: problem, ephemeral: true });
+    return;
+  }
+
+  const warning = await db.query.warnings.findFirst({
+    where: eq(warnings.id, warningId),
+  });
+  if (!warning) {
+    return;
+  }
+
+  const [appeal] = await db.insert(appeals)
+    .values({
+      guildId: warning.guildId,
+      warningId,
+      userId: interaction.user.id,
+      username: interaction.user.username,
+      reason: interaction.fields.getTextInputValue(APPEAL_REASON_FIELD),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!appeal) {
+    await interaction.reply({ content: "You have already appealed this warning.", ephemeral: true });
+    return;
+  }
+
+  console.log('Appeal submitted:', { appealId: appeal.id, warningId, userId: appeal.userId });
+
+  await recordAudit({
+    guildId: appeal.guildId,
+    actor: discordActor(interaction.user, "user"),
+    action: "appeal.create",
+    targetType: "warning",
+    targetId: warningId,
+    after: { appealId: appeal.id, reason: appeal.reason },
+  });
+
+  await interaction.reply({
+    content: "Your appeal has been sent to the moderators. You'll get a DM when it has been decided.",
+    ephemeral: true,
+  });
+}
+
+// Handles the Appeal button on warning messages and the modal it opens
+export async function handleAppealInteraction(interaction: Interaction) {
+  try {
+    if (interaction.isButton() && interaction.customId.startsWith(APPEAL_BUTTON_PREFIX)) {
+      await handleAppealButton(interaction);
+    } else if (interaction.isModalSubmit() && interaction.customId.startsWith(APPEAL_MODAL_PREFIX)) {
+      await handleAppealModal(interaction);
+    }
+  } catch (error) {
+    logError('Failed to handle appeal interaction', error);
+    if (interaction.isRepliable() && !interaction.replied && !interaction.deferred) {
+      try {
+        await interaction.reply({ content: "Something went wrong submitting your appeal. Please try again later.", ephemeral: true });
+      } catch (replyError) {
+        logError('Failed to report appeal error', replyError);
+      }
+    }
+  }
+}
+
+// Claims a pending appeal so two moderators can't decide it at once
+async function claimAppeal(
+  appealId: number,
+  guildId: string,
+  status: "accepted" | "rejected",
+  decidedBy: string,
+  moderatorNote: string | null
+): Promise<SelectAppeal | null> {
+  const [appeal] = await db.update(appeals)
+    .set({
+      status,
+      decidedBy,
+      decidedAt: new Date(),
+      moderatorNote,
+    })
+    .where(and(
+      eq(appeals.id, appealId),
+      eq(appeals.guildId, guildId),
+      eq(appeals.status, "pending")
+    ))
+    .returning();
+
+  return appeal ?? null;
+}
+
+function createOutcomeEmbed(appeal: SelectAppeal, accepted: boolean) {
+  const embed = new EmbedBuilder()
+    .setColor(accepted ? "#22c55e" : "#ef4444")
+    .setTitle(accepted ? "Appeal accepted" : "Appeal rejected")
+    .setDescription(accepted
+      ? `Your appeal of warning #${appeal.warningId} was accepted. The warning has been removed and its points no longer count.`
+      : `Your appeal of warning #${appeal.warningId} was rejected. The warning stays on your record.`);
+
+  if (appeal.moderatorNote) {
+    embed.addFields({ name: 'Moderator Note', value: appeal.moderatorNote });
+  }
+
+  return embed;
+}
+
+/**
+ * Accepts an appeal by pardoning the warning through the same path as the
+ * dashboard's ignore action, then DMs the user. Returns null when the appeal
+ * doesn't exist or was already decided.
+ */
+export async function acceptAppeal(
+  appealId: number,
+  guildId: string,
+  actor: AuditActor,
+  note: string | null
+): Promise<AcceptedAppeal | null> {
+  const appeal = await claimAppeal(appealId, guildId, "accepted", actorReference(actor), note);
+  if (!appeal) {
+    return null;
+  }
+
+  let pardon: PardonedWarning | null;
+  try {
+    const warning = await db.query.warnings.findFirst({
+      where: eq(warnings.id, appeal.warningId),
+    });
+
+    pardon = warning && !warning.messageIgnored
+      ? await pardonWarning(appeal.warningId, guildId, actor, note ? `Appeal accepted: ${note}` : "Appeal accepted")
+      : null;
+  } catch (error) {
+    // Put the appeal back so it can be retried
+    await db.update(appeals)
+      .set({
+        status: "pending",
+        decidedBy: null,
+        decidedAt: null,
+        moderatorNote: null,
+      })
+      .where(eq(appeals.id, appeal.id));
+    throw error;
+  }
+
+  await recordAudit({
+    guildId,
+    actor,
+    action: "appeal.accept",
+    targetType: "appeal",
+    targetId: appeal.id,
+    before: { status: "pending" },
+    after: { status: "accepted", moderatorNote: note },
+  });
+
+  const userNotified = await sendDirectMessage(appeal.userId, {
+    embeds: [createOutcomeEmbed(appeal, true)],
+  });
+
+  return { appeal, pardon, userNotified };
+}
+
+// Rejects an appeal and DMs the user the moderator's note
+export async function rejectAppeal(
+  appealId: number,
+  guildId: string,
+  actor: AuditActor,
+  note: string
+): Promise<RejectedAppeal | null> {
+  const appeal = await claimAppeal(appealId, guildId, "rejected", actorReference(actor), note);
+  if (!appeal) {
+    return null;
+  }
+
+  await recordAudit({
+    guildId,
+    actor,
+    action: "appeal.reject",
+    targetType: "appeal",
+    targetId: appeal.id,
+    before: { status: "pending" },
+    after: { status: "rejected", moderatorNote: note },
+  });
+
+  const userNotified = await sendDirectMessage(appeal.userId, {
+    embeds: [createOutcomeEmbed(appeal, false)],
+  });
+
+  return { appeal, userNotified };
+}
@@ -0,0 +1,193 @@
+import { db } from "@db";
+import { auditLog, type SelectAuditLog } from "@db/schema";
+import { and, eq, gte, lte, ilike, like, isNull, or, type SQL } from "drizzle-orm";
+
+export type AuditActorType = "admin" | "moderator" | "user" | "bot" | "system";
+
+export interface AuditActor {
+  type: AuditActorType;
+  id: string | null;
+  name: string;
+  discordId?: string; // set whenever the actor is a known Discord user
+}
+
+export const BOT_ACTOR: AuditActor = { type: "bot", id: null, name: "Pippin-Mod" };
+export const SYSTEM_ACTOR: AuditActor = { type: "system", id: null, name: "Scheduler" };
+
+type AuditValues = Record<string, unknown>;
+
+export interface AuditEntry {
+  guildId: string | null;
+  actor: AuditActor;
+  action: string;
+  targetType: string;
+  targetId?: string | number | null;
+  before?: AuditValues | null;
+  after?: AuditValues | null;
+  secretFields?: string[]; // recorded as changed, never stored
+}
+
+export interface AuditFilters {
+  action?: string; // prefix, so "warning" matches "warning.pardon"
+  actorType?: string;
+  actor?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Reads the audit log filters from a request's query string, ignoring ones that don't parse
+export function parseAuditFilters(query: Record<string, unknown>): AuditFilters {
+  const parseDate = (value: unknown) => {
+    const date = value ? new Date(String(value)) : null;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+  };
+
+  return {
+    action: query.action ? String(query.action) : undefined,
+    actorType: query.actorType ? String(query.actorType) : undefined,
+    actor: query.actor ? String(query.actor) : undefined,
+    from: parseDate(query.from),
+    to: parseDate(query.to),
+  };
+}
+
+// Timestamps change on every update and would drown out the real changes
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+const REDACTED = "[redacted]";
+const DEFAULT_LIMIT = 500;
+
+// Accounts that sign in with Discord act as their Discord user
+export function adminActor(user: { id: number; username: string; discordId?: string | null }): AuditActor {
+  return user.discordId
+    ? { type: "admin", id: user.discordId, name: user.username, discordId: user.discordId }
+    : { type: "admin", id: user.id.toString(), name: user.username };
+}
+
+export function discordActor(user: { id: string; username: string }, type: "moderator" | "user"): AuditActor {
+  return { type, id: user.id, name: user.username, discordId: user.id };
+}
+
+// How an actor is recorded on the rows they change: their Discord ID when known
+export function actorReference(actor: AuditActor): string {
+  return actor.discordId ?? actor.name;
+}
+
+function cleanValues(values: AuditValues, secretFields: string[]): AuditValues {
+  return Object.fromEntries(
+    Object.entries(values)
+      .filter(([key]) => !IGNORED_FIELDS.has(key))
+      .map(([key, value]) => [key, secretFields.includes(key) && value ? REDACTED : value])
+  );
+}
+
+/**
+ * Reduces a before/after pair to the fields that changed. Creates and
+ * deletes keep the whole row on their one side.
+ */
+function diffChanges(
+  before: AuditValues | null,
+  after: AuditValues | null,
+  secretFields: string[]
+): { before: AuditValues | null; after: AuditValues | null } | null {
+  if (!before || !after) {
+    return before || after ? {
+      before: before && cleanValues(before, secretFields),
+      after: after && cleanValues(after, secretFields),
+    } : null;
+  }
+
+  const changedBefore: AuditValues = {};
+  const changedAfter: AuditValues = {};
+  for (const key of Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))) {
+    if (IGNORED_FIELDS.has(key) || JSON.stringify(before[key]) === JSON.stringify(after[key])) {
+      continue;
+    }
+    const secret = secretFields.includes(key);
+    changedBefore[key] = secret && before[key] ? REDACTED : before[key];
+    changedAfter[key] = secret && after[key] ? REDACTED : after[key];
+  }
+
+  return Object.keys(changedAfter).length ? { before: changedBefore, after: changedAfter } : null;
+}
+
+/**
+ * Appends an entry to the audit log. Failures are logged rather than thrown
+ * so a logging problem never undoes the action being recorded.
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    await db.insert(auditLog).values({
+      guildId: entry.guildId,
+      actorType: entry.actor.type,
+      actorId: entry.actor.id,
+      actorName: entry.actor.name,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId != null ? entry.targetId.toString() : null,
+      changes: diffChanges(entry.before ?? null, entry.after ?? null, entry.secretFields ?? []),
+    });
+  } catch (error) {
+    console.error('[Audit] Failed to record audit entry:', { action: entry.action, error });
+  }
+}
+
+// Filters are matched literally, so % and _ in them don't act as wildcards
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
+
+// Entries for a guild, including global settings changes, newest first
+export async function listAuditEntries(guildId: string, filters: AuditFilters = {}): Promise<SelectAuditLog[]> {
+  const conditions: (SQL | undefined)[] = [
+    or(eq(auditLog.guildId, guildId), isNull(auditLog.guildId)),
+  ];
+
+  if (filters.action) {
+    conditions.push(like(auditLog.action, `${escapeLike(filters.action)}%`));
+  }
+  if (filters.actorType) {
+    conditions.push(eq(auditLog.actorType, filters.actorType));
+  }
+  if (filters.actor) {
+    conditions.push(ilike(auditLog.actorName, `%${escapeLike(filters.actor)}%`));
+  }
+  if (filters.from) {
+    conditions.push(gte(auditLog.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(auditLog.createdAt, filters.to));
+  }
+
+  return db.query.auditLog.findMany({
+    where: and(...conditions),
+    orderBy: (auditLog, { desc }) => [desc(auditLog.createdAt), desc(auditLog.id)],
+    limit: filters.limit ?? DEFAULT_LIMIT,
+  });
+}
+
+function escapeCsv(value: unknown): string {
+  let text = value == null ? "" : typeof value === "string" ? value : JSON.stringify(value);
+  // Spreadsheets run cells starting with these as formulas, and names are user-chosen
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toAuditCsv(entries: SelectAuditLog[]): string {
+  const header = ["timestamp", "guild_id", "actor_type", "actor_id", "actor_name", "action", "target_type", "target_id", "changes"];
+  const rows = entries.map(entry => [
+    entry.createdAt.toISOString(),
+    entry.guildId,
+    entry.actorType,
+    entry.actorId,
+    entry.actorName,
+    entry.action,
+    entry.targetType,
+    entry.targetId,
+    entry.changes,
+  ].map(escapeCsv).join(","));
+
+  return [header.join(","), ...rows].join("\r\n");
+}
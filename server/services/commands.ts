@@ -0,0 +1,480 @@
+import {
+  SlashCommandBuilder,
+  EmbedBuilder,
+  PermissionsBitField,
+  type AutocompleteInteraction,
+  type ChatInputCommandInteraction,
+  type Guild,
+  type GuildMember,
+  type HexColorString,
+  type Interaction,
+} from "discord.js";
+import { db } from "@db";
+import { users, rules, warnings, punishments, punishmentEvents } from "@db/schema";
+import { and, eq } from "drizzle-orm";
+import { getGuild } from "./guilds";
+import { enforceViolation } from "./discord";
+import { getOrCreateUser, pardonWarning } from "./violations";
+import { isWarningExpired } from "./points";
+import { parseDuration, formatDuration, MAX_TIMEOUT_MINUTES } from "./punishments";
+import { recordAudit, discordActor } from "./audit";
+import { notifyPunishment } from "./notifications";
+
+type CommandInteraction = ChatInputCommandInteraction<"cached">;
+
+const HISTORY_LIMIT = 10;
+
+const COMMANDS = [
+  new SlashCommandBuilder()
+    .setName("warn")
+    .setDescription("Warn a user for breaking a rule")
+    .addUserOption(option => option.setName("user").setDescription("User to warn").setRequired(true))
+    .addIntegerOption(option => option.setName("rule").setDescription("Rule that was broken").setRequired(true).setAutocomplete(true))
+    .addStringOption(option => option.setName("reason").setDescription("Details recorded with the warning").setMaxLength(500)),
+  new SlashCommandBuilder()
+    .setName("pardon")
+    .setDescription("Pardon a warning so its points no longer count")
+    .addIntegerOption(option => option.setName("warning").setDescription("Warning ID, shown by /history").setRequired(true))
+    .addStringOption(option => option.setName("reason").setDescription("Why the warning is pardoned").setRequired(true).setMaxLength(500)),
+  new SlashCommandBuilder()
+    .setName("history")
+    .setDescription("Show a user's recent warnings")
+    .addUserOption(option => option.setName("user").setDescription("User to look up").setRequired(true)),
+  new SlashCommandBuilder()
+    .setName("points")
+    .setDescription("Show a user's warning points")
+    .addUserOption(option => option.setName("user").setDescription("User to look up").setRequired(true)),
+  new SlashCommandBuilder()
+    .setName("mute")
+    .setDescription("Time out a user")
+    .addUserOption(option => option.setName("user").setDescription("User to mute").setRequired(true))
+    .addStringOption(option => option.setName("duration").setDescription("How long to mute for, like 45m, 12h or 7d").setRequired(true).setMaxLength(20))
+    .addStringOption(option => option.setName("reason").setDescription("Why the user is muted").setMaxLength(500)),
+  new SlashCommandBuilder()
+    .setName("unmute")
+    .setDescription("Remove a user's timeout")
+    .addUserOption(option => option.setName("user").setDescription("User to unmute").setRequired(true))
+    .addStringOption(option => option.setName("reason").setDescription("Why the mute is lifted").setMaxLength(500)),
+];
+
+function logError(context: string, error: unknown) {
+  console.error(`[Commands] ${context}:`, error);
+}
+
+// Registers the moderator commands in a guild, replacing any older versions
+export async function registerGuildCommands(guild: Guild) {
+  await guild.commands.set(COMMANDS.map(command => command.toJSON()));
+  console.log(`Registered slash commands in guild ${guild.name} (${guild.id})`);
+}
+
+// Administrators always pass; everyone else needs the guild's moderator role
+export async function isModerator(member: GuildMember): Promise<boolean> {
+  if (member.permissions.has(PermissionsBitField.Flags.Administrator)) {
+    return true;
+  }
+
+  const guild = await getGuild(member.guild.id);
+  return !!guild?.moderatorRoleId && member.roles.cache.has(guild.moderatorRoleId);
+}
+
+async function replyError(interaction: CommandInteraction, content: string) {
+  if (interaction.deferred || interaction.replied) {
+    await interaction.editReply({ content, embeds: [] });
+  } else {
+    await interaction.reply({ content, ephemeral: true });
+  }
+}
+
+function getChannelName(interaction: CommandInteraction): string | null {
+  return interaction.channel && "name" in interaction.channel ? interaction.channel.name : null;
+}
+
+async function handleWarn(interaction: CommandInteraction) {
+  const target = interaction.options.getUser("user", true);
+  const ruleId = interaction.options.getInteger("rule", true);
+  const reason = interaction.options.getString("reason");
+
+  if (target.bot) {
+    return replyError(interaction, "Bots can't be warned.");
+  }
+
+  const rule = await db.query.rules.findFirst({
+    where: and(
+      eq(rules.id, ruleId),
+      eq(rules.guildId, interaction.guildId)
+    ),
+    with: {
+      level: true,
+    },
+  });
+
+  if (!rule) {
+    return replyError(interaction, "Rule not found. Pick one from the list.");
+  }
+
+  await interaction.deferReply();
+
+  const result = await enforceViolation({
+    guildId: interaction.guildId,
+    userId: target.id,
+    username: target.username,
+    warningLevel: rule.level,
+    ruleTriggered: reason ? `${rule.name}: ${reason}` : rule.name,
+    messageContent: `Manual warning by ${interaction.user.username}`,
+    contextMessages: [],
+    channelId: interaction.channelId,
+    channelName: getChannelName(interaction),
+    messageId: null,
+    ruleId: rule.id,
+  }, undefined, discordActor(interaction.user, "moderator"));
+
+  const embed = new EmbedBuilder()
+    .setColor(rule.level.color as HexColorString)
+    .setDescription(
+      `⚠️ <@${target.id}> warned by <@${interaction.user.id}> • ${rule.level.points} pts (total: ${result.totalPoints})` +
+      (result.punishment ? ` • ${result.punishment}` : "")
+    )
+    .addFields(
+      { name: 'Warning Level', value: rule.level.name, inline: true },
+      { name: 'Rule Violated', value: rule.name, inline: true },
+    );
+
+  if (reason) {
+    embed.addFields({ name: 'Reason', value: reason });
+  }
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function handlePardon(interaction: CommandInteraction) {
+  const warningId = interaction.options.getInteger("warning", true);
+  const reason = interaction.options.getString("reason", true);
+
+  const warning = await db.query.warnings.findFirst({
+    where: and(
+      eq(warnings.id, warningId),
+      eq(warnings.guildId, interaction.guildId)
+    ),
+  });
+
+  if (!warning) {
+    return replyError(interaction, `Warning #${warningId} not found.`);
+  }
+
+  if (warning.messageIgnored) {
+    return replyError(interaction, `Warning #${warningId} has already been pardoned.`);
+  }
+
+  // Reversing punishments can take longer than Discord waits for a reply
+  await interaction.deferReply({ ephemeral: true });
+
+  const result = await pardonWarning(warningId, interaction.guildId, discordActor(interaction.user, "moderator"), reason);
+  if (!result) {
+    return replyError(interaction, `Warning #${warningId} not found.`);
+  }
+
+  await interaction.editReply({
+    content: `Pardoned warning #${warningId} for <@${warning.userId}>. They now have ${result.totalPoints} points.`,
+  });
+}
+
+async function handleHistory(interaction: CommandInteraction) {
+  const target = interaction.options.getUser("user", true);
+
+  const userWarnings = await db.query.warnings.findMany({
+    where: and(
+      eq(warnings.userId, target.id),
+      eq(warnings.guildId, interaction.guildId)
+    ),
+    with: {
+      level: true,
+    },
+    orderBy: (warnings, { desc }) => [desc(warnings.createdAt)],
+  });
+
+  const lines = userWarnings.slice(0, HISTORY_LIMIT).map(warning => {
+    const status = warning.messageIgnored ? " • pardoned" :
+      isWarningExpired(warning, warning.level) ? " • expired" : "";
+    const timestamp = Math.floor(warning.createdAt.getTime() / 1000);
+    return `**#${warning.id}** ${warning.level.name} • ${warning.points} pts • <t:${timestamp}:d>${status}\n${warning.ruleTriggered.slice(0, 150)}`;
+  });
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Warning history for ${target.username}`)
+    .setDescription(lines.length ? lines.join("\n\n") : "No warnings on record.")
+    .setFooter({
+      text: userWarnings.length > HISTORY_LIMIT
+        ? `Showing ${HISTORY_LIMIT} of ${userWarnings.length} warnings`
+        : `${userWarnings.length} warning${userWarnings.length !== 1 ? "s" : ""}`,
+    });
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+async function handlePoints(interaction: CommandInteraction) {
+  const target = interaction.options.getUser("user", true);
+
+  const user = await db.query.users.findFirst({
+    where: and(
+      eq(users.id, target.id),
+      eq(users.guildId, interaction.guildId)
+    ),
+  });
+
+  const userWarnings = await db.query.warnings.findMany({
+    where: and(
+      eq(warnings.userId, target.id),
+      eq(warnings.guildId, interaction.guildId),
+      eq(warnings.messageIgnored, false)
+    ),
+    with: {
+      level: true,
+    },
+  });
+  const activeWarnings = userWarnings.filter(warning => !isWarningExpired(warning, warning.level)).length;
+
+  let status = "No active punishment";
+  if (user?.isBanned) {
+    status = "🔨 Banned";
+  } else if (user?.isMuted) {
+    status = user.muteExpiresAt
+      ? `🔇 Muted until <t:${Math.floor(user.muteExpiresAt.getTime() / 1000)}:f>`
+      : "🔇 Muted";
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Points for ${target.username}`)
+    .addFields(
+      { name: 'Total Points', value: (user?.totalPoints ?? 0).toString(), inline: true },
+      { name: 'Active Warnings', value: activeWarnings.toString(), inline: true },
+      { name: 'Status', value: status },
+    );
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+async function handleMute(interaction: CommandInteraction) {
+  const member = interaction.options.getMember("user");
+  const duration = interaction.options.getString("duration", true);
+  const reason = interaction.options.getString("reason");
+
+  if (!member) {
+    return replyError(interaction, "That user isn't in this server.");
+  }
+
+  const minutes = parseDuration(duration);
+  if (minutes === null) {
+    return replyError(interaction, "Give the duration like 45m, 12h or 7d.");
+  }
+  if (minutes > MAX_TIMEOUT_MINUTES) {
+    return replyError(interaction, `Discord can't time out a member for longer than 28 days, got ${formatDuration(minutes)}.`);
+  }
+
+  if (!member.moderatable) {
+    return replyError(interaction, "I can't mute that user. Check that my role is above theirs.");
+  }
+
+  const punishmentReason = reason
+    ? `Muted by ${interaction.user.username}: ${reason}`
+    : `Muted by ${interaction.user.username}`;
+
+  await interaction.deferReply();
+
+  await member.timeout(minutes * 60 * 1000, punishmentReason);
+
+  const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+  const user = await getOrCreateUser(interaction.guildId, member.id, member.user.username);
+
+  const [punishment] = await db.insert(punishments).values({
+    guildId: interaction.guildId,
+    userId: member.id,
+    type: "mute",
+    reason: punishmentReason,
+    durationMinutes: minutes,
+    expiresAt,
+  }).returning();
+
+  await db.update(users)
+    .set({ isMuted: true, muteExpiresAt: expiresAt })
+    .where(and(
+      eq(users.id, member.id),
+      eq(users.guildId, interaction.guildId)
+    ));
+
+  await recordAudit({
+    guildId: interaction.guildId,
+    actor: discordActor(interaction.user, "moderator"),
+    action: "punishment.apply",
+    targetType: "user",
+    targetId: member.id,
+    after: {
+      punishmentId: punishment.id,
+      type: "mute",
+      durationMinutes: minutes,
+      expiresAt,
+      reason,
+    },
+  });
+
+  const guild = await getGuild(interaction.guildId);
+  if (guild?.dmNotifications) {
+    await notifyPunishment(guild, member.id, {
+      type: "mute",
+      durationMinutes: minutes,
+      expiresAt,
+      slowmodeSeconds: null,
+      totalPoints: user.totalPoints,
+      warningId: null,
+    });
+  }
+
+  await interaction.editReply({
+    content: `🔇 <@${member.id}> muted until <t:${Math.floor(expiresAt.getTime() / 1000)}:f>${reason ? `: ${reason}` : ""}`,
+  });
+}
+
+async function handleUnmute(interaction: CommandInteraction) {
+  const member = interaction.options.getMember("user");
+  const reason = interaction.options.getString("reason");
+
+  if (!member) {
+    return replyError(interaction, "That user isn't in this server.");
+  }
+
+  if (!member.moderatable) {
+    return replyError(interaction, "I can't unmute that user. Check that my role is above theirs.");
+  }
+
+  const details = reason
+    ? `Lifted by ${interaction.user.username}: ${reason}`
+    : `Lifted by ${interaction.user.username}`;
+
+  await interaction.deferReply();
+
+  await member.timeout(null, details);
+
+  await db.update(users)
+    .set({ isMuted: false, muteExpiresAt: null })
+    .where(and(
+      eq(users.id, member.id),
+      eq(users.guildId, interaction.guildId)
+    ));
+
+  // Close out active mutes so the scheduler doesn't expire them later
+  const liftedMutes = await db.update(punishments)
+    .set({ status: "lifted" })
+    .where(and(
+      eq(punishments.userId, member.id),
+      eq(punishments.guildId, interaction.guildId),
+      eq(punishments.type, "mute"),
+      eq(punishments.status, "active")
+    ))
+    .returning();
+
+  if (liftedMutes.length) {
+    await db.insert(punishmentEvents)
+      .values(liftedMutes.map(punishment => ({
+        punishmentId: punishment.id,
+        type: "lifted",
+        details,
+      })));
+  }
+
+  await recordAudit({
+    guildId: interaction.guildId,
+    actor: discordActor(interaction.user, "moderator"),
+    action: "punishment.lift",
+    targetType: "user",
+    targetId: member.id,
+    before: { isMuted: true },
+    after: {
+      isMuted: false,
+      liftedPunishmentIds: liftedMutes.map(punishment => punishment.id),
+      reason,
+    },
+  });
+
+  await interaction.editReply({
+    content: `🔈 <@${member.id}> unmuted${reason ? `: ${reason}` : ""}`,
+  });
+}
+
+const COMMAND_HANDLERS: Record<string, (interaction: CommandInteraction) => Promise<unknown>> = {
+  warn: handleWarn,
+  pardon: handlePardon,
+  history: handleHistory,
+  points: handlePoints,
+  mute: handleMute,
+  unmute: handleUnmute,
+};
+
+// Suggests the guild's rules for the /warn rule option
+async function handleRuleAutocomplete(interaction: AutocompleteInteraction<"cached">) {
+  const search = interaction.options.getFocused().toLowerCase();
+
+  const guildRules = await db.query.rules.findMany({
+    where: eq(rules.guildId, interaction.guildId),
+    with: {
+      level: true,
+    },
+    orderBy: (rules, { asc }) => [asc(rules.order)],
+  });
+
+  await interaction.respond(
+    guildRules
+      .filter(rule => rule.name.toLowerCase().includes(search))
+      .slice(0, 25)
+      .map(rule => ({
+        name: `${rule.name} (${rule.level.name}, ${rule.level.points} pts)`.slice(0, 100),
+        value: rule.id,
+      }))
+  );
+}
+
+export async function handleInteraction(interaction: Interaction) {
+  if (!interaction.inCachedGuild()) {
+    return;
+  }
+
+  if (interaction.isAutocomplete()) {
+    try {
+      if (interaction.commandName === "warn") {
+        await handleRuleAutocomplete(interaction);
+      }
+    } catch (error) {
+      logError('Failed to autocomplete rules', error);
+    }
+    return;
+  }
+
+  if (!interaction.isChatInputCommand()) {
+    return;
+  }
+
+  const handler = COMMAND_HANDLERS[interaction.commandName];
+  if (!handler) {
+    return;
+  }
+
+  try {
+    if (!await isModerator(interaction.member)) {
+      await replyError(interaction, "You need the moderator role to use this command.");
+      return;
+    }
+
+    console.log('Running slash command:', {
+      command: interaction.commandName,
+      guildId: interaction.guildId,
+      moderatorId: interaction.user.id,
+    });
+
+    await handler(interaction);
+  } catch (error) {
+    logError(`Failed to run /${interaction.commandName}`, error);
+    try {
+      await replyError(interaction, `Something went wrong: ${error instanceof Error ? error.message : "unknown error"}`);
+    } catch (replyError) {
+      logError('Failed to report command error', replyError);
+    }
+  }
+}
@@ -1,8 +1,21 @@
-import { Client, Events, GatewayIntentBits, Partials, IntentsBitField, PermissionsBitField, ChannelType, Message, TextChannel, DMChannel, NewsChannel, GuildMember, ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder } from "discord.js";
-import { analyzeMessage } from "./moderation";
+import { Client, Events, GatewayIntentBits, Partials, IntentsBitField, PermissionsBitField, ChannelType, Message, TextChannel, GuildMember, ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder, HexColorString, DiscordAPIError, RESTJSONErrorCodes, MessageCreateOptions, type SendableChannels } from "discord.js";
+import { analyzeMessage, needsReview } from "./moderation";
+import { recordViolation, queueViolationForReview, recordMessageEdit, supersedeReviews, type ContextMessage, type RecordedViolation, type ViolationInput } from "./violations";
+import { isWatchlisted, logDeletedMessage } from "./watchlist";
 import { db } from "@db";
-import { users, warnings, punishments, warningLevels, punishmentRules } from "@db/schema";
-import { eq } from "drizzle-orm";
+import { users, warningLevels, type MediaAttachment, type MessageEdit, type SelectGuild } from "@db/schema";
+import { and, eq } from "drizzle-orm";
+import { upsertGuild, getGuild } from "./guilds";
+import { guessContentType, extractImageLinks, selectMediaForModeration } from "./media";
+import { detectSpam, detectRaid, isNewAccount, isRaidModeActive, startRaidMode, type SpamMessage } from "./spam";
+import { isOutOfScope, getStrictness, type MessageLocation } from "./scope";
+import { describeAppliedPunishments } from "./punishments";
+import { applyPunishments } from "./punishment-engine";
+import { notifyWarning } from "./notifications";
+import { logWarning, logRemovedMessage, handleModLogInteraction } from "./mod-log";
+import { registerGuildCommands, handleInteraction } from "./commands";
+import { APPEAL_BUTTON_PREFIX, handleAppealInteraction } from "./appeals";
+import { recordAudit, BOT_ACTOR, type AuditActor } from "./audit";
 
 let client: Client | null = null;
 
@@ -37,11 +50,16 @@ function logError(context: string, error: unknown) {
   }
 }
 
+// Messages the bot is deleting itself, so they aren't logged as user deletions
+const deletedByBot = new Set<string>();
+
 async function safeDeleteMessage(message: Message) {
+  deletedByBot.add(message.id);
   try {
     await message.delete();
     return true;
   } catch (error) {
+    deletedByBot.delete(message.id);
     logError('Failed to delete message', error);
     return false;
   }
@@ -53,13 +71,18 @@ interface WarningComponents {
 }
 
 // Create warning message components
-function createWarningComponents(): WarningComponents {
+function createWarningComponents(warningId: number): WarningComponents {
   const row = new ActionRowBuilder<ButtonBuilder>()
     .addComponents(
       new ButtonBuilder()
         .setCustomId('toggle_warning')
         .setLabel('Toggle Details')
-        .setStyle(ButtonStyle.Secondary)
+        .setStyle(ButtonStyle.Secondary),
+      // Handled by the appeals service, so it keeps working after the collector ends
+      new ButtonBuilder()
+        .setCustomId(`${APPEAL_BUTTON_PREFIX}${warningId}`)
+        .setLabel('Appeal')
+        .setStyle(ButtonStyle.Primary)
     );
 
   return { row };
@@ -68,6 +91,7 @@ function createWarningComponents(): WarningComponents {
 // Create warning embeds
 function createWarningEmbeds(params: {
   warningLevel: string;
+  color: string;
   userId: string;
   points: number;
   totalPoints: number;
@@ -76,10 +100,7 @@ function createWarningEmbeds(params: {
   punishment?: string;
 }, expanded: boolean = false) {
   const baseEmbed = new EmbedBuilder()
-    .setColor(
-      params.warningLevel === "red" ? 0xFF0000 :
-        params.warningLevel === "orange" ? 0xFFA500 : 0xFFFF00
-    )
+    .setColor(params.color as HexColorString)
     .setDescription(
       `${params.messageDeleted ? "*[Message deleted]* " : ""}⚠️ <@${params.userId}> • ${params.points} pts (total: ${params.totalPoints})${params.punishment ? ` • ${params.punishment}` : ""}`
     );
@@ -101,8 +122,10 @@ function createWarningEmbeds(params: {
 
 
 // Update the message sending part
-async function safeSendWarning(channel: TextChannel | DMChannel | NewsChannel, params: {
+async function safeSendWarning(channel: SendableChannels, params: {
+  warningId: number;
   warningLevel: string;
+  color: string;
   userId: string;
   points: number;
   totalPoints: number;
@@ -111,7 +134,7 @@ async function safeSendWarning(channel: TextChannel | DMChannel | NewsChannel, p
   punishment?: string;
 }) {
   try {
-    const components = createWarningComponents();
+    const components = createWarningComponents(params.warningId);
     const embeds = createWarningEmbeds(params);
 
     const message = await channel.send({
@@ -151,44 +174,316 @@ async function safeSendWarning(channel: TextChannel | DMChannel | NewsChannel, p
   }
 }
 
-async function safeApplyPunishment(
-  member: GuildMember,
-  type: "ban" | "mute",
-  duration?: number,
-  reason?: string
-) {
+export interface EnforcementResult extends RecordedViolation {
+  messageDeleted: boolean;
+  punishment: string | null; // what was applied, as shown in the warning
+}
+
+// Fetch a message the bot can still see, null when it is gone or the bot is offline
+async function fetchGuildMessage(channelId: string, messageId: string): Promise<Message | null> {
+  const readyClient = getDiscordClient();
+  if (!readyClient) {
+    return null;
+  }
+
+  try {
+    const channel = await readyClient.channels.fetch(channelId);
+    if (!channel?.isTextBased()) {
+      return null;
+    }
+    return await channel.messages.fetch(messageId);
+  } catch (error) {
+    logError(`Failed to fetch message ${messageId}`, error);
+    return null;
+  }
+}
+
+export async function fetchGuildMember(guildId: string, userId: string): Promise<GuildMember | null> {
+  const readyClient = getDiscordClient();
+  if (!readyClient) {
+    return null;
+  }
+
+  try {
+    const guild = await readyClient.guilds.fetch(guildId);
+    return await guild.members.fetch(userId);
+  } catch (error) {
+    logError(`Failed to fetch member ${userId} in guild ${guildId}`, error);
+    return null;
+  }
+}
+
+/**
+ * Enforces a violation: deletes the message when the level asks for it,
+ * records the warning, DMs the user, applies any punishments it newly earns
+ * and posts the warning to the mod-log and in the channel, unless the
+ * guild's warnings are silent. Used for live messages and for
+ * verdicts approved from the review queue, where the message is fetched again.
+ */
+export async function enforceViolation(
+  input: Omit<ViolationInput, "messageDeleted">,
+  message?: Message,
+  actor: AuditActor = BOT_ACTOR
+): Promise<EnforcementResult> {
+  console.log('Starting punishment processing...');
+
+  const targetMessage = message ??
+    (input.channelId && input.messageId ? await fetchGuildMessage(input.channelId, input.messageId) : null);
+
+  // Delete message if required, before recording so the outcome is stored
+  let messageDeleted = false;
+  if (input.warningLevel.deleteMessage && targetMessage) {
+    messageDeleted = await safeDeleteMessage(targetMessage);
+  }
+
+  const recorded = await recordViolation({ ...input, messageDeleted }, actor);
+  const newTotalPoints = recorded.totalPoints;
+  const guild = await getGuild(input.guildId);
+
+  // DM before punishing, so a user who gets kicked or banned still shares a server with the bot
+  if (guild?.dmNotifications) {
+    await notifyWarning(guild, input.userId, {
+      warningId: recorded.warning.id,
+      level: input.warningLevel,
+      ruleTriggered: input.ruleTriggered,
+      totalPoints: newTotalPoints,
+    });
+  }
+
+  const appliedPunishments = await applyPunishments({
+    guildId: input.guildId,
+    userId: input.userId,
+    totalPoints: newTotalPoints,
+    member: targetMessage?.member,
+    brokenRuleId: input.ruleId,
+    ruleTriggered: input.ruleTriggered,
+    warningId: recorded.warning.id,
+  }, actor);
+
+  const punishment = describeAppliedPunishments(appliedPunishments);
+
+  const warningParams = {
+    warningId: recorded.warning.id,
+    warningLevel: input.warningLevel.name,
+    color: input.warningLevel.color,
+    userId: input.userId,
+    points: input.warningLevel.points,
+    totalPoints: newTotalPoints,
+    messageDeleted: messageDeleted,
+    ruleTriggered: input.ruleTriggered,
+    punishment: punishment ?? undefined,
+  };
+
+  if (guild) {
+    await logWarning(guild, {
+      warning: recorded.warning,
+      level: input.warningLevel,
+      username: input.username,
+      totalPoints: newTotalPoints,
+      confidence: input.confidence,
+      messageUrl: targetMessage && !messageDeleted ? targetMessage.url : null,
+      punishment,
+      actor,
+    });
+  }
+
+  // Silent warnings are only posted to the mod-log
+  if (targetMessage?.channel.isSendable() && guild?.warningVisibility !== "silent") {
+    // Send warning message with fallback options
+    await safeSendWarning(targetMessage.channel, warningParams);
+  }
+
+  return { ...recorded, messageDeleted, punishment };
+}
+
+// Returns the bot client once it is logged in and ready
+export function getDiscordClient(): Client | null {
+  return client?.isReady() ? client : null;
+}
+
+// DM a user, returning false when their DMs are closed or the bot is offline
+export async function sendDirectMessage(userId: string, options: string | MessageCreateOptions): Promise<boolean> {
+  const readyClient = getDiscordClient();
+  if (!readyClient) {
+    return false;
+  }
+
   try {
-    console.log('Applying punishment:', { type, duration, userId: member.id });
+    const user = await readyClient.users.fetch(userId);
+    await user.send(options);
+    return true;
+  } catch (error) {
+    logError(`Failed to send direct message to user ${userId}`, error);
+    return false;
+  }
+}
 
-    if (type === "ban") {
-      console.log('Attempting to ban user:', member.id);
-      await member.ban({ reason: reason || "Exceeded maximum warning points" });
-      console.log('Successfully banned user:', member.id);
+// Post to the guild's private mod-log channel. Returns false when none is set or it can't be reached.
+export async function sendModLog(guild: SelectGuild, options: MessageCreateOptions): Promise<boolean> {
+  const readyClient = getDiscordClient();
+  if (!readyClient || !guild.modLogChannelId) {
+    return false;
+  }
+
+  try {
+    const channel = await readyClient.channels.fetch(guild.modLogChannelId);
+    if (!channel?.isSendable()) {
+      console.warn('Mod-log channel is not a text channel:', { guildId: guild.id, channelId: guild.modLogChannelId });
+      return false;
+    }
+    await channel.send(options);
+    return true;
+  } catch (error) {
+    logError(`Failed to post to mod-log channel ${guild.modLogChannelId} in guild ${guild.id}`, error);
+    return false;
+  }
+}
+
+// Lift a ban in Discord. Returns false when the guild can't be reached so the caller can retry.
+export async function liftBan(guildId: string, userId: string, reason: string): Promise<boolean> {
+  const readyClient = getDiscordClient();
+  if (!readyClient) {
+    return false;
+  }
+
+  try {
+    const guild = await readyClient.guilds.fetch(guildId);
+    await guild.bans.remove(userId, reason);
+    console.log('Lifted ban:', { guildId, userId });
+    return true;
+  } catch (error) {
+    // The ban was already removed by hand
+    if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.UnknownBan) {
       return true;
-    } else if (type === "mute") {
-      // Discord.js timeout() expects milliseconds, but our duration is stored in hours
-      const muteDurationMs = (duration || 60) * 60 * 1000; // Convert hours to milliseconds
-      console.log('Attempting to timeout user:', { 
-        userId: member.id, 
-        durationMs: muteDurationMs,
-        originalDurationHours: duration,
-        defaultDurationHours: 60 
-      });
-      await member.timeout(muteDurationMs, reason || "Accumulated warning points");
-      console.log('Successfully applied timeout to user:', member.id);
+    }
+    logError(`Failed to lift ban for user ${userId} in guild ${guildId}`, error);
+    return false;
+  }
+}
+
+// Remove a member's timeout. Returns false when the guild can't be reached so the caller can retry.
+export async function liftTimeout(guildId: string, userId: string, reason: string): Promise<boolean> {
+  const readyClient = getDiscordClient();
+  if (!readyClient) {
+    return false;
+  }
+
+  try {
+    const guild = await readyClient.guilds.fetch(guildId);
+    const member = await guild.members.fetch(userId);
+    await member.timeout(null, reason);
+    console.log('Lifted timeout:', { guildId, userId });
+    return true;
+  } catch (error) {
+    // The member left, which also ends the timeout
+    if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.UnknownMember) {
       return true;
     }
+    logError(`Failed to lift timeout for user ${userId} in guild ${guildId}`, error);
+    return false;
+  }
+}
+
+// Add or remove a member's role. Returns false when the guild can't be reached so the caller can retry.
+export async function updateMemberRole(
+  guildId: string,
+  userId: string,
+  roleId: string,
+  add: boolean,
+  reason: string
+): Promise<boolean> {
+  const readyClient = getDiscordClient();
+  if (!readyClient) {
+    return false;
+  }
+
+  try {
+    const guild = await readyClient.guilds.fetch(guildId);
+    const member = await guild.members.fetch(userId);
+    if (add) {
+      await member.roles.add(roleId, reason);
+    } else {
+      await member.roles.remove(roleId, reason);
+    }
+    console.log('Updated member role:', { guildId, userId, roleId, add });
+    return true;
   } catch (error) {
-    logError(`Failed to apply ${type} punishment`, error);
-    console.error('Punishment application error details:', {
-      memberId: member.id,
-      type,
-      duration,
-      permissions: member.permissions.toArray()
-    });
+    // The member left or the role was deleted, so there's nothing left to change
+    if (error instanceof DiscordAPIError &&
+      (error.code === RESTJSONErrorCodes.UnknownMember || error.code === RESTJSONErrorCodes.UnknownRole)) {
+      return true;
+    }
+    logError(`Failed to update role ${roleId} for user ${userId} in guild ${guildId}`, error);
     return false;
   }
-  return false;
+}
+
+export interface GuildChannelInfo {
+  id: string;
+  name: string;
+  type: "category" | "channel";
+  parentId: string | null; // category the channel sits in
+}
+
+export interface GuildRoleInfo {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// Channels that can hold messages are listed with their categories
+const LISTED_CHANNEL_TYPES = [
+  ChannelType.GuildCategory,
+  ChannelType.GuildText,
+  ChannelType.GuildAnnouncement,
+  ChannelType.GuildForum,
+  ChannelType.GuildVoice,
+  ChannelType.GuildStageVoice,
+];
+
+// The guild's channels in sidebar order, or null when the bot can't reach the guild
+export async function listGuildChannels(guildId: string): Promise<GuildChannelInfo[] | null> {
+  const readyClient = getDiscordClient();
+  if (!readyClient) {
+    return null;
+  }
+
+  try {
+    const guild = await readyClient.guilds.fetch(guildId);
+    const channels = await guild.channels.fetch();
+    return Array.from(channels.values())
+      .filter(channel => channel && LISTED_CHANNEL_TYPES.includes(channel.type))
+      .sort((a, b) => a!.rawPosition - b!.rawPosition)
+      .map(channel => ({
+        id: channel!.id,
+        name: channel!.name,
+        type: channel!.type === ChannelType.GuildCategory ? "category" : "channel",
+        parentId: channel!.parentId,
+      }));
+  } catch (error) {
+    logError(`Failed to list channels for guild ${guildId}`, error);
+    return null;
+  }
+}
+
+// The guild's roles from highest to lowest, without @everyone and integration roles
+export async function listGuildRoles(guildId: string): Promise<GuildRoleInfo[] | null> {
+  const readyClient = getDiscordClient();
+  if (!readyClient) {
+    return null;
+  }
+
+  try {
+    const guild = await readyClient.guilds.fetch(guildId);
+    const roles = await guild.roles.fetch();
+    return Array.from(roles.values())
+      .filter(role => role.id !== guild.id && !role.managed)
+      .sort((a, b) => b.position - a.position)
+      .map(role => ({ id: role.id, name: role.name, color: role.hexColor }));
+  } catch (error) {
+    logError(`Failed to list roles for guild ${guildId}`, error);
+    return null;
+  }
 }
 
 export async function validateDiscordToken(token: string): Promise<{ valid: boolean; error?: string }> {
@@ -213,7 +508,7 @@ export async function validateDiscordToken(token: string): Promise<{ valid: bool
 
     // Check permissions in each guild
     for (const guild of guilds) {
-      const botMember = guild.members.cache.get(tempClient.user.id);
+      const botMember = guild.members.me;
       if (!botMember) continue;
 
       const missingPermissions = REQUIRED_PERMISSIONS.filter(
@@ -249,6 +544,304 @@ export async function validateDiscordToken(token: string): Promise<{ valid: bool
   }
 }
 
+// Every image in a message: attachments, embed images and direct image links
+function collectMedia(message: Message): MediaAttachment[] {
+  const attachments = message.attachments.map((attachment): MediaAttachment => ({
+    url: attachment.url,
+    name: attachment.name,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    source: "attachment",
+  }));
+
+  const embedImages = message.embeds
+    .flatMap(embed => [embed.image?.url, embed.thumbnail?.url])
+    .filter((url): url is string => !!url)
+    .map((url): MediaAttachment => ({
+      url,
+      name: null,
+      contentType: guessContentType(url),
+      size: null,
+      source: "embed",
+    }));
+
+  return [...attachments, ...embedImages, ...extractImageLinks(message.content)];
+}
+
+/**
+ * Runs the raid and spam detectors on a new message. While raid mode is on,
+ * messages from new accounts are removed without further checks. Returns true
+ * when the message has been dealt with and shouldn't go on to the LLM.
+ */
+async function handleSpam(message: Message<true>, guild: SelectGuild): Promise<boolean> {
+  const settings = guild.spamSettings;
+  const spamMessage: SpamMessage = {
+    guildId: guild.id,
+    userId: message.author.id,
+    channelId: message.channelId,
+    content: message.content,
+    mentions: message.mentions.users.size + message.mentions.roles.size + (message.mentions.everyone ? 1 : 0),
+    accountCreatedAt: message.author.createdAt,
+    sentAt: message.createdTimestamp,
+  };
+
+  if (detectRaid(settings, spamMessage) && !isRaidModeActive(guild)) {
+    const reason = `${settings.raid.accounts} new accounts posted within ${settings.raid.windowSeconds} seconds`;
+    guild = await startRaidMode(guild, reason, BOT_ACTOR);
+  }
+
+  if (isRaidModeActive(guild) && isNewAccount(settings, message.author.createdAt)) {
+    console.log('Removing message from new account during raid mode:', { userId: message.author.id, guildId: guild.id });
+    if (await safeDeleteMessage(message)) {
+      await logRemovedMessage(guild, {
+        userId: message.author.id,
+        username: message.author.username,
+        channelId: message.channelId,
+        content: message.content,
+        reason: "Posted by a new account during raid mode",
+      });
+    }
+    return true;
+  }
+
+  const match = detectSpam(settings, spamMessage);
+  if (!match) {
+    return false;
+  }
+
+  const warningLevel = await db.query.warningLevels.findFirst({
+    where: and(eq(warningLevels.id, match.warningLevelId), eq(warningLevels.guildId, guild.id)),
+  });
+  if (!warningLevel) {
+    logError('Spam warning level not found', { guildId: guild.id, detector: match.detector, levelId: match.warningLevelId });
+    return false;
+  }
+
+  console.log('Spam detected:', { userId: message.author.id, detector: match.detector, reason: match.reason });
+  await enforceViolation({
+    guildId: guild.id,
+    userId: message.author.id,
+    username: message.author.username,
+    warningLevel,
+    ruleTriggered: match.reason,
+    messageContent: message.content,
+    contextMessages: [],
+    channelId: message.channelId,
+    channelName: "name" in message.channel ? message.channel.name : null,
+    messageId: message.id,
+  }, message);
+  return true;
+}
+
+// When each slowed-down user last got a message through, keyed by "<guild>:<user>"
+const slowmodeLastMessage = new Map<string, number>();
+
+/**
+ * Deletes the message when its author is under a slowmode punishment and
+ * posted again too soon. Returns true when the message was removed.
+ */
+async function enforceSlowmode(message: Message<true>, guild: SelectGuild | undefined): Promise<boolean> {
+  const key = `${message.guildId}:${message.author.id}`;
+  const user = await db.query.users.findFirst({
+    where: and(eq(users.id, message.author.id), eq(users.guildId, message.guildId)),
+  });
+
+  if (!user?.slowmodeSeconds || !user.slowmodeExpiresAt || user.slowmodeExpiresAt <= new Date()) {
+    slowmodeLastMessage.delete(key);
+    return false;
+  }
+
+  const lastMessageAt = slowmodeLastMessage.get(key);
+  if (lastMessageAt && message.createdTimestamp - lastMessageAt < user.slowmodeSeconds * 1000) {
+    console.log('Removing message sent during slowmode:', { userId: message.author.id, guildId: message.guildId });
+    if (await safeDeleteMessage(message) && guild) {
+      await logRemovedMessage(guild, {
+        userId: message.author.id,
+        username: message.author.username,
+        channelId: message.channelId,
+        content: message.content,
+        reason: `Sent within ${user.slowmodeSeconds} seconds of their last message while slowed down`,
+      });
+    }
+    return true;
+  }
+
+  slowmodeLastMessage.set(key, message.createdTimestamp);
+  return false;
+}
+
+// Threads are scoped by their parent channel and its category
+function getMessageLocation(message: Message<true>): MessageLocation {
+  const channel = message.channel;
+  if (channel.isThread()) {
+    return {
+      channelIds: [channel.id, ...(channel.parentId ? [channel.parentId] : [])],
+      categoryId: channel.parent?.parentId ?? null,
+    };
+  }
+  return { channelIds: [channel.id], categoryId: channel.parentId };
+}
+
+/**
+ * Runs a guild message through moderation and enforces or queues the verdict.
+ * Edited messages pass the edit that triggered the check, which is stored
+ * with the warning.
+ */
+async function moderateMessage(message: Message, editHistory?: MessageEdit[]) {
+  try {
+    // Skip bot messages early
+    if (message.author.bot) return;
+
+    // Validate message context
+    if (!message.inGuild() || !message.member) return;
+
+    const guild = await getGuild(message.guild.id);
+    const location = getMessageLocation(message);
+
+    // Excluded channels and exempt roles are skipped entirely, spam checks included
+    if (guild && isOutOfScope(guild, location, Array.from(message.member.roles.cache.keys()))) {
+      return;
+    }
+
+    console.log('Processing message:', {
+      author: message.author.username,
+      content: message.content.substring(0, 100),
+      guildId: message.guildId,
+      edited: !!editHistory,
+    });
+
+    // Verify bot permissions with early return if insufficient
+    const botMember = message.guild.members.cache.get(client?.user?.id || '');
+    if (!botMember) {
+      logError('Bot member not found in guild', { guildId: message.guildId });
+      return;
+    }
+
+    // Check channel permissions
+    if (!message.channel.isTextBased()) {
+      return;
+    }
+
+    const permissions = (message.channel as TextChannel).permissionsFor(botMember);
+    if (!permissions) {
+      logError('Could not get channel permissions for bot', {
+        channelId: message.channelId,
+        guildId: message.guildId
+      });
+      return;
+    }
+
+    const missingPermissions = REQUIRED_PERMISSIONS.filter(
+      permission => !permissions.has(permission)
+    );
+
+    if (missingPermissions.length > 0) {
+      logError('Missing required permissions in channel', {
+        channel: message.channel.name,
+        permissions: formatMissingPermissions(missingPermissions)
+      });
+      return;
+    }
+
+    // Edits don't count towards slowmode or the spam windows, only new messages do
+    if (!editHistory && await enforceSlowmode(message, guild)) {
+      return;
+    }
+    if (guild && !editHistory && await handleSpam(message, guild)) {
+      return;
+    }
+
+    // Fetch message context with retry
+    let contextMessages: ContextMessage[] = [];
+    try {
+      const context = await message.channel.messages.fetch({ limit: 6 });
+      contextMessages = Array.from(context.values())
+        .reverse()
+        .slice(0, -1)
+        .map(msg => ({
+          author: msg.author.username,
+          content: msg.content,
+        }));
+    } catch (error) {
+      logError('Failed to fetch message context', error);
+      // Continue with empty context rather than failing
+      contextMessages = [];
+    }
+
+    // Images only go to the vision model when the guild has turned it on
+    const media = guild ? selectMediaForModeration(guild, collectMedia(message)) : [];
+
+    // Rate limits and provider errors are retried by the LLM queue
+    let analysis;
+    try {
+      analysis = await analyzeMessage(
+        message.content,
+        contextMessages,
+        message.guild.id,
+        media,
+        guild ? getStrictness(guild, location.categoryId) : "standard"
+      );
+    } catch (error) {
+      logError('Failed to analyze message', error);
+      return;
+    }
+
+    if (!analysis.warningLevel) {
+      console.log('No violation detected, skipping punishment processing');
+      return;
+    }
+
+    const violation = {
+      guildId: message.guild.id,
+      userId: message.author.id,
+      username: message.author.username,
+      warningLevel: analysis.warningLevel,
+      ruleTriggered: analysis.ruleTriggered,
+      messageContent: message.content,
+      contextMessages,
+      channelId: message.channelId,
+      channelName: "name" in message.channel ? message.channel.name : null,
+      messageId: message.id,
+      ruleId: analysis.rule?.id ?? null,
+      editHistory,
+      attachments: media,
+      confidence: analysis.confidence,
+    };
+
+    // Leave the message alone until a moderator confirms the verdict
+    if (needsReview(analysis)) {
+      const review = await queueViolationForReview({
+        ...violation,
+        ruleId: analysis.rule?.id ?? null,
+        confidence: analysis.confidence,
+      });
+      // A verdict on the edited content replaces any still waiting on the old content
+      if (editHistory) {
+        await supersedeReviews(message.guild.id, message.id, { reviewId: review.id });
+      }
+      return;
+    }
+
+    try {
+      const { warning } = await enforceViolation(violation, message);
+      if (editHistory) {
+        await supersedeReviews(message.guild.id, message.id, { warningId: warning.id });
+      }
+    } catch (error) {
+      console.error('Error in punishment processing:', error);
+      if (error instanceof Error) {
+        console.error('Stack trace:', error.stack);
+      }
+    }
+
+  } catch (error) {
+    console.error('Critical error in message handler:', error);
+    if (error instanceof Error) {
+      console.error('Stack trace:', error.stack);
+    }
+  }
+}
+
 export async function setupDiscordBot(token: string): Promise<{ success: boolean; error?: string }> {
   try {
     // If there's an existing client, destroy it first
@@ -280,8 +873,21 @@ export async function setupDiscordBot(token: string): Promise<{ success: boolean
     client.once(Events.ClientReady, async c => {
       console.log(`Discord bot ready and connected as ${c.user.tag}`);
 
-      // Check permissions in all guilds
-      for (const [guildId, guild] of c.guilds.cache) {
+      // Check permissions in all guilds and register them for per-guild configuration
+      for (const [guildId, guild] of Array.from(c.guilds.cache)) {
+        try {
+          await upsertGuild(guildId, guild.name);
+        } catch (error) {
+          logError(`Failed to register guild ${guild.name} (${guildId})`, error);
+        }
+
+        try {
+          await registerGuildCommands(guild);
+        } catch (error) {
+          logError(`Failed to register slash commands in guild ${guild.name} (${guildId})`, error);
+        }
+
+
         const botMember = guild.members.cache.get(c.user.id);
         if (!botMember) {
           console.warn(`Could not find bot member in guild ${guild.name} (${guildId})`);
@@ -303,231 +909,71 @@ export async function setupDiscordBot(token: string): Promise<{ success: boolean
       console.log('Listening for messages in all accessible channels...');
     });
 
-    // Update the message event handler with better error handling
-    client.on(Events.MessageCreate, async message => {
+    // Register guilds the bot joins while running
+    client.on(Events.GuildCreate, async guild => {
       try {
-        // Skip bot messages early
-        if (message.author.bot) return;
-
-        // Validate message context
-        if (!message.guild || !message.member) return;
-
-        console.log('Processing message:', {
-          author: message.author.username,
-          content: message.content.substring(0, 100),
-          guildId: message.guildId
-        });
-
-        // Verify bot permissions with early return if insufficient
-        const botMember = message.guild.members.cache.get(client?.user?.id || '');
-        if (!botMember) {
-          logError('Bot member not found in guild', { guildId: message.guildId });
-          return;
-        }
-
-        // Check channel permissions
-        if (!message.channel.isTextBased()) {
-          return;
-        }
-
-        const permissions = (message.channel as TextChannel).permissionsFor(botMember);
-        if (!permissions) {
-          logError('Could not get channel permissions for bot', {
-            channelId: message.channelId,
-            guildId: message.guildId
-          });
-          return;
-        }
+        await upsertGuild(guild.id, guild.name);
+        console.log(`Joined guild ${guild.name} (${guild.id})`);
+      } catch (error) {
+        logError(`Failed to register guild ${guild.name} (${guild.id})`, error);
+      }
 
-        const missingPermissions = REQUIRED_PERMISSIONS.filter(
-          permission => !permissions.has(permission)
-        );
+      try {
+        await registerGuildCommands(guild);
+      } catch (error) {
+        logError(`Failed to register slash commands in guild ${guild.name} (${guild.id})`, error);
+      }
+    });
 
-        if (missingPermissions.length > 0) {
-          logError('Missing required permissions in channel', {
-            channel: message.channel.name,
-            permissions: formatMissingPermissions(missingPermissions)
-          });
-          return;
-        }
+    // Moderator slash commands
+    client.on(Events.InteractionCreate, handleInteraction);
+    client.on(Events.InteractionCreate, handleAppealInteraction);
+    client.on(Events.InteractionCreate, handleModLogInteraction);
 
-        // Fetch message context with retry
-        let contextMessages = [];
-        try {
-          const context = await message.channel.messages.fetch({ limit: 6 });
-          contextMessages = Array.from(context.values())
-            .reverse()
-            .slice(0, -1)
-            .map(msg => ({
-              author: msg.author.username,
-              content: msg.content,
-            }));
-        } catch (error) {
-          logError('Failed to fetch message context', error);
-          // Continue with empty context rather than failing
-          contextMessages = [];
-        }
+    client.on(Events.MessageCreate, message => moderateMessage(message));
 
-        // Analyze message with retry mechanism
-        let analysis = null;
-        let retries = 3;
-        while (retries > 0 && !analysis) {
-          try {
-            analysis = await analyzeMessage(message.content, contextMessages);
-            break;
-          } catch (error) {
-            retries--;
-            if (retries === 0) {
-              logError('Failed to analyze message after all retries', error);
-              return; // Skip this message if analysis completely fails
-            }
-            // Wait before retry
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-        }
+    // Re-moderate edits, so a message that passed can't be edited into a violation
+    client.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
+      try {
+        const message = newMessage.partial ? await newMessage.fetch() : newMessage;
+        if (message.author.bot || !message.guildId) return;
 
-        if (!analysis || analysis.warningLevel === "none") {
-          console.log('No violation detected, skipping punishment processing');
-          return;
-        }
+        // Embeds unfurling also fires an update without changing the text
+        if (!oldMessage.partial && oldMessage.content === message.content) return;
 
-        try {
-          console.log('Starting punishment processing...');
-
-          // Get warning level
-          const warningLevel = await db.query.warningLevels.findFirst({
-            where: eq(warningLevels.name, analysis.warningLevel),
-          });
-
-          if (!warningLevel) {
-            console.error('Warning level not found:', analysis.warningLevel);
-            return;
-          }
-
-          console.log('Found warning level:', warningLevel);
-
-          // Get or create user
-          let user = await db.query.users.findFirst({
-            where: eq(users.id, message.author.id),
-          });
-
-          if (!user) {
-            console.log('Creating new user:', message.author.id);
-            await db.insert(users).values({
-              id: message.author.id,
-              username: message.author.username,
-              totalPoints: 0,
-            });
-            user = await db.query.users.findFirst({
-              where: eq(users.id, message.author.id),
-            });
-          }
-
-          if (!user) {
-            console.error('Failed to get/create user:', message.author.id);
-            return;
-          }
-
-          // Calculate new total points
-          const newTotalPoints = user.totalPoints + warningLevel.points;
-          console.log('Point calculation:', {
-            currentPoints: user.totalPoints,
-            addedPoints: warningLevel.points,
-            newTotal: newTotalPoints
-          });
-
-          // Update user points
-          await db.update(users)
-            .set({ totalPoints: newTotalPoints })
-            .where(eq(users.id, message.author.id));
-
-          // Process punishments
-          console.log('Fetching punishment rules...');
-          const activePunishmentRules = await db.query.punishmentRules.findMany({
-            where: eq(punishmentRules.isActive, true),
-            orderBy: (rules, { desc }) => [desc(rules.pointThreshold)],
-          });
-
-          console.log('Available punishment rules:', activePunishmentRules);
-
-          // Find highest applicable punishment
-          let appliedPunishment = null;
-          for (const rule of activePunishmentRules) {
-            console.log('Evaluating punishment rule:', {
-              rule,
-              userPoints: newTotalPoints,
-              threshold: rule.pointThreshold
-            });
-
-            if (newTotalPoints >= rule.pointThreshold) {
-              console.log('Threshold met for punishment:', rule);
-
-              const success = await safeApplyPunishment(
-                message.member,
-                rule.type,
-                rule.duration,
-                "Accumulated warning points"
-              );
-
-              if (success) {
-                console.log('Successfully applied punishment:', {
-                  type: rule.type,
-                  duration: rule.duration,
-                  userId: message.author.id
-                });
-
-                await db.insert(punishments).values({
-                  userId: message.author.id,
-                  type: rule.type,
-                  reason: "Accumulated warning points",
-                  duration: rule.type === "mute" ? rule.duration : undefined,
-                  expiresAt: rule.type === "mute" ? new Date(Date.now() + (rule.duration || 60) * 60 * 1000) : undefined,
-                });
-
-                appliedPunishment = rule.type;
-                break;
-              } else {
-                console.error('Failed to apply punishment:', {
-                  type: rule.type,
-                  userId: message.author.id
-                });
-              }
-            }
-          }
-
-          // Delete message if required
-          let messageDeleted = false;
-          if (analysis.deleteMessage) {
-            messageDeleted = await safeDeleteMessage(message);
-          }
-
-          // Send warning message with fallback options
-          const warningParams = {
-            warningLevel: analysis.warningLevel,
-            userId: message.author.id,
-            points: analysis.points,
-            totalPoints: newTotalPoints,
-            messageDeleted: messageDeleted,
-            ruleTriggered: analysis.ruleTriggered,
-            punishment: appliedPunishment ?
-              `${appliedPunishment === "ban" ? "🔨 banned" : "🔇 muted"}` :
-              undefined
-          };
-
-          await safeSendWarning(message.channel, warningParams);
+        const edit: MessageEdit = {
+          previousContent: oldMessage.partial ? null : oldMessage.content,
+          content: message.content,
+          editedAt: (message.editedAt ?? new Date()).toISOString(),
+        };
 
-        } catch (error) {
-          console.error('Error in punishment processing:', error);
-          if (error instanceof Error) {
-            console.error('Stack trace:', error.stack);
-          }
-        }
+        // Keep the edit with any verdict on the old content, then judge the new content
+        await recordMessageEdit(message.guildId, message.id, edit);
+        await moderateMessage(message, [edit]);
+      } catch (error) {
+        logError('Failed to process message edit', error);
+      }
+    });
 
+    // Keep what watchlisted users delete, in case they deleted it before the bot
+    // acted. Messages the bot never cached have no author and can't be logged.
+    client.on(Events.MessageDelete, async message => {
+      try {
+        if (!message.guildId || deletedByBot.delete(message.id)) return;
+        if (!message.author || message.author.bot) return;
+        if (!await isWatchlisted(message.guildId, message.author.id)) return;
+
+        await logDeletedMessage({
+          guildId: message.guildId,
+          userId: message.author.id,
+          channelId: message.channelId,
+          channelName: "name" in message.channel ? message.channel.name : null,
+          messageId: message.id,
+          content: message.partial ? null : message.content,
+          sentAt: message.createdAt,
+        });
       } catch (error) {
-        console.error('Critical error in message handler:', error);
-        if (error instanceof Error) {
-          console.error('Stack trace:', error.stack);
-        }
+        logError('Failed to log deleted message', error);
       }
     });
 
@@ -0,0 +1,153 @@
+import { db } from "@db";
+import { guilds, warningLevels, rules, punishmentRules, aiPromptTemplates, aiPromptHistory, type SelectGuild } from "@db/schema";
+import { eq } from "drizzle-orm";
+
+// Register a guild the bot has joined, or refresh its name
+export async function upsertGuild(guildId: string, name: string): Promise<SelectGuild> {
+  const [guild] = await db.insert(guilds)
+    .values({ id: guildId, name })
+    .onConflictDoUpdate({
+      target: guilds.id,
+      set: { name, updatedAt: new Date() },
+    })
+    .returning();
+  return guild;
+}
+
+export async function getGuild(guildId: string): Promise<SelectGuild | undefined> {
+  return db.query.guilds.findFirst({
+    where: eq(guilds.id, guildId),
+  });
+}
+
+// The guild the dashboard selects when the session has none
+export async function getDefaultGuildId(): Promise<string | null> {
+  const settings = await db.query.discordSettings.findFirst({
+    orderBy: (discordSettings, { desc }) => [desc(discordSettings.createdAt)],
+  });
+
+  if (settings?.guildId && await getGuild(settings.guildId)) {
+    return settings.guildId;
+  }
+
+  const firstGuild = await db.query.guilds.findFirst({
+    orderBy: (guilds, { asc }) => [asc(guilds.createdAt)],
+  });
+  return firstGuild?.id ?? null;
+}
+
+/**
+ * Returns the guilds whose points are pooled with the given guild. Points stay
+ * within a single guild unless it has opted in to sharing, in which case they
+ * are pooled with every other guild that has also opted in.
+ */
+export async function getPointPoolGuildIds(guildId: string): Promise<string[]> {
+  const guild = await getGuild(guildId);
+  if (!guild?.sharePoints) {
+    return [guildId];
+  }
+
+  const sharingGuilds = await db.query.guilds.findMany({
+    where: eq(guilds.sharePoints, true),
+  });
+  return sharingGuilds.map(g => g.id);
+}
+
+/**
+ * Copies warning levels, rules, punishment rules and the active prompt template
+ * from one guild to another, so a newly joined guild can start from an
+ * existing configuration.
+ */
+export async function copyGuildConfig(sourceGuildId: string, targetGuildId: string) {
+  const sourceLevels = await db.query.warningLevels.findMany({
+    where: eq(warningLevels.guildId, sourceGuildId),
+    with: {
+      rules: true,
+    },
+  });
+
+  // Source rule ID -> copied rule ID, for punishments tied to a rule
+  const copiedRuleIds = new Map<number, number>();
+
+  for (const level of sourceLevels) {
+    const [newLevel] = await db.insert(warningLevels)
+      .values({
+        guildId: targetGuildId,
+        name: level.name,
+        color: level.color,
+        points: level.points,
+        deleteMessage: level.deleteMessage,
+        description: level.description,
+        expiryDays: level.expiryDays,
+        confidenceThreshold: level.confidenceThreshold,
+        dmTemplate: level.dmTemplate,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    // Skip levels the target guild already has
+    if (!newLevel) continue;
+
+    if (level.rules.length) {
+      const newRules = await db.insert(rules).values(level.rules.map(rule => ({
+        guildId: targetGuildId,
+        warningLevelId: newLevel.id,
+        name: rule.name,
+        description: rule.description,
+        order: rule.order,
+        matchType: rule.matchType,
+        patterns: rule.patterns,
+      }))).returning();
+      level.rules.forEach((rule, index) => copiedRuleIds.set(rule.id, newRules[index].id));
+    }
+  }
+
+  const sourcePunishmentRules = await db.query.punishmentRules.findMany({
+    where: eq(punishmentRules.guildId, sourceGuildId),
+  });
+
+  // Role IDs belong to the source guild, and rules that weren't copied can't be linked
+  const copyablePunishmentRules = sourcePunishmentRules.filter(rule =>
+    !rule.roleId && (rule.ruleId === null || copiedRuleIds.has(rule.ruleId)));
+
+  if (copyablePunishmentRules.length) {
+    await db.insert(punishmentRules).values(copyablePunishmentRules.map(rule => ({
+      guildId: targetGuildId,
+      type: rule.type,
+      pointThreshold: rule.pointThreshold,
+      durationMinutes: rule.durationMinutes,
+      slowmodeSeconds: rule.slowmodeSeconds,
+      ruleId: rule.ruleId === null ? null : copiedRuleIds.get(rule.ruleId)!,
+      isActive: rule.isActive,
+    })));
+  }
+
+  const sourceTemplate = await db.query.aiPromptTemplates.findFirst({
+    where: (templates, { and }) => and(
+      eq(templates.guildId, sourceGuildId),
+      eq(templates.isActive, true),
+    ),
+  });
+
+  if (sourceTemplate) {
+    const existingTemplate = await db.query.aiPromptTemplates.findFirst({
+      where: eq(aiPromptTemplates.guildId, targetGuildId),
+    });
+
+    const [template] = await db.insert(aiPromptTemplates)
+      .values({
+        guildId: targetGuildId,
+        name: sourceTemplate.name,
+        systemPrompt: sourceTemplate.systemPrompt,
+        isActive: !existingTemplate,
+      })
+      .returning();
+
+    await db.insert(aiPromptHistory)
+      .values({
+        templateId: template.id,
+        systemPrompt: template.systemPrompt,
+        reason: `Copied from guild ${sourceGuildId}`,
+      });
+  }
+}
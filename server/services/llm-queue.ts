@@ -0,0 +1,120 @@
+// How many completions may be in flight at once, and how many may wait
+const MAX_CONCURRENCY = parseInt(process.env.LLM_CONCURRENCY ?? "") || 4;
+const MAX_QUEUED = parseInt(process.env.LLM_MAX_QUEUED ?? "") || 200;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+
+/**
+ * A failure worth retrying: rate limits, provider overload and timeouts. A
+ * 429 pauses the whole queue for `retryAfterMs`, anything else only retries
+ * the failed request after a backoff.
+ */
+export class LLMRetryableError extends Error {
+  constructor(message: string, readonly status: number | null, readonly retryAfterMs: number | null = null) {
+    super(message);
+    this.name = "LLMRetryableError";
+  }
+}
+
+export class LLMQueueFullError extends Error {
+  constructor() {
+    super("Too many AI requests are waiting. Try again shortly.");
+    this.name = "LLMQueueFullError";
+  }
+}
+
+interface Job {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  attempts: number;
+}
+
+const queue: Job[] = [];
+let active = 0;
+let pausedUntil = 0;
+let resumeTimer: NodeJS.Timeout | null = null;
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function scheduleResume() {
+  if (resumeTimer) {
+    return;
+  }
+  resumeTimer = setTimeout(() => {
+    resumeTimer = null;
+    drain();
+  }, Math.max(0, pausedUntil - Date.now()));
+}
+
+function handleFailure(job: Job, error: unknown) {
+  if (!(error instanceof LLMRetryableError) || job.attempts >= MAX_ATTEMPTS) {
+    job.reject(error);
+    return;
+  }
+
+  const delay = Math.min(error.retryAfterMs ?? BASE_BACKOFF_MS * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+  job.attempts++;
+
+  if (error.status === 429) {
+    // The limit is shared, so every waiting request backs off, not just this one
+    pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+    console.warn('LLM provider rate limited, pausing requests:', { delayMs: delay, queued: queue.length + 1 });
+    queue.unshift(job);
+    return;
+  }
+
+  console.warn('Retrying LLM request:', { attempt: job.attempts, delayMs: delay, error: error.message });
+  setTimeout(() => {
+    queue.unshift(job);
+    drain();
+  }, delay);
+}
+
+function drain() {
+  if (Date.now() < pausedUntil) {
+    if (queue.length > 0) {
+      scheduleResume();
+    }
+    return;
+  }
+
+  while (active < MAX_CONCURRENCY && queue.length > 0) {
+    const job = queue.shift()!;
+    active++;
+    job.run()
+      .then(job.resolve, error => handleFailure(job, error))
+      .finally(() => {
+        active--;
+        drain();
+      });
+  }
+}
+
+/**
+ * Runs an LLM request through the shared queue. At most MAX_CONCURRENCY run
+ * at once; when MAX_QUEUED are already waiting the request is rejected rather
+ * than piling up behind a rate limit.
+ */
+export function enqueueLLMRequest<T>(run: () => Promise<T>): Promise<T> {
+  if (queue.length >= MAX_QUEUED) {
+    return Promise.reject(new LLMQueueFullError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    queue.push({ run, resolve: value => resolve(value as T), reject, attempts: 1 });
+    drain();
+  });
+}
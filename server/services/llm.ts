@@ -0,0 +1,350 @@
+import OpenAI from "openai";
+import * as z from "zod";
+import { db } from "@db";
+import type { SelectOpenAISettings } from "@db/schema";
+import { decryptSecret } from "../secrets";
+import { enqueueLLMRequest, parseRetryAfter, LLMRetryableError } from "./llm-queue";
+
+export type LLMProviderId = "openai" | "anthropic" | "openrouter" | "compatible";
+
+export interface LLMProviderInfo {
+  id: LLMProviderId;
+  name: string;
+  description: string;
+  defaultBaseUrl: string | null; // null = must be configured
+  defaultModel: string;
+  requiresApiKey: boolean;
+}
+
+// Providers offered in the settings page
+export const LLM_PROVIDERS: LLMProviderInfo[] = [
+  {
+    id: "openai",
+    name: "OpenAI",
+    description: "OpenAI's hosted models.",
+    defaultBaseUrl: "https://api.openai.com/v1",
+    defaultModel: "gpt-4o-mini",
+    requiresApiKey: true,
+  },
+  {
+    id: "anthropic",
+    name: "Anthropic",
+    description: "Claude models through the Anthropic Messages API.",
+    defaultBaseUrl: "https://api.anthropic.com/v1",
+    defaultModel: "claude-3-5-haiku-latest",
+    requiresApiKey: true,
+  },
+  {
+    id: "openrouter",
+    name: "OpenRouter",
+    description: "Models from many vendors through one OpenAI-compatible API.",
+    defaultBaseUrl: "https://openrouter.ai/api/v1",
+    defaultModel: "openai/gpt-4o-mini",
+    requiresApiKey: true,
+  },
+  {
+    id: "compatible",
+    name: "OpenAI-compatible",
+    description: "Any OpenAI-compatible endpoint, such as a self-hosted llama.cpp, vLLM or Ollama server.",
+    defaultBaseUrl: null,
+    defaultModel: "",
+    requiresApiKey: false,
+  },
+];
+
+export type LLMConfig = Pick<
+  SelectOpenAISettings,
+  "provider" | "apiKey" | "baseUrl" | "model" | "visionModel" | "temperature" | "timeoutMs" | "maxTokens" |
+  "batchSize" | "batchWindowMs"
+>;
+
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  json?: boolean; // ask for a JSON object where the provider supports it
+  images?: string[]; // image URLs sent with the user message, using the vision model
+  maxTokens?: number; // overrides the configured limit
+}
+
+interface LLMProvider {
+  complete(config: LLMConfig, request: CompletionRequest): Promise<string>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_BATCH_WINDOW_MS = 500;
+const MAX_BATCH_SIZE = 20;
+const MAX_BATCH_WINDOW_MS = 10000;
+// Settings are read for every message, so they're cached and refreshed on save
+const SETTINGS_CACHE_TTL_MS = 60 * 1000;
+
+// Anthropic requires max_tokens on every request
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 1024;
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export function getProviderInfo(providerId: string): LLMProviderInfo | undefined {
+  return LLM_PROVIDERS.find(provider => provider.id === providerId);
+}
+
+function resolveModel(config: LLMConfig, request: CompletionRequest): string {
+  return request.images?.length ? config.visionModel || config.model : config.model;
+}
+
+function resolveBaseUrl(config: LLMConfig): string {
+  const baseUrl = config.baseUrl || getProviderInfo(config.provider)?.defaultBaseUrl;
+  if (!baseUrl) {
+    throw new Error("Base URL not configured");
+  }
+  return baseUrl.replace(/\/+$/, "");
+}
+
+const openAICompatibleProvider: LLMProvider = {
+  async complete(config, request) {
+    const client = new OpenAI({
+      // The SDK insists on a key; self-hosted servers ignore it
+      apiKey: config.apiKey || "not-needed",
+      baseURL: resolveBaseUrl(config),
+      timeout: config.timeoutMs,
+      maxRetries: 0,
+    });
+
+    const response = await client.chat.completions.create({
+      model: resolveModel(config, request),
+      messages: [
+        { role: "system", content: request.system },
+        {
+          role: "user",
+          content: request.images?.length
+            ? [
+              { type: "text", text: request.user },
+              ...request.images.map(url => ({ type: "image_url" as const, image_url: { url } })),
+            ]
+            : request.user,
+        },
+      ],
+      temperature: config.temperature ?? undefined,
+      max_tokens: request.maxTokens ?? config.maxTokens ?? undefined,
+      response_format: request.json ? { type: "json_object" } : undefined,
+    }).catch(error => {
+      throw toRetryableError(error);
+    });
+
+    return response.choices[0]?.message.content ?? "";
+  },
+};
+
+// Rate limits, overloaded providers and timeouts are worth another try
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function toRetryableError(error: unknown): unknown {
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new LLMRetryableError(error.message, null);
+  }
+  if (error instanceof OpenAI.APIError && error.status && isRetryableStatus(error.status)) {
+    return new LLMRetryableError(error.message, error.status, parseRetryAfter(error.headers?.["retry-after"]));
+  }
+  return error;
+}
+
+const anthropicProvider: LLMProvider = {
+  async complete(config, request) {
+    const response = await fetch(`${resolveBaseUrl(config)}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": config.apiKey ?? "",
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: resolveModel(config, request),
+        system: request.system,
+        messages: [{
+          role: "user",
+          content: request.images?.length
+            ? [
+              ...request.images.map(url => ({ type: "image", source: { type: "url", url } })),
+              { type: "text", text: request.user },
+            ]
+            : request.user,
+        }],
+        temperature: config.temperature ?? undefined,
+        max_tokens: request.maxTokens ?? config.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+      }),
+      signal: AbortSignal.timeout(config.timeoutMs),
+    }).catch(error => {
+      throw error?.name === "TimeoutError" ? new LLMRetryableError("Anthropic API request timed out", null) : error;
+    });
+
+    if (!response.ok) {
+      const message = `Anthropic API error (${response.status}): ${await response.text()}`;
+      if (isRetryableStatus(response.status)) {
+        throw new LLMRetryableError(message, response.status, parseRetryAfter(response.headers.get("retry-after")));
+      }
+      throw new Error(message);
+    }
+
+    const data = await response.json() as { content?: { type: string; text?: string }[] };
+    return data.content?.find(block => block.type === "text")?.text ?? "";
+  },
+};
+
+function getProvider(providerId: string): LLMProvider {
+  const info = getProviderInfo(providerId);
+  if (!info) {
+    throw new Error(`Unknown LLM provider: ${providerId}`);
+  }
+  return info.id === "anthropic" ? anthropicProvider : openAICompatibleProvider;
+}
+
+// Returns a problem with the config, or null when it is usable
+export function validateLLMConfig(config: LLMConfig): string | null {
+  const info = getProviderInfo(config.provider);
+  if (!info) {
+    return `Unknown LLM provider: ${config.provider}`;
+  }
+  if (info.requiresApiKey && !config.apiKey) {
+    return `${info.name} requires an API key`;
+  }
+  if (!config.baseUrl && !info.defaultBaseUrl) {
+    return "Base URL is required for this provider";
+  }
+  if (config.baseUrl && !URL.canParse(config.baseUrl)) {
+    return "Base URL must be a valid URL";
+  }
+  if (!config.model) {
+    return "Model is required";
+  }
+  if (config.temperature !== null &&
+    (typeof config.temperature !== "number" || config.temperature < 0 || config.temperature > 2)) {
+    return "Temperature must be between 0 and 2";
+  }
+  if (!Number.isInteger(config.timeoutMs) || config.timeoutMs < 1000) {
+    return "Timeout must be at least 1000 ms";
+  }
+  if (config.maxTokens !== null && (!Number.isInteger(config.maxTokens) || config.maxTokens < 1)) {
+    return "Max tokens must be a positive whole number";
+  }
+  if (!Number.isInteger(config.batchSize) || config.batchSize < 1 || config.batchSize > MAX_BATCH_SIZE) {
+    return `Batch size must be between 1 and ${MAX_BATCH_SIZE}`;
+  }
+  if (!Number.isInteger(config.batchWindowMs) || config.batchWindowMs < 0 || config.batchWindowMs > MAX_BATCH_WINDOW_MS) {
+    return `Batch window must be between 0 and ${MAX_BATCH_WINDOW_MS} ms`;
+  }
+  return null;
+}
+
+// Settings form input. Omitted fields keep their saved value; null clears the optional ones.
+export const llmConfigInputSchema = z.object({
+  provider: z.string({ invalid_type_error: "Provider must be a string" }).optional(),
+  apiKey: z.string({ invalid_type_error: "API key must be a string" }).nullish(),
+  baseUrl: z.string({ invalid_type_error: "Base URL must be a string" }).nullish(),
+  model: z.string({ invalid_type_error: "Model must be a string" }).nullish(),
+  visionModel: z.string({ invalid_type_error: "Vision model must be a string" }).nullish(),
+  temperature: z.number({ invalid_type_error: "Temperature must be a number" }).nullish(),
+  timeoutMs: z.number({ invalid_type_error: "Timeout must be a number" }).optional(),
+  maxTokens: z.number({ invalid_type_error: "Max tokens must be a number" }).nullish(),
+  batchSize: z.number({ invalid_type_error: "Batch size must be a number" }).optional(),
+  batchWindowMs: z.number({ invalid_type_error: "Batch window must be a number" }).optional(),
+});
+
+export type LLMConfigInput = z.infer<typeof llmConfigInputSchema>;
+
+/**
+ * Builds a config from settings form input, keeping saved values for fields
+ * the input leaves out. The API key and base URL are only kept while the
+ * provider is unchanged, since the key is never sent back to the client.
+ */
+export function buildLLMConfig(input: LLMConfigInput, existing?: LLMConfig): LLMConfig {
+  const provider = input.provider || existing?.provider || "openai";
+  const sameProvider = existing?.provider === provider;
+
+  return {
+    provider,
+    apiKey: input.apiKey || (sameProvider ? existing.apiKey : null) || null,
+    baseUrl: input.baseUrl === undefined ? (sameProvider ? existing.baseUrl : null) : input.baseUrl || null,
+    model: input.model || getProviderInfo(provider)?.defaultModel || "",
+    visionModel: input.visionModel || null,
+    temperature: input.temperature === undefined ? existing?.temperature ?? null : input.temperature,
+    timeoutMs: input.timeoutMs ?? existing?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxTokens: input.maxTokens === undefined ? existing?.maxTokens ?? null : input.maxTokens,
+    batchSize: input.batchSize ?? existing?.batchSize ?? 1,
+    batchWindowMs: input.batchWindowMs ?? existing?.batchWindowMs ?? DEFAULT_BATCH_WINDOW_MS,
+  };
+}
+
+// Strips a settings row down to the fields that configure the provider
+export function pickLLMConfig(settings: LLMConfig): LLMConfig {
+  return {
+    provider: settings.provider,
+    apiKey: settings.apiKey,
+    baseUrl: settings.baseUrl,
+    model: settings.model,
+    visionModel: settings.visionModel,
+    temperature: settings.temperature,
+    timeoutMs: settings.timeoutMs,
+    maxTokens: settings.maxTokens,
+    batchSize: settings.batchSize,
+    batchWindowMs: settings.batchWindowMs,
+  };
+}
+
+// The current settings row, with the API key decrypted
+export async function getLLMSettings(): Promise<SelectOpenAISettings | undefined> {
+  const settings = await db.query.openaiSettings.findFirst({
+    orderBy: (openaiSettings, { desc }) => [desc(openaiSettings.createdAt)],
+  });
+  return settings && { ...settings, apiKey: settings.apiKey && decryptSecret(settings.apiKey) };
+}
+
+let cachedConfig: { config: LLMConfig; expiresAt: number } | null = null;
+
+// Call after the settings change so the next request picks them up
+export function invalidateLLMConfigCache() {
+  cachedConfig = null;
+}
+
+// The saved provider config, cached for SETTINGS_CACHE_TTL_MS
+export async function getLLMConfig(): Promise<LLMConfig> {
+  if (cachedConfig && cachedConfig.expiresAt > Date.now()) {
+    return cachedConfig.config;
+  }
+
+  const settings = await getLLMSettings();
+  if (!settings) {
+    throw new Error("LLM provider not configured");
+  }
+
+  cachedConfig = { config: pickLLMConfig(settings), expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS };
+  return cachedConfig.config;
+}
+
+/**
+ * Sends one system/user exchange to the configured provider and returns the
+ * text of the reply. Requests share a bounded queue that limits concurrency
+ * and backs off on rate limits.
+ */
+export async function complete(request: CompletionRequest, config?: LLMConfig): Promise<string> {
+  const resolvedConfig = config ?? await getLLMConfig();
+
+  const problem = validateLLMConfig(resolvedConfig);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const provider = getProvider(resolvedConfig.provider);
+  return enqueueLLMRequest(() => provider.complete(resolvedConfig, request));
+}
+
+// Makes a minimal request and reports how long the round trip took
+export async function testLLMConnection(config?: LLMConfig): Promise<{ latencyMs: number }> {
+  const startedAt = Date.now();
+
+  await complete({
+    system: "You are a connection test.",
+    user: "Reply with OK.",
+    maxTokens: 5,
+  }, config);
+
+  return { latencyMs: Date.now() - startedAt };
+}
@@ -0,0 +1,92 @@
+import { VISION_IMAGE_TYPES, type MediaAttachment, type SelectGuild } from "@db/schema";
+
+// Each image adds latency and cost to the vision request
+const MAX_MEDIA_PER_MESSAGE = 4;
+// Vision providers reject images above roughly 20 MB
+const MAX_MEDIA_BYTES = 20 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+const IMAGE_LINK_PATTERN = /https?:\/\/\S+\.(?:png|jpe?g|gif|webp)(?:\?\S*)?/gi;
+
+// Embeds and links don't report a content type, so it's guessed from the path
+export function guessContentType(url: string): string | null {
+  try {
+    const extension = new URL(url).pathname.split(".").pop()?.toLowerCase();
+    return (extension && IMAGE_EXTENSIONS[extension]) || null;
+  } catch {
+    return null;
+  }
+}
+
+// Direct image links in the message text, which Discord may not have unfurled yet
+export function extractImageLinks(content: string): MediaAttachment[] {
+  return (content.match(IMAGE_LINK_PATTERN) ?? []).map(url => ({
+    url,
+    name: null,
+    contentType: guessContentType(url),
+    size: null,
+    source: "link",
+  }));
+}
+
+/**
+ * Picks the images that should go to the vision model: nothing unless the
+ * guild has media moderation on, then only allowlisted types within the size
+ * limit. Media of unknown size is let through since most of it is small.
+ */
+export function selectMediaForModeration(guild: SelectGuild, candidates: MediaAttachment[]): MediaAttachment[] {
+  if (!guild.mediaModeration) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return candidates
+    .filter(media => {
+      const contentType = media.contentType?.split(";")[0].trim().toLowerCase();
+      if (!contentType || !guild.mediaContentTypes.includes(contentType)) {
+        return false;
+      }
+      if (media.size !== null && media.size > guild.mediaMaxBytes) {
+        return false;
+      }
+      if (seen.has(media.url)) {
+        return false;
+      }
+      seen.add(media.url);
+      return true;
+    })
+    .slice(0, MAX_MEDIA_PER_MESSAGE);
+}
+
+// Returns a problem with the media settings, or null when they are valid
+export function validateMediaSettings(settings: {
+  mediaModeration?: unknown;
+  mediaMaxBytes?: unknown;
+  mediaContentTypes?: unknown;
+}): string | null {
+  if (settings.mediaModeration !== undefined && typeof settings.mediaModeration !== "boolean") {
+    return "mediaModeration must be a boolean";
+  }
+  if (settings.mediaMaxBytes !== undefined &&
+    (!Number.isInteger(settings.mediaMaxBytes) || (settings.mediaMaxBytes as number) < 1 ||
+      (settings.mediaMaxBytes as number) > MAX_MEDIA_BYTES)) {
+    return `Maximum attachment size must be between 1 byte and ${MAX_MEDIA_BYTES / 1024 / 1024} MB`;
+  }
+  if (settings.mediaContentTypes !== undefined) {
+    if (!Array.isArray(settings.mediaContentTypes) || settings.mediaContentTypes.length === 0) {
+      return "Allow at least one attachment type";
+    }
+    const unsupported = settings.mediaContentTypes.filter(type => !VISION_IMAGE_TYPES.includes(type));
+    if (unsupported.length > 0) {
+      return `Vision models can't read ${unsupported.join(", ")}. Supported types: ${VISION_IMAGE_TYPES.join(", ")}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,382 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  type ButtonInteraction,
+  type HexColorString,
+  type Interaction,
+  type ModalSubmitInteraction,
+} from "discord.js";
+import { db } from "@db";
+import { warnings, type PunishmentType, type SelectGuild, type SelectPunishment, type SelectWarning, type SelectWarningLevel } from "@db/schema";
+import { and, eq } from "drizzle-orm";
+import { sendModLog } from "./discord";
+import { isModerator } from "./commands";
+import { pardonWarning } from "./violations";
+import { setWatchlisted } from "./watchlist";
+import { formatDuration } from "./punishments";
+import { discordActor, type AuditActor } from "./audit";
+
+const PARDON_BUTTON_PREFIX = "modlog_pardon:";
+const PARDON_MODAL_PREFIX = "modlog_pardon_modal:";
+const PARDON_REASON_FIELD = "pardon_reason";
+const ESCALATE_BUTTON_PREFIX = "modlog_escalate:";
+
+const PUNISHMENT_COLOR: HexColorString = "#ED4245";
+const REVERSAL_COLOR: HexColorString = "#57F287";
+const REMOVAL_COLOR: HexColorString = "#FEE75C";
+
+const PUNISHMENT_TITLES: Record<PunishmentType, string> = {
+  notify: "User notified",
+  slowmode: "User slowed down",
+  mute: "User timed out",
+  add_role: "Role added",
+  remove_role: "Role removed",
+  kick: "User kicked",
+  temp_ban: "User temporarily banned",
+  ban: "User banned",
+};
+
+function logError(context: string, error: unknown) {
+  console.error(`[Mod Log] ${context}:`, error);
+}
+
+// Embed field values are capped at 1024 characters
+function truncate(text: string, length = 1024): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function formatTimestamp(date: Date): string {
+  return `<t:${Math.floor(date.getTime() / 1000)}:f>`;
+}
+
+// Links to the dashboard's history, searched for the user, when DASHBOARD_URL is set
+function dashboardUrl(username: string | null): string | null {
+  const baseUrl = process.env.DASHBOARD_URL?.replace(/\/+$/, "");
+  if (!baseUrl) {
+    return null;
+  }
+  return username ? `${baseUrl}/history?search=${encodeURIComponent(username)}` : `${baseUrl}/history`;
+}
+
+// Pardon, Escalate and Open in dashboard, leaving out whichever doesn't apply
+function createActionRow(userId: string, username: string | null, warningId: number | null) {
+  const buttons: ButtonBuilder[] = [];
+  if (warningId) {
+    buttons.push(new ButtonBuilder()
+      .setCustomId(`${PARDON_BUTTON_PREFIX}${warningId}`)
+      .setLabel('Pardon')
+      .setStyle(ButtonStyle.Success));
+  }
+  buttons.push(new ButtonBuilder()
+    .setCustomId(`${ESCALATE_BUTTON_PREFIX}${userId}`)
+    .setLabel('Escalate')
+    .setStyle(ButtonStyle.Danger));
+
+  const url = dashboardUrl(username);
+  if (url) {
+    buttons.push(new ButtonBuilder()
+      .setLabel('Open in dashboard')
+      .setStyle(ButtonStyle.Link)
+      .setURL(url));
+  }
+
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(buttons);
+}
+
+function userField(userId: string, username: string | null) {
+  return { name: 'User', value: username ? `<@${userId}> (${username})` : `<@${userId}>`, inline: true };
+}
+
+// Where the message was: a jump link while it still exists, otherwise just the channel
+function channelField(channelId: string | null, messageUrl: string | null) {
+  if (!channelId) {
+    return null;
+  }
+  return {
+    name: 'Channel',
+    value: messageUrl ? `<#${channelId}> • [Jump to message](${messageUrl})` : `<#${channelId}>`,
+    inline: true,
+  };
+}
+
+export interface WarningLogEntry {
+  warning: SelectWarning;
+  level: SelectWarningLevel;
+  username: string;
+  totalPoints: number;
+  confidence?: number; // the AI's confidence, absent for spam detection and manual warnings
+  messageUrl: string | null; // null once the message is deleted
+  punishment: string | null;
+  actor: AuditActor;
+}
+
+// Posts a warning to the mod-log with the message, where it was, why and how sure the AI was
+export async function logWarning(guild: SelectGuild, entry: WarningLogEntry): Promise<boolean> {
+  const { warning } = entry;
+  const embed = new EmbedBuilder()
+    .setColor(entry.level.color as HexColorString)
+    .setTitle(`Warning #${warning.id}: ${entry.level.name}`)
+    .addFields(
+      userField(warning.userId, entry.username),
+      { name: 'Points', value: `+${warning.points} (total: ${entry.totalPoints})`, inline: true },
+      { name: 'Confidence', value: entry.confidence !== undefined ? `${Math.round(entry.confidence * 100)}%` : "Not from the AI", inline: true },
+      { name: 'Verdict', value: truncate(warning.ruleTriggered) },
+      { name: 'Message', value: truncate(warning.messageContent) || "*No text*" },
+    )
+    .setFooter({ text: `Issued by ${entry.actor.name}` })
+    .setTimestamp(warning.createdAt);
+
+  const channel = channelField(warning.channelId, entry.messageUrl);
+  if (channel) {
+    embed.addFields(channel);
+  }
+  embed.addFields({ name: 'Message Deleted', value: warning.messageDeleted ? "Yes" : "No", inline: true });
+  if (entry.punishment) {
+    embed.addFields({ name: 'Punishment', value: entry.punishment, inline: true });
+  }
+
+  return sendModLog(guild, {
+    embeds: [embed],
+    components: [createActionRow(warning.userId, entry.username, warning.id)],
+  });
+}
+
+export interface RemovalLogEntry {
+  userId: string;
+  username: string;
+  channelId: string;
+  content: string;
+  reason: string;
+}
+
+// Posts a message the bot removed without warning for it, e.g. during raid mode or slowmode
+export async function logRemovedMessage(guild: SelectGuild, entry: RemovalLogEntry): Promise<boolean> {
+  const embed = new EmbedBuilder()
+    .setColor(REMOVAL_COLOR)
+    .setTitle('Message removed')
+    .addFields(
+      userField(entry.userId, entry.username),
+      { name: 'Channel', value: `<#${entry.channelId}>`, inline: true },
+      { name: 'Reason', value: truncate(entry.reason) },
+      { name: 'Message', value: truncate(entry.content) || "*No text*" },
+    )
+    .setTimestamp();
+
+  return sendModLog(guild, {
+    embeds: [embed],
+    components: [createActionRow(entry.userId, entry.username, null)],
+  });
+}
+
+export interface PunishmentLogEntry {
+  userId: string;
+  username: string | null;
+  type: PunishmentType;
+  reason: string;
+  durationMinutes: number | null;
+  expiresAt: Date | null;
+  roleId: string | null;
+  totalPoints: number;
+  warningId: number | null; // the warning that led to it, so it can be pardoned from here
+  actor: AuditActor;
+}
+
+export async function logPunishment(guild: SelectGuild, entry: PunishmentLogEntry): Promise<boolean> {
+  const embed = new EmbedBuilder()
+    .setColor(PUNISHMENT_COLOR)
+    .setTitle(PUNISHMENT_TITLES[entry.type])
+    .addFields(
+      userField(entry.userId, entry.username),
+      { name: 'Total Points', value: entry.totalPoints.toString(), inline: true },
+      { name: 'Reason', value: truncate(entry.reason) },
+    )
+    .setFooter({ text: `Applied by ${entry.actor.name}` })
+    .setTimestamp();
+
+  if (entry.roleId) {
+    embed.addFields({ name: 'Role', value: `<@&${entry.roleId}>`, inline: true });
+  }
+  if (entry.durationMinutes) {
+    embed.addFields({ name: 'Duration', value: formatDuration(entry.durationMinutes), inline: true });
+  }
+  if (entry.expiresAt) {
+    embed.addFields({ name: 'Ends', value: formatTimestamp(entry.expiresAt), inline: true });
+  }
+  if (entry.warningId) {
+    embed.addFields({ name: 'Warning', value: `#${entry.warningId}`, inline: true });
+  }
+
+  return sendModLog(guild, {
+    embeds: [embed],
+    components: [createActionRow(entry.userId, entry.username, entry.warningId)],
+  });
+}
+
+// Posts the punishments reversed because a user's points dropped below their thresholds
+export async function logReversal(
+  guild: SelectGuild,
+  reversed: SelectPunishment[],
+  totalPoints: number,
+  actor: AuditActor
+): Promise<boolean> {
+  if (!reversed.length) {
+    return false;
+  }
+
+  const userId = reversed[0].userId;
+  const embed = new EmbedBuilder()
+    .setColor(REVERSAL_COLOR)
+    .setTitle(reversed.length === 1 ? 'Punishment reversed' : `${reversed.length} punishments reversed`)
+    .addFields(
+      userField(userId, null),
+      { name: 'Total Points', value: totalPoints.toString(), inline: true },
+      {
+        name: 'Reversed',
+        value: truncate(reversed
+          .map(punishment => `${PUNISHMENT_TITLES[punishment.type]} on ${formatTimestamp(punishment.createdAt)}`)
+          .join("\n")),
+      },
+    )
+    .setFooter({ text: `Reversed by ${actor.name}` })
+    .setTimestamp();
+
+  return sendModLog(guild, {
+    embeds: [embed],
+    components: [createActionRow(userId, null, null)],
+  });
+}
+
+// Parses the id out of a button or modal custom id
+function parseId(customId: string, prefix: string): string {
+  return customId.slice(prefix.length);
+}
+
+// Returns why the warning can't be pardoned, or null when it can
+async function checkCanPardon(warningId: number, guildId: string): Promise<string | null> {
+  const warning = await db.query.warnings.findFirst({
+    where: and(eq(warnings.id, warningId), eq(warnings.guildId, guildId)),
+  });
+
+  if (!warning) {
+    return `Warning #${warningId} not found.`;
+  }
+  if (warning.messageIgnored) {
+    return `Warning #${warningId} has already been pardoned.`;
+  }
+  return null;
+}
+
+async function handlePardonButton(interaction: ButtonInteraction<"cached">) {
+  const warningId = Number(parseId(interaction.customId, PARDON_BUTTON_PREFIX));
+  if (!Number.isInteger(warningId) || warningId < 1) {
+    return;
+  }
+
+  const problem = await checkCanPardon(warningId, interaction.guildId);
+  if (problem) {
+    await interaction.reply({ content: problem, ephemeral: true });
+    return;
+  }
+
+  // Pardons need a reason, the same as on the dashboard and with /pardon
+  const modal = new ModalBuilder()
+    .setCustomId(`${PARDON_MODAL_PREFIX}${warningId}`)
+    .setTitle(`Pardon Warning #${warningId}`)
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId(PARDON_REASON_FIELD)
+          .setLabel('Why is this warning being pardoned?')
+          .setStyle(TextInputStyle.Paragraph)
+          .setMaxLength(500)
+          .setRequired(true)
+      )
+    );
+
+  await interaction.showModal(modal);
+}
+
+async function handlePardonModal(interaction: ModalSubmitInteraction<"cached">) {
+  const warningId = Number(parseId(interaction.customId, PARDON_MODAL_PREFIX));
+  if (!Number.isInteger(warningId) || warningId < 1) {
+    return;
+  }
+
+  // Checked again in case another moderator pardoned it while the modal was open
+  const problem = await checkCanPardon(warningId, interaction.guildId);
+  if (problem) {
+    await interaction.reply({ content: problem, ephemeral: true });
+    return;
+  }
+
+  const reason = interaction.fields.getTextInputValue(PARDON_REASON_FIELD);
+  const result = await pardonWarning(warningId, interaction.guildId, discordActor(interaction.user, "moderator"), reason);
+  if (!result) {
+    await interaction.reply({ content: `Warning #${warningId} not found.`, ephemeral: true });
+    return;
+  }
+
+  console.log('Warning pardoned from the mod-log:', { warningId, moderatorId: interaction.user.id });
+
+  await interaction.reply({
+    content: `<@${interaction.user.id}> pardoned warning #${warningId}: ${reason}\nThe user now has ${result.totalPoints} points.`,
+    allowedMentions: { parse: [] },
+  });
+}
+
+async function handleEscalateButton(interaction: ButtonInteraction<"cached">) {
+  const userId = parseId(interaction.customId, ESCALATE_BUTTON_PREFIX);
+  if (!/^\d+$/.test(userId)) {
+    return;
+  }
+
+  const user = await setWatchlisted(interaction.guildId, userId, true, discordActor(interaction.user, "moderator"));
+  if (!user) {
+    await interaction.reply({ content: "That user has no moderation history here yet.", ephemeral: true });
+    return;
+  }
+
+  await interaction.reply({
+    content: `<@${interaction.user.id}> escalated <@${userId}>: they're on the watchlist, so messages they delete are kept for review.`,
+    allowedMentions: { parse: [] },
+  });
+}
+
+// Handles the Pardon and Escalate buttons on mod-log posts, for moderators only
+export async function handleModLogInteraction(interaction: Interaction) {
+  const isModLogButton = interaction.isButton() &&
+    (interaction.customId.startsWith(PARDON_BUTTON_PREFIX) || interaction.customId.startsWith(ESCALATE_BUTTON_PREFIX));
+  const isModLogModal = interaction.isModalSubmit() && interaction.customId.startsWith(PARDON_MODAL_PREFIX);
+  if ((!isModLogButton && !isModLogModal) || !interaction.inCachedGuild()) {
+    return;
+  }
+
+  try {
+    if (!await isModerator(interaction.member)) {
+      await interaction.reply({ content: "You need the moderator role to do that.", ephemeral: true });
+      return;
+    }
+
+    if (interaction.isButton() && interaction.customId.startsWith(PARDON_BUTTON_PREFIX)) {
+      await handlePardonButton(interaction);
+    } else if (interaction.isButton()) {
+      await handleEscalateButton(interaction);
+    } else if (interaction.isModalSubmit()) {
+      await handlePardonModal(interaction);
+    }
+  } catch (error) {
+    logError('Failed to handle mod-log action', error);
+    if (!interaction.replied && !interaction.deferred) {
+      try {
+        await interaction.reply({ content: "Something went wrong. Try again from the dashboard.", ephemeral: true });
+      } catch (replyError) {
+        logError('Failed to report mod-log error', replyError);
+      }
+    }
+  }
+}
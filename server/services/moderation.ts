@@ -1,80 +1,121 @@
+import { db } from "@db";
+import { rules, type MediaAttachment, type ModerationStrictness, type SelectRule, type SelectWarningLevel } from "@db/schema";
+import { and, eq } from "drizzle-orm";
 import { analyzeContent, type AnalysisResult } from "./openai";
+import { runPrefilter } from "./prefilter";
 
 interface MessageContext {
   author: string;
   content: string;
 }
 
-interface WarningResult {
-  warningLevel: "none" | "yellow" | "orange" | "red";
+export interface WarningResult {
+  warningLevel: SelectWarningLevel | null; // null when no violation was found
+  rule: SelectRule | null;
   ruleTriggered: string;
   deleteMessage: boolean;
   points: number;
+  confidence: number; // 0-1
 }
 
-const WARNING_CONFIGS = {
-  yellow: {
-    points: 1,
-    deleteMessage: false,
-  },
-  orange: {
-    points: 3,
-    deleteMessage: true,
-  },
-  red: {
-    points: 5,
-    deleteMessage: true,
-  },
+const NO_WARNING: WarningResult = {
+  warningLevel: null,
+  rule: null,
+  ruleTriggered: "",
+  deleteMessage: false,
+  points: 0,
+  confidence: 0,
 };
 
-type WarningLevel = keyof typeof WARNING_CONFIGS;
+// Models report confidence either as 0-1 or as a percentage
+function normalizeConfidence(confidence: number): number {
+  const value = Number(confidence);
+  if (!Number.isFinite(value) || value < 0) {
+    return 0;
+  }
+  return value > 1 ? Math.min(value / 100, 1) : value;
+}
 
-function mapAnalysisToWarning(analysis: AnalysisResult): WarningResult {
+// Resolves the rule the AI cited back to the guild's configured warning level
+async function mapAnalysisToWarning(analysis: AnalysisResult, guildId: string): Promise<WarningResult> {
   // If no violation detected, return none
   if (!analysis.violation.detected) {
-    return {
-      warningLevel: "none",
-      ruleTriggered: "",
-      deleteMessage: false,
-      points: 0,
-    };
+    return NO_WARNING;
   }
 
-  // Map the warning level from the OpenAI response
-  const warningLevel = analysis.violation.levelName?.toLowerCase() as WarningLevel | "none";
+  // Models sometimes return the id as a string
+  const ruleId = Number(analysis.violation.ruleId);
+  if (analysis.violation.ruleId == null || !Number.isInteger(ruleId)) {
+    console.warn('Violation reported without a valid rule id:', analysis.violation);
+    return NO_WARNING;
+  }
 
-  // If invalid warning level, default to none
-  if (!warningLevel || !(warningLevel in WARNING_CONFIGS)) {
-    console.warn('Invalid warning level received:', warningLevel);
-    return {
-      warningLevel: "none",
-      ruleTriggered: "",
-      deleteMessage: false,
-      points: 0,
-    };
+  const rule = await db.query.rules.findFirst({
+    where: and(
+      eq(rules.id, ruleId),
+      eq(rules.guildId, guildId)
+    ),
+    with: {
+      level: true,
+    },
+  });
+
+  if (!rule) {
+    console.warn('Unknown rule id received:', { ruleId, guildId });
+    return NO_WARNING;
   }
 
-  const config = WARNING_CONFIGS[warningLevel];
+  const { level, ...ruleFields } = rule;
 
   return {
-    warningLevel,
+    warningLevel: level,
+    rule: ruleFields,
     ruleTriggered: analysis.analysis.explanation,
-    points: config.points,
-    deleteMessage: config.deleteMessage,
+    points: level.points,
+    deleteMessage: level.deleteMessage,
+    confidence: normalizeConfidence(analysis.violation.confidence),
   };
 }
 
+// Verdicts the level isn't confident enough to enforce go to the review queue
+export function needsReview(warning: WarningResult): boolean {
+  return !!warning.warningLevel && warning.confidence < warning.warningLevel.confidenceThreshold;
+}
+
 export async function analyzeMessage(
   content: string,
-  context: MessageContext[]
+  context: MessageContext[],
+  guildId: string,
+  media: MediaAttachment[] = [],
+  strictness: ModerationStrictness = "standard"
 ): Promise<WarningResult> {
-  console.log('Analyzing message:', { content, contextLength: context.length });
+  console.log('Analyzing message:', { content, contextLength: context.length, media: media.length, guildId, strictness });
 
-  const analysis = await analyzeContent(content, context);
+  // Keyword, regex and domain rules are definitive and skip the LLM
+  const match = await runPrefilter(content, guildId);
+  if (match) {
+    console.log('Matched pattern rule:', { ruleId: match.rule.id, level: match.level.name, reason: match.reason });
+    return {
+      warningLevel: match.level,
+      rule: match.rule,
+      ruleTriggered: `${match.rule.name}: ${match.reason}`,
+      points: match.level.points,
+      deleteMessage: match.level.deleteMessage,
+      confidence: 1,
+    };
+  }
+
+  const analysis = await analyzeContent(content, context, guildId, media, strictness);
   console.log('Received analysis:', analysis);
 
-  const warning = mapAnalysisToWarning(analysis);
-  console.log('Mapped to warning:', warning);
+  const warning = await mapAnalysisToWarning(analysis, guildId);
+  console.log('Mapped to warning:', {
+    level: warning.warningLevel?.name ?? "none",
+    ruleId: warning.rule?.id ?? null,
+    points: warning.points,
+    deleteMessage: warning.deleteMessage,
+    confidence: warning.confidence,
+  });
 
   return warning;
-}
\ No newline at end of file
+}
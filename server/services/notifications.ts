@@ -0,0 +1,182 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder, type HexColorString } from "discord.js";
+import { PUNISHMENT_TYPES, type PunishmentType, type SelectGuild, type SelectWarningLevel, type WarningVisibility } from "@db/schema";
+import { sendDirectMessage } from "./discord";
+import { APPEAL_BUTTON_PREFIX } from "./appeals";
+import { formatDuration } from "./punishments";
+
+const MAX_TEMPLATE_LENGTH = 1500;
+const VISIBILITIES: WarningVisibility[] = ["public", "silent"];
+const PUNISHMENT_COLOR: HexColorString = "#ED4245";
+
+// Placeholders a template may use; anything else in braces is rejected when saving
+export const TEMPLATE_PLACEHOLDERS = [
+  "server", "level", "rule", "points", "total", "duration", "ends", "slowmode", "appeal",
+] as const;
+type TemplateValues = Partial<Record<typeof TEMPLATE_PLACEHOLDERS[number], string>>;
+
+export const DEFAULT_WARNING_TEMPLATE =
+  "You received a **{level}** warning in **{server}**.\n\n**Rule:** {rule}\n**Points:** +{points} (total: {total})\n\n{appeal}";
+
+export const DEFAULT_PUNISHMENT_TEMPLATES: Record<PunishmentType, string> = {
+  notify: "You now have {total} warning points in **{server}**. Further violations may lead to stronger action.",
+  slowmode: "You've been slowed down in **{server}** to one message every {slowmode} seconds until {ends}.",
+  mute: "You've been timed out in **{server}** until {ends}.",
+  add_role: "Your access in **{server}** has been restricted until {ends}.",
+  remove_role: "A role has been removed from you in **{server}** until {ends}.",
+  kick: "You've been kicked from **{server}** after reaching {total} warning points. You can rejoin, but further violations may lead to a ban.",
+  temp_ban: "You've been banned from **{server}** until {ends}.\n\n{appeal}",
+  ban: "You've been permanently banned from **{server}**.\n\n{appeal}",
+};
+
+function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: keyof TemplateValues) => values[key] ?? match);
+}
+
+// Discord renders this in the reader's own timezone
+function formatTimestamp(date: Date | null): string {
+  return date ? `<t:${Math.floor(date.getTime() / 1000)}:f>` : "further notice";
+}
+
+function appealComponents(warningId: number | null) {
+  if (!warningId) {
+    return [];
+  }
+  return [
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${APPEAL_BUTTON_PREFIX}${warningId}`)
+        .setLabel('Appeal')
+        .setStyle(ButtonStyle.Primary)
+    ),
+  ];
+}
+
+function appealText(warningId: number | null): string {
+  return warningId
+    ? "If you think this is a mistake, use the Appeal button below to ask the moderators to review it."
+    : "If you think this is a mistake, contact the server's moderators.";
+}
+
+export interface WarningNotice {
+  warningId: number;
+  level: SelectWarningLevel;
+  ruleTriggered: string;
+  totalPoints: number;
+}
+
+// DMs a user about a warning, with an Appeal button. Returns false when their DMs are closed.
+export async function notifyWarning(guild: SelectGuild, userId: string, notice: WarningNotice): Promise<boolean> {
+  const description = renderTemplate(notice.level.dmTemplate || DEFAULT_WARNING_TEMPLATE, {
+    server: guild.name,
+    level: notice.level.name,
+    rule: notice.ruleTriggered,
+    points: notice.level.points.toString(),
+    total: notice.totalPoints.toString(),
+    appeal: appealText(notice.warningId),
+  });
+
+  return sendDirectMessage(userId, {
+    embeds: [
+      new EmbedBuilder()
+        .setColor(notice.level.color as HexColorString)
+        .setTitle(`Warning in ${guild.name}`)
+        .setDescription(description),
+    ],
+    components: appealComponents(notice.warningId),
+  });
+}
+
+export interface PunishmentNotice {
+  type: PunishmentType;
+  durationMinutes: number | null;
+  expiresAt: Date | null;
+  slowmodeSeconds: number | null;
+  totalPoints: number;
+  warningId: number | null; // the warning that led to it, for the Appeal button
+}
+
+// DMs a user about a punishment. Returns false when their DMs are closed.
+export async function notifyPunishment(guild: SelectGuild, userId: string, notice: PunishmentNotice): Promise<boolean> {
+  const template = guild.punishmentDmTemplates[notice.type] || DEFAULT_PUNISHMENT_TEMPLATES[notice.type];
+  const description = renderTemplate(template, {
+    server: guild.name,
+    total: notice.totalPoints.toString(),
+    duration: notice.durationMinutes ? formatDuration(notice.durationMinutes) : "permanent",
+    ends: formatTimestamp(notice.expiresAt),
+    slowmode: notice.slowmodeSeconds?.toString() ?? "",
+    appeal: appealText(notice.warningId),
+  });
+
+  return sendDirectMessage(userId, {
+    embeds: [
+      new EmbedBuilder()
+        .setColor(PUNISHMENT_COLOR)
+        .setDescription(description),
+    ],
+    components: appealComponents(notice.warningId),
+  });
+}
+
+// Returns a problem with a DM template, or null when it is valid
+export function validateTemplate(template: unknown): string | null {
+  if (template === null || template === undefined || template === "") {
+    return null;
+  }
+  if (typeof template !== "string") {
+    return "Message template must be text";
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    return `Message template must be at most ${MAX_TEMPLATE_LENGTH} characters`;
+  }
+  const unknown = (template.match(/\{(\w+)\}/g) ?? [])
+    .find(placeholder => !TEMPLATE_PLACEHOLDERS.includes(placeholder.slice(1, -1) as typeof TEMPLATE_PLACEHOLDERS[number]));
+  if (unknown) {
+    return `Unknown placeholder ${unknown}. Use ${TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(", ")}`;
+  }
+  return null;
+}
+
+// Returns a problem with the notification settings, or null when they are valid
+export function validateNotificationSettings(
+  settings: {
+    dmNotifications?: unknown;
+    warningVisibility?: unknown;
+    modLogChannelId?: unknown;
+    punishmentDmTemplates?: unknown;
+  },
+  existing: Pick<SelectGuild, "warningVisibility" | "modLogChannelId"> | undefined
+): string | null {
+  if (settings.dmNotifications !== undefined && typeof settings.dmNotifications !== "boolean") {
+    return "dmNotifications must be a boolean";
+  }
+  if (settings.warningVisibility !== undefined && !VISIBILITIES.includes(settings.warningVisibility as WarningVisibility)) {
+    return `Warning visibility must be one of ${VISIBILITIES.join(", ")}`;
+  }
+  if (settings.modLogChannelId !== undefined && settings.modLogChannelId !== null &&
+    (typeof settings.modLogChannelId !== "string" || !/^\d+$/.test(settings.modLogChannelId))) {
+    return "Mod-log channel must be a Discord channel ID";
+  }
+  if (settings.punishmentDmTemplates !== undefined) {
+    const templates = settings.punishmentDmTemplates;
+    if (typeof templates !== "object" || templates === null || Array.isArray(templates)) {
+      return "Punishment templates must map punishment types to messages";
+    }
+    for (const [type, template] of Object.entries(templates)) {
+      if (!PUNISHMENT_TYPES.includes(type as PunishmentType)) {
+        return `Unknown punishment type ${type}`;
+      }
+      const problem = validateTemplate(template);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+
+  // Silent warnings only reach staff through the mod-log, so it has to exist
+  const visibility = settings.warningVisibility ?? existing?.warningVisibility;
+  const modLogChannelId = settings.modLogChannelId !== undefined ? settings.modLogChannelId : existing?.modLogChannelId;
+  if (visibility === "silent" && !modLogChannelId) {
+    return "Choose a mod-log channel before making warnings silent";
+  }
+  return null;
+}
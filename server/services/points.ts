@@ -0,0 +1,114 @@
+import { db } from "@db";
+import { users, warnings, type SelectUser, type SelectWarning, type SelectWarningLevel } from "@db/schema";
+import { and, eq, gt, inArray } from "drizzle-orm";
+import { getGuild, getPointPoolGuildIds } from "./guilds";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// When a warning stops counting towards the user's points, null if it never does
+export function getWarningExpiry(
+  warning: Pick<SelectWarning, "createdAt">,
+  level: Pick<SelectWarningLevel, "expiryDays">
+): Date | null {
+  if (!level.expiryDays) {
+    return null;
+  }
+  return new Date(warning.createdAt.getTime() + level.expiryDays * DAY_MS);
+}
+
+export function isWarningExpired(
+  warning: Pick<SelectWarning, "createdAt">,
+  level: Pick<SelectWarningLevel, "expiryDays">,
+  now: Date = new Date()
+): boolean {
+  const expiresAt = getWarningExpiry(warning, level);
+  return expiresAt !== null && expiresAt <= now;
+}
+
+/**
+ * Sum of a user's active warnings across the guild's points pool. Ignored and
+ * expired warnings don't count, and the guild's forgiveness rate removes
+ * points for every full week since the user's last warning.
+ */
+export async function calculateUserPoints(userId: string, guildId: string, now: Date = new Date()): Promise<number> {
+  const poolGuildIds = await getPointPoolGuildIds(guildId);
+
+  const activeWarnings = await db.query.warnings.findMany({
+    where: and(
+      eq(warnings.userId, userId),
+      inArray(warnings.guildId, poolGuildIds),
+      eq(warnings.messageIgnored, false)
+    ),
+    with: {
+      level: true,
+    },
+  });
+
+  const points = activeWarnings
+    .filter(warning => !isWarningExpired(warning, warning.level, now))
+    .reduce((sum, warning) => sum + warning.points, 0);
+
+  const guild = await getGuild(guildId);
+  const forgivenessRate = guild?.forgivenessPointsPerWeek ?? 0;
+  if (points === 0 || forgivenessRate <= 0) {
+    return points;
+  }
+
+  // Expired warnings still mark the last time the user misbehaved
+  const lastWarningAt = Math.max(...activeWarnings.map(warning => warning.createdAt.getTime()));
+  const weeksOfGoodBehaviour = Math.floor((now.getTime() - lastWarningAt) / WEEK_MS);
+
+  return Math.max(0, points - weeksOfGoodBehaviour * forgivenessRate);
+}
+
+/**
+ * Recalculates a user's points and stores the total on every user row in the
+ * guild's points pool, so guilds that share points always agree.
+ */
+export async function syncUserPoints(userId: string, guildId: string): Promise<number> {
+  const poolGuildIds = await getPointPoolGuildIds(guildId);
+  const totalPoints = await calculateUserPoints(userId, guildId);
+
+  await db.update(users)
+    .set({ totalPoints })
+    .where(and(
+      eq(users.id, userId),
+      inArray(users.guildId, poolGuildIds)
+    ));
+
+  return totalPoints;
+}
+
+/**
+ * Re-applies decay to every user that still has points. Totals only drop over
+ * time, so users already at zero can be skipped.
+ */
+export async function syncDecayedPoints(): Promise<number> {
+  const usersWithPoints = await db.query.users.findMany({
+    where: gt(users.totalPoints, 0),
+  });
+
+  return syncUsers(usersWithPoints);
+}
+
+// Recalculates every user in a guild, e.g. after its decay settings changed
+export async function syncGuildPoints(guildId: string): Promise<number> {
+  const guildUsers = await db.query.users.findMany({
+    where: eq(users.guildId, guildId),
+  });
+
+  return syncUsers(guildUsers);
+}
+
+async function syncUsers(userList: Pick<SelectUser, "id" | "guildId" | "totalPoints">[]): Promise<number> {
+  let changed = 0;
+  for (const user of userList) {
+    const totalPoints = await syncUserPoints(user.id, user.guildId);
+    if (totalPoints !== user.totalPoints) {
+      changed++;
+    }
+  }
+
+  return changed;
+}
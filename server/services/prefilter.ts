@@ -0,0 +1,204 @@
+import { db } from "@db";
+import { rules, type SelectRule, type SelectWarningLevel } from "@db/schema";
+import { eq } from "drizzle-orm";
+
+export type RuleMatchType = "ai" | "keyword" | "regex" | "blocked_domain" | "allowed_domain";
+
+export const RULE_MATCH_TYPES: RuleMatchType[] = ["ai", "keyword", "regex", "blocked_domain", "allowed_domain"];
+
+const MAX_PATTERNS = 200;
+const MAX_PATTERN_LENGTH = 200;
+
+// Characters commonly swapped in to dodge filters
+const LEETSPEAK: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "8": "b",
+  "9": "g",
+  "@": "a",
+  "$": "s",
+  "!": "i",
+  "|": "l",
+};
+
+const LINK_PATTERN = /https?:\/\/[^\s<>]+/gi;
+
+export interface PrefilterMatch {
+  rule: SelectRule;
+  level: SelectWarningLevel;
+  reason: string;
+}
+
+/**
+ * Folds text to a canonical form before keyword matching: lowercase, accents
+ * and zero-width characters stripped, leetspeak replaced with letters and
+ * punctuation between letters dropped, so "$h.1t" reads as "shit".
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f\u200b-\u200d\ufeff]/g, "")
+    .toLowerCase()
+    .replace(/[0-9@$!|]/g, char => LEETSPEAK[char] ?? char)
+    .replace(/([a-z])[._\-*'"~]+(?=[a-z])/g, "$1");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Domains are stored bare, e.g. "discord.gg" rather than "https://www.discord.gg/"
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^\*\./, "")
+    .replace(/^www\./, "")
+    .replace(/[/:?#].*$/, "");
+}
+
+function extractLinkHosts(content: string): string[] {
+  return (content.match(LINK_PATTERN) ?? []).flatMap(link => {
+    try {
+      return [new URL(link).hostname.toLowerCase()];
+    } catch {
+      return [];
+    }
+  });
+}
+
+// A host matches a domain when it is the domain or one of its subdomains
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Checks a message against one rule's patterns. Returns why it matched, or
+ * null when it didn't. AI rules never match here.
+ */
+export function matchRulePatterns(matchType: string, patterns: string[], content: string): string | null {
+  switch (matchType) {
+    case "keyword": {
+      const normalized = normalizeText(content);
+      for (const keyword of patterns) {
+        const pattern = new RegExp(`(^|[^a-z0-9])${escapeRegExp(normalizeText(keyword))}(?![a-z0-9])`);
+        if (pattern.test(normalized)) {
+          return `Matched keyword "${keyword}"`;
+        }
+      }
+      return null;
+    }
+    case "regex": {
+      const normalized = normalizeText(content);
+      for (const source of patterns) {
+        const pattern = new RegExp(source, "iu");
+        if (pattern.test(content) || pattern.test(normalized)) {
+          return `Matched pattern /${source}/`;
+        }
+      }
+      return null;
+    }
+    case "blocked_domain": {
+      for (const host of extractLinkHosts(content)) {
+        const domain = patterns.find(d => hostMatches(host, d));
+        if (domain) {
+          return `Linked to blocked domain ${domain}`;
+        }
+      }
+      return null;
+    }
+    case "allowed_domain": {
+      const host = extractLinkHosts(content).find(h => !patterns.some(d => hostMatches(h, d)));
+      return host ? `Linked to ${host}, which is not an allowed domain` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export function isPatternList(patterns: unknown): patterns is string[] {
+  return Array.isArray(patterns) && patterns.every(p => typeof p === "string");
+}
+
+// Returns a problem with a rule's match settings, or null when they are valid. Pass the cleaned patterns.
+export function validateRulePatterns(matchType: unknown, patterns: unknown): string | null {
+  if (!RULE_MATCH_TYPES.includes(matchType as RuleMatchType)) {
+    return `Match type must be one of ${RULE_MATCH_TYPES.join(", ")}`;
+  }
+  if (!isPatternList(patterns)) {
+    return "Patterns must be a list of strings";
+  }
+  if (matchType === "ai") {
+    return null;
+  }
+  if (patterns.length === 0) {
+    return "Add at least one pattern";
+  }
+  if (patterns.length > MAX_PATTERNS) {
+    return `A rule can have at most ${MAX_PATTERNS} patterns`;
+  }
+  if (patterns.some(p => p.length > MAX_PATTERN_LENGTH)) {
+    return `Patterns can be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (matchType === "regex") {
+    for (const source of patterns) {
+      try {
+        new RegExp(source, "iu");
+      } catch (error: any) {
+        return `Invalid pattern /${source}/: ${error.message}`;
+      }
+    }
+  }
+  if (matchType === "blocked_domain" || matchType === "allowed_domain") {
+    const invalid = patterns.find(d => !/^([a-z0-9-]+\.)+[a-z0-9-]+$/.test(d));
+    if (invalid !== undefined) {
+      return `"${invalid}" is not a domain`;
+    }
+  }
+  return null;
+}
+
+// Trims patterns and drops blanks and duplicates before they are saved
+export function cleanRulePatterns(matchType: string, patterns: string[]): string[] {
+  const cleaned = patterns
+    .map(p => matchType === "blocked_domain" || matchType === "allowed_domain" ? normalizeDomain(p) : p.trim())
+    .filter(p => p);
+  return Array.from(new Set(cleaned));
+}
+
+/**
+ * Runs the guild's keyword, regex and domain rules against a message, most
+ * severe level first. A match is definitive, so the message doesn't need to
+ * go to the LLM.
+ */
+export async function runPrefilter(content: string, guildId: string): Promise<PrefilterMatch | null> {
+  const patternRules = await db.query.rules.findMany({
+    where: eq(rules.guildId, guildId),
+    with: {
+      level: true,
+    },
+  });
+
+  const candidates = patternRules
+    .filter(rule => rule.matchType !== "ai" && rule.patterns.length > 0)
+    .sort((a, b) => b.level.points - a.level.points || a.order - b.order);
+
+  for (const { level, ...rule } of candidates) {
+    try {
+      const reason = matchRulePatterns(rule.matchType, rule.patterns, content);
+      if (reason) {
+        return { rule, level, reason };
+      }
+    } catch (error) {
+      // A pattern saved before validation tightened shouldn't stop moderation
+      console.error('Failed to evaluate rule patterns:', { ruleId: rule.id, error });
+    }
+  }
+
+  return null;
+}
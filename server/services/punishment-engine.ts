@@ -0,0 +1,433 @@
+import type { GuildMember } from "discord.js";
+import { db } from "@db";
+import { users, punishments, punishmentEvents, punishmentRules, type PunishmentType, type SelectPunishment, type SelectPunishmentRule } from "@db/schema";
+import { and, eq, ne, isNotNull } from "drizzle-orm";
+import { fetchGuildMember, liftBan, liftTimeout, updateMemberRole } from "./discord";
+import { getGuild } from "./guilds";
+import { usesDuration } from "./punishments";
+import { notifyPunishment } from "./notifications";
+import { logPunishment, logReversal } from "./mod-log";
+import { recordAudit, type AuditActor } from "./audit";
+
+const REMOVES_MEMBER: PunishmentType[] = ["kick", "temp_ban", "ban"];
+
+function logError(context: string, error: unknown) {
+  console.error(`[Punishments] ${context}:`, error);
+}
+
+// The evaluation running for each "<guild>:<user>", so punishments for one user are worked out one at a time
+const userLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs fn once any evaluation already running for the same user has
+ * finished. Thresholds are checked against the punishments recorded so far,
+ * so two messages crossing one at the same moment must not both see it as
+ * untriggered. The bot runs as a single process, so an in-memory chain is enough.
+ */
+async function withUserLock<T>(guildId: string, userId: string, fn: () => Promise<T>): Promise<T> {
+  const key = `${guildId}:${userId}`;
+  const previous = userLocks.get(key) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  userLocks.set(key, run);
+  try {
+    return await run;
+  } finally {
+    if (userLocks.get(key) === run) {
+      userLocks.delete(key);
+    }
+  }
+}
+
+/**
+ * Carries out one punishment rule on a member in Discord. Timed punishments
+ * are lifted again by the scheduler once they expire.
+ */
+async function safeApplyPunishment(member: GuildMember, rule: SelectPunishmentRule, reason: string) {
+  try {
+    console.log('Applying punishment:', { type: rule.type, durationMinutes: rule.durationMinutes, userId: member.id });
+
+    switch (rule.type) {
+      case "ban":
+      case "temp_ban":
+        await member.ban({ reason });
+        break;
+      case "mute":
+        await member.timeout(rule.durationMinutes! * 60 * 1000, reason);
+        break;
+      case "kick":
+        await member.kick(reason);
+        break;
+      case "add_role":
+        await member.roles.add(rule.roleId!, reason);
+        break;
+      case "remove_role":
+        await member.roles.remove(rule.roleId!, reason);
+        break;
+      case "slowmode":
+        // Enforced by the bot, Discord has no per-user slowmode
+        break;
+      case "notify":
+        // Nothing to do in the server, the DM is the punishment
+        break;
+    }
+
+    console.log('Successfully applied punishment:', { type: rule.type, userId: member.id });
+    return true;
+  } catch (error) {
+    logError(`Failed to apply ${rule.type} punishment`, error);
+    console.error('Punishment application error details:', {
+      memberId: member.id,
+      type: rule.type,
+      durationMinutes: rule.durationMinutes,
+      permissions: member.permissions.toArray()
+    });
+    return false;
+  }
+}
+
+// Mutes, temporary bans and slowmode always have a duration; role changes may
+function getPunishmentExpiry(rule: SelectPunishmentRule): Date | null {
+  return usesDuration(rule.type) && rule.durationMinutes
+    ? new Date(Date.now() + rule.durationMinutes * 60 * 1000)
+    : null;
+}
+
+// Records a punishment that was carried out and mirrors it on the user row
+async function recordPunishment(
+  guildId: string,
+  userId: string,
+  rule: SelectPunishmentRule,
+  reason: string,
+  expiresAt: Date | null,
+  totalPoints: number,
+  actor: AuditActor
+) {
+  const oneOff = rule.type === "kick" || rule.type === "notify";
+
+  const [punishment] = await db.insert(punishments).values({
+    guildId,
+    userId,
+    type: rule.type,
+    reason,
+    durationMinutes: expiresAt ? rule.durationMinutes : null,
+    roleId: rule.roleId,
+    punishmentRuleId: rule.id,
+    status: oneOff ? "completed" : "active",
+    expiresAt,
+  }).returning();
+
+  await recordAudit({
+    guildId,
+    actor,
+    action: "punishment.apply",
+    targetType: "user",
+    targetId: userId,
+    after: {
+      punishmentId: punishment.id,
+      type: punishment.type,
+      durationMinutes: punishment.durationMinutes,
+      roleId: punishment.roleId,
+      expiresAt,
+      totalPoints,
+      punishmentRuleId: rule.id,
+      ruleId: rule.ruleId,
+    },
+  });
+
+  // Keep the dashboard's view of the user in sync
+  const userChanges =
+    rule.type === "ban" || rule.type === "temp_ban" ? { isBanned: true } :
+    rule.type === "mute" ? { isMuted: true, muteExpiresAt: expiresAt } :
+    rule.type === "slowmode" ? { slowmodeSeconds: rule.slowmodeSeconds, slowmodeExpiresAt: expiresAt } :
+    null;
+  if (userChanges) {
+    await db.update(users)
+      .set(userChanges)
+      .where(and(
+        eq(users.id, userId),
+        eq(users.guildId, guildId)
+      ));
+  }
+}
+
+// Punishments a punishment rule applied that haven't been reversed, so their thresholds count as triggered
+async function findTriggeredPunishments(guildId: string, userId: string) {
+  return db.query.punishments.findMany({
+    where: and(
+      eq(punishments.guildId, guildId),
+      eq(punishments.userId, userId),
+      isNotNull(punishments.punishmentRuleId),
+      ne(punishments.status, "reversed")
+    ),
+    with: {
+      rule: true,
+    },
+  });
+}
+
+export interface ApplyPunishmentsInput {
+  guildId: string;
+  userId: string;
+  totalPoints: number;
+  member?: GuildMember | null; // fetched when not given
+  brokenRuleId?: number | null; // the rule just broken, for punishments tied to it
+  ruleTriggered?: string;
+  warningId?: number | null; // the warning that led here, for the Appeal button in DMs
+}
+
+/**
+ * Applies the punishments a user has earned: those tied to the rule they just
+ * broke, and every point threshold they have newly crossed. A threshold fires
+ * once and stays triggered until the user's points drop back below it, so
+ * later warnings don't repeat it. Returns the types that were applied.
+ */
+export async function applyPunishments(input: ApplyPunishmentsInput, actor: AuditActor): Promise<PunishmentType[]> {
+  return withUserLock(input.guildId, input.userId, () => applyEarnedPunishments(input, actor));
+}
+
+async function applyEarnedPunishments(input: ApplyPunishmentsInput, actor: AuditActor): Promise<PunishmentType[]> {
+  const activeRules = await db.query.punishmentRules.findMany({
+    where: and(
+      eq(punishmentRules.isActive, true),
+      eq(punishmentRules.guildId, input.guildId)
+    ),
+    orderBy: (rules, { asc }) => [asc(rules.pointThreshold)],
+  });
+
+  const triggeredRuleIds = new Set(
+    (await findTriggeredPunishments(input.guildId, input.userId)).map(punishment => punishment.punishmentRuleId)
+  );
+
+  const rulePunishments = activeRules.filter(rule =>
+    rule.ruleId !== null && rule.ruleId === input.brokenRuleId);
+  const thresholdPunishments = activeRules.filter(rule =>
+    rule.ruleId === null && rule.pointThreshold <= input.totalPoints && !triggeredRuleIds.has(rule.id));
+
+  if (rulePunishments.length === 0 && thresholdPunishments.length === 0) {
+    return [];
+  }
+
+  const member = input.member ?? await fetchGuildMember(input.guildId, input.userId);
+  if (!member) {
+    console.warn('Member not available, skipping punishments:', { userId: input.userId, guildId: input.guildId });
+    return [];
+  }
+
+  const guild = await getGuild(input.guildId);
+  const applied: PunishmentType[] = [];
+  const apply = async (rule: SelectPunishmentRule, reason: string) => {
+    const expiresAt = getPunishmentExpiry(rule);
+    const notify = () => guild ? notifyPunishment(guild, input.userId, {
+      type: rule.type,
+      durationMinutes: rule.durationMinutes,
+      expiresAt,
+      slowmodeSeconds: rule.slowmodeSeconds,
+      totalPoints: input.totalPoints,
+      warningId: input.warningId ?? null,
+    }) : Promise.resolve(false);
+
+    // Kicked and banned users stop sharing a server with the bot, so they hear about it first
+    const removesMember = REMOVES_MEMBER.includes(rule.type);
+    if (guild?.dmNotifications && removesMember) {
+      await notify();
+    }
+
+    const carriedOut = rule.type === "notify"
+      ? await notify()
+      : await safeApplyPunishment(member, rule, reason);
+
+    if (carriedOut) {
+      await recordPunishment(input.guildId, input.userId, rule, reason, expiresAt, input.totalPoints, actor);
+      applied.push(rule.type);
+      if (guild) {
+        await logPunishment(guild, {
+          userId: input.userId,
+          username: member.user.username,
+          type: rule.type,
+          reason,
+          durationMinutes: expiresAt ? rule.durationMinutes : null,
+          expiresAt,
+          roleId: rule.roleId,
+          totalPoints: input.totalPoints,
+          warningId: input.warningId ?? null,
+          actor,
+        });
+      }
+      if (guild?.dmNotifications && !removesMember && rule.type !== "notify") {
+        await notify();
+      }
+    } else {
+      // Left untriggered, so it is tried again on the next evaluation
+      console.error('Failed to apply punishment:', { type: rule.type, userId: input.userId });
+    }
+  };
+
+  // Punishments tied to the broken rule apply regardless of the point total
+  for (const rule of rulePunishments) {
+    await apply(rule, `Broke rule: ${input.ruleTriggered ?? "unknown"}`.slice(0, 512));
+  }
+
+  // Then each newly crossed threshold, lowest first
+  for (const rule of thresholdPunishments) {
+    console.log('Threshold crossed for punishment:', rule);
+    await apply(rule, `Reached ${rule.pointThreshold} warning points`);
+  }
+
+  return applied;
+}
+
+// Undo a punishment in Discord. Returns false when it has to be retried later.
+async function reversePunishment(punishment: SelectPunishment, actor: AuditActor, totalPoints: number): Promise<boolean> {
+  const userMatches = and(
+    eq(users.id, punishment.userId),
+    eq(users.guildId, punishment.guildId)
+  );
+  const reason = `Warning points dropped to ${totalPoints}`;
+
+  // Only punishments still in force need undoing; kicks, notices and lapsed ones are just re-armed
+  if (punishment.status === "active") {
+    switch (punishment.type) {
+      case "ban":
+      case "temp_ban":
+        if (!await liftBan(punishment.guildId, punishment.userId, reason)) {
+          return false;
+        }
+        await db.update(users).set({ isBanned: false }).where(userMatches);
+        break;
+      case "mute":
+        if (!await liftTimeout(punishment.guildId, punishment.userId, reason)) {
+          return false;
+        }
+        await db.update(users).set({ isMuted: false, muteExpiresAt: null }).where(userMatches);
+        break;
+      case "add_role":
+      case "remove_role":
+        if (!await updateMemberRole(punishment.guildId, punishment.userId, punishment.roleId!,
+          punishment.type === "remove_role", reason)) {
+          return false;
+        }
+        break;
+      case "slowmode":
+        await db.update(users).set({ slowmodeSeconds: null, slowmodeExpiresAt: null }).where(userMatches);
+        break;
+    }
+  }
+
+  await db.update(punishments)
+    .set({ status: "reversed" })
+    .where(eq(punishments.id, punishment.id));
+
+  await db.insert(punishmentEvents)
+    .values({
+      punishmentId: punishment.id,
+      type: "reversed",
+      details: reason,
+    });
+
+  await recordAudit({
+    guildId: punishment.guildId,
+    actor,
+    action: "punishment.reverse",
+    targetType: "user",
+    targetId: punishment.userId,
+    before: { punishmentId: punishment.id, type: punishment.type, status: punishment.status },
+    after: { punishmentId: punishment.id, type: punishment.type, status: "reversed", totalPoints },
+  });
+  return true;
+}
+
+/**
+ * Reverses threshold punishments the user's points have dropped below: lifts
+ * bans and timeouts, undoes role changes and ends slowmode in Discord, and
+ * re-arms the thresholds so crossing them again applies them again. Returns
+ * the punishments that were reversed.
+ */
+export async function reversePunishments(
+  guildId: string,
+  userId: string,
+  totalPoints: number,
+  actor: AuditActor
+): Promise<SelectPunishment[]> {
+  return withUserLock(guildId, userId, () => reverseLapsedPunishments(guildId, userId, totalPoints, actor));
+}
+
+async function reverseLapsedPunishments(
+  guildId: string,
+  userId: string,
+  totalPoints: number,
+  actor: AuditActor
+): Promise<SelectPunishment[]> {
+  const lapsed = (await findTriggeredPunishments(guildId, userId))
+    .filter(punishment => punishment.rule && punishment.rule.ruleId === null && punishment.rule.pointThreshold > totalPoints);
+
+  const reversed: SelectPunishment[] = [];
+  for (const punishment of lapsed) {
+    try {
+      if (await reversePunishment(punishment, actor, totalPoints)) {
+        reversed.push(punishment);
+      } else {
+        console.log('Punishment reversal deferred, will retry:', punishment.id);
+      }
+    } catch (error) {
+      logError(`Failed to reverse punishment ${punishment.id}`, error);
+    }
+  }
+
+  if (reversed.length) {
+    const guild = await getGuild(guildId);
+    if (guild) {
+      await logReversal(guild, reversed, totalPoints, actor);
+    }
+  }
+
+  return reversed;
+}
+
+/**
+ * Applies newly crossed thresholds and reverses lapsed ones, for when points
+ * may have moved either way, e.g. after a manual recalculation.
+ */
+export async function reconcilePunishments(
+  guildId: string,
+  userId: string,
+  totalPoints: number,
+  actor: AuditActor
+): Promise<{ applied: PunishmentType[]; reversed: SelectPunishment[] }> {
+  const reversed = await reversePunishments(guildId, userId, totalPoints, actor);
+  const applied = await applyPunishments({ guildId, userId, totalPoints }, actor);
+  return { applied, reversed };
+}
+
+/**
+ * Reverses threshold punishments for every user whose points have decayed
+ * below them. Run after decay, and it also retries reversals that failed
+ * while the bot was offline.
+ */
+export async function reverseDecayedPunishments(actor: AuditActor): Promise<number> {
+  const triggered = await db.query.punishments.findMany({
+    where: and(
+      isNotNull(punishments.punishmentRuleId),
+      ne(punishments.status, "reversed")
+    ),
+    with: {
+      rule: true,
+      user: true,
+    },
+  });
+
+  const checked = new Set<string>();
+  let reversedCount = 0;
+  for (const punishment of triggered) {
+    const key = `${punishment.guildId}:${punishment.userId}`;
+    const totalPoints = punishment.user?.totalPoints ?? 0;
+    if (checked.has(key) || !punishment.rule || punishment.rule.pointThreshold <= totalPoints) {
+      continue;
+    }
+
+    checked.add(key);
+    const reversed = await reversePunishments(punishment.guildId, punishment.userId, totalPoints, actor);
+    reversedCount += reversed.length;
+  }
+
+  return reversedCount;
+}
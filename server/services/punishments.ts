@@ -0,0 +1,151 @@
+import { PUNISHMENT_TYPES, type PunishmentType } from "@db/schema";
+
+// Punishments that have to run for a while; role changes may also be timed but don't have to be
+const REQUIRES_DURATION: PunishmentType[] = ["mute", "temp_ban", "slowmode"];
+const ROLE_PUNISHMENTS: PunishmentType[] = ["add_role", "remove_role"];
+// Discord's own channel slowmode tops out at 6 hours
+const MAX_SLOWMODE_SECONDS = 6 * 60 * 60;
+// Discord rejects timeouts longer than 28 days
+export const MAX_TIMEOUT_MINUTES = 28 * 24 * 60;
+// Keeps expiry dates sane for bans and role changes, which Discord doesn't limit
+const MAX_DURATION_MINUTES = 5 * 365 * 24 * 60;
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 24 * 60,
+  w: 7 * 24 * 60,
+};
+
+// How each punishment reads in the warning posted to the channel
+const PUNISHMENT_LABELS: Record<PunishmentType, string> = {
+  notify: "📨 notified",
+  slowmode: "🐢 slowed down",
+  mute: "🔇 muted",
+  add_role: "🏷️ restricted",
+  remove_role: "🏷️ role removed",
+  kick: "👢 kicked",
+  temp_ban: "⏳ temporarily banned",
+  ban: "🔨 banned",
+};
+
+export function isPunishmentType(type: unknown): type is PunishmentType {
+  return PUNISHMENT_TYPES.includes(type as PunishmentType);
+}
+
+export function isRolePunishment(type: PunishmentType): boolean {
+  return ROLE_PUNISHMENTS.includes(type);
+}
+
+// Whether a punishment of this type runs for a set time
+export function usesDuration(type: PunishmentType): boolean {
+  return REQUIRES_DURATION.includes(type) || isRolePunishment(type);
+}
+
+/**
+ * Parses a duration such as "45m", "12h", "7d", "2w" or "1d 12h" into
+ * minutes. A bare number is taken as minutes. Returns null when the value
+ * isn't a positive duration.
+ */
+export function parseDuration(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value > 0 ? value : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const text = value.trim().toLowerCase();
+  if (/^\d+$/.test(text)) {
+    return parseInt(text) || null;
+  }
+  if (!/^(\d+\s*[mhdw]\s*)+$/.test(text)) {
+    return null;
+  }
+
+  let minutes = 0;
+  const part = /(\d+)\s*([mhdw])/g;
+  let match: RegExpExecArray | null;
+  while ((match = part.exec(text))) {
+    minutes += parseInt(match[1]) * DURATION_UNITS[match[2]];
+  }
+  return minutes || null;
+}
+
+// Writes minutes in the largest unit that divides them evenly, e.g. 1440 as "1d"
+export function formatDuration(minutes: number): string {
+  if (minutes % DURATION_UNITS.d === 0) {
+    return `${minutes / DURATION_UNITS.d}d`;
+  }
+  if (minutes % DURATION_UNITS.h === 0) {
+    return `${minutes / DURATION_UNITS.h}h`;
+  }
+  return `${minutes}m`;
+}
+
+export function describeAppliedPunishments(types: PunishmentType[]): string | null {
+  return types.length ? types.map(type => PUNISHMENT_LABELS[type]).join(", ") : null;
+}
+
+export interface PunishmentRuleInput {
+  type?: unknown;
+  pointThreshold?: unknown;
+  duration?: unknown;
+  roleId?: unknown;
+  slowmodeSeconds?: unknown;
+  ruleId?: unknown;
+}
+
+// Returns a problem with a punishment rule, or null when it is valid
+export function validatePunishmentRule(input: PunishmentRuleInput): string | null {
+  if (!isPunishmentType(input.type)) {
+    return `Punishment type must be one of ${PUNISHMENT_TYPES.join(", ")}`;
+  }
+  if (input.ruleId !== undefined && input.ruleId !== null && !Number.isInteger(input.ruleId)) {
+    return "Rule ID must be a number";
+  }
+  // Punishments tied to a rule apply whenever it is broken, so they don't need a threshold
+  if ((input.ruleId === undefined || input.ruleId === null) &&
+    (!Number.isInteger(input.pointThreshold) || (input.pointThreshold as number) < 1)) {
+    return "Point threshold must be a whole number of at least 1";
+  }
+  const hasDuration = input.duration != null && input.duration !== "";
+  if (REQUIRES_DURATION.includes(input.type) && !hasDuration) {
+    return "Duration is required for this punishment";
+  }
+  if (hasDuration) {
+    const minutes = parseDuration(input.duration);
+    if (minutes === null) {
+      return "Duration must look like 45m, 12h or 7d";
+    }
+    if (input.type === "mute" && minutes > MAX_TIMEOUT_MINUTES) {
+      return `Discord can't time out a member for longer than 28 days, got ${formatDuration(minutes)}`;
+    }
+    if (minutes > MAX_DURATION_MINUTES) {
+      return "Duration can't be longer than 5 years; leave it empty for a permanent punishment";
+    }
+  }
+  if (isRolePunishment(input.type) && (typeof input.roleId !== "string" || !/^\d+$/.test(input.roleId))) {
+    return "Choose the role to add or remove";
+  }
+  if (input.type === "slowmode" &&
+    (!Number.isInteger(input.slowmodeSeconds) || (input.slowmodeSeconds as number) < 1 ||
+      (input.slowmodeSeconds as number) > MAX_SLOWMODE_SECONDS)) {
+    return `Slowmode must be between 1 and ${MAX_SLOWMODE_SECONDS} seconds between messages`;
+  }
+  return null;
+}
+
+// The columns to store for a valid rule, leaving out fields its type doesn't use
+export function punishmentRuleValues(input: PunishmentRuleInput) {
+  const type = input.type as PunishmentType;
+  const ruleId = (input.ruleId as number | null | undefined) ?? null;
+  return {
+    type,
+    ruleId,
+    pointThreshold: ruleId === null ? input.pointThreshold as number : 0,
+    durationMinutes: usesDuration(type) ? parseDuration(input.duration) : null,
+    roleId: isRolePunishment(type) ? input.roleId as string : null,
+    slowmodeSeconds: type === "slowmode" ? input.slowmodeSeconds as number : null,
+  };
+}
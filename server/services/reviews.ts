@@ -0,0 +1,127 @@
+import { db } from "@db";
+import { pendingReviews, warningLevels, type SelectPendingReview } from "@db/schema";
+import { and, eq } from "drizzle-orm";
+import { enforceViolation, type EnforcementResult } from "./discord";
+import type { StoredMessageContext } from "./violations";
+import { recordAudit, actorReference, type AuditActor } from "./audit";
+
+export interface ApprovedReview {
+  review: SelectPendingReview;
+  enforcement: EnforcementResult;
+}
+
+// Claims a pending review so two moderators can't decide it at once
+async function claimReview(
+  reviewId: number,
+  guildId: string,
+  status: "approved" | "rejected",
+  reviewedBy: string
+): Promise<SelectPendingReview | null> {
+  const [review] = await db.update(pendingReviews)
+    .set({
+      status,
+      reviewedBy,
+      reviewedAt: new Date(),
+    })
+    .where(and(
+      eq(pendingReviews.id, reviewId),
+      eq(pendingReviews.guildId, guildId),
+      eq(pendingReviews.status, "pending")
+    ))
+    .returning();
+
+  return review ?? null;
+}
+
+/**
+ * Approves a held verdict and enforces it exactly as if it had passed the
+ * confidence threshold: points, message deletion and punishments. Returns
+ * null when the review doesn't exist or was already decided.
+ */
+export async function approveReview(
+  reviewId: number,
+  guildId: string,
+  actor: AuditActor
+): Promise<ApprovedReview | null> {
+  const review = await claimReview(reviewId, guildId, "approved", actorReference(actor));
+  if (!review) {
+    return null;
+  }
+
+  try {
+    const level = await db.query.warningLevels.findFirst({
+      where: eq(warningLevels.id, review.levelId),
+    });
+    if (!level) {
+      throw new Error("Warning level not found");
+    }
+
+    const context = review.messageContext as StoredMessageContext;
+    const enforcement = await enforceViolation({
+      guildId: review.guildId,
+      userId: review.userId,
+      username: review.username,
+      warningLevel: level,
+      ruleTriggered: review.ruleTriggered,
+      messageContent: review.messageContent,
+      contextMessages: context.messages ?? [],
+      channelId: review.channelId,
+      channelName: context.channelName,
+      messageId: review.messageId,
+      ruleId: review.ruleId,
+      editHistory: review.editHistory,
+      attachments: review.attachments,
+      confidence: review.confidence,
+    }, undefined, actor);
+
+    const [approvedReview] = await db.update(pendingReviews)
+      .set({ warningId: enforcement.warning.id })
+      .where(eq(pendingReviews.id, review.id))
+      .returning();
+
+    await recordAudit({
+      guildId,
+      actor,
+      action: "review.approve",
+      targetType: "review",
+      targetId: review.id,
+      before: { status: "pending" },
+      after: { status: "approved", warningId: enforcement.warning.id },
+    });
+
+    return { review: approvedReview, enforcement };
+  } catch (error) {
+    // Put the review back so it can be retried
+    await db.update(pendingReviews)
+      .set({
+        status: "pending",
+        reviewedBy: null,
+        reviewedAt: null,
+      })
+      .where(eq(pendingReviews.id, review.id));
+    throw error;
+  }
+}
+
+// Dismisses a held verdict. The message stays and no points are added.
+export async function rejectReview(
+  reviewId: number,
+  guildId: string,
+  actor: AuditActor
+): Promise<SelectPendingReview | null> {
+  const review = await claimReview(reviewId, guildId, "rejected", actorReference(actor));
+
+  if (review) {
+    await recordAudit({
+      guildId,
+      actor,
+      action: "review.reject",
+      targetType: "review",
+      targetId: review.id,
+      before: { status: "pending" },
+      after: { status: "rejected" },
+    });
+  }
+
+  return review;
+}
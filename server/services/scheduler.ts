@@ -0,0 +1,204 @@
+import { db } from "@db";
+import { users, punishments, punishmentEvents, type SelectPunishment } from "@db/schema";
+import { and, eq, lte, isNotNull } from "drizzle-orm";
+import { liftBan, updateMemberRole } from "./discord";
+import { syncDecayedPoints } from "./points";
+import { reverseDecayedPunishments } from "./punishment-engine";
+import { recordAudit, SYSTEM_ACTOR } from "./audit";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const DECAY_INTERVAL_MS = 60 * 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepRunning = false;
+let decayTimer: NodeJS.Timeout | null = null;
+let decayRunning = false;
+
+function logError(context: string, error: unknown) {
+  console.error(`[Scheduler] ${context}:`, error);
+}
+
+// Expire a single punishment. Returns false when it has to be retried later.
+async function expirePunishment(punishment: SelectPunishment): Promise<boolean> {
+  let details: string;
+  const userMatches = and(
+    eq(users.id, punishment.userId),
+    eq(users.guildId, punishment.guildId)
+  );
+
+  switch (punishment.type) {
+    case "ban":
+    case "temp_ban": {
+      const lifted = await liftBan(punishment.guildId, punishment.userId, "Temporary ban expired");
+      if (!lifted) {
+        return false;
+      }
+
+      await db.update(users)
+        .set({ isBanned: false })
+        .where(userMatches);
+      details = "Temporary ban lifted in Discord";
+      break;
+    }
+    case "add_role":
+    case "remove_role": {
+      // Undo the role change: take an added role away, give a removed one back
+      const restored = await updateMemberRole(
+        punishment.guildId,
+        punishment.userId,
+        punishment.roleId!,
+        punishment.type === "remove_role",
+        "Role punishment expired"
+      );
+      if (!restored) {
+        return false;
+      }
+      details = punishment.type === "add_role" ? "Role removed in Discord" : "Role restored in Discord";
+      break;
+    }
+    case "slowmode":
+      // Only clear the slowmode if no later one extended it
+      await db.update(users)
+        .set({ slowmodeSeconds: null, slowmodeExpiresAt: null })
+        .where(and(userMatches, lte(users.slowmodeExpiresAt, new Date())));
+      details = "Slowmode lapsed";
+      break;
+    default:
+      // Discord lifts timeouts on its own; only clear the mute if no later mute extended it
+      await db.update(users)
+        .set({ isMuted: false, muteExpiresAt: null })
+        .where(and(userMatches, lte(users.muteExpiresAt, new Date())));
+      details = "Timeout lapsed";
+  }
+
+  await db.update(punishments)
+    .set({ status: "expired" })
+    .where(eq(punishments.id, punishment.id));
+
+  await db.insert(punishmentEvents)
+    .values({
+      punishmentId: punishment.id,
+      type: "expired",
+      details,
+    });
+
+  console.log('Expired punishment:', {
+    punishmentId: punishment.id,
+    type: punishment.type,
+    userId: punishment.userId,
+    guildId: punishment.guildId,
+  });
+
+  await recordAudit({
+    guildId: punishment.guildId,
+    actor: SYSTEM_ACTOR,
+    action: "punishment.expire",
+    targetType: "user",
+    targetId: punishment.userId,
+    before: { punishmentId: punishment.id, type: punishment.type, status: punishment.status },
+    after: { punishmentId: punishment.id, type: punishment.type, status: "expired" },
+  });
+  return true;
+}
+
+/**
+ * Expires every punishment that is past due. Safe to run at any time: at boot
+ * it reconciles punishments that lapsed while the process was down.
+ */
+export async function expireDuePunishments() {
+  const now = new Date();
+
+  const duePunishments = await db.query.punishments.findMany({
+    where: and(
+      eq(punishments.status, "active"),
+      isNotNull(punishments.expiresAt),
+      lte(punishments.expiresAt, now)
+    ),
+    orderBy: (punishments, { asc }) => [asc(punishments.expiresAt)],
+  });
+
+  for (const punishment of duePunishments) {
+    try {
+      const expired = await expirePunishment(punishment);
+      if (!expired) {
+        console.log('Punishment expiry deferred, will retry:', punishment.id);
+      }
+    } catch (error) {
+      logError(`Failed to expire punishment ${punishment.id}`, error);
+    }
+  }
+
+  // Clear mutes that were set without a punishment record
+  await db.update(users)
+    .set({ isMuted: false, muteExpiresAt: null })
+    .where(and(
+      eq(users.isMuted, true),
+      lte(users.muteExpiresAt, now)
+    ));
+}
+
+async function runSweep() {
+  if (sweepRunning) {
+    return;
+  }
+
+  sweepRunning = true;
+  try {
+    await expireDuePunishments();
+  } catch (error) {
+    logError('Punishment expiry sweep failed', error);
+  } finally {
+    sweepRunning = false;
+  }
+}
+
+// Warnings expire and forgiveness accrues with time, so stored totals go stale
+// and punishments for thresholds users no longer reach have to be undone
+async function runDecay() {
+  if (decayRunning) {
+    return;
+  }
+
+  decayRunning = true;
+  try {
+    const changed = await syncDecayedPoints();
+    if (changed > 0) {
+      console.log('Applied point decay:', { usersUpdated: changed });
+    }
+
+    // Points only drop here, so undo punishments for thresholds users fell below
+    const reversed = await reverseDecayedPunishments(SYSTEM_ACTOR);
+    if (reversed > 0) {
+      console.log('Reversed punishments after decay:', { punishmentsReversed: reversed });
+    }
+  } catch (error) {
+    logError('Point decay sweep failed', error);
+  } finally {
+    decayRunning = false;
+  }
+}
+
+export function startPunishmentScheduler() {
+  if (sweepTimer) {
+    return;
+  }
+
+  console.log('Starting punishment expiry scheduler...');
+  // Reconcile anything that expired while the process was down
+  runSweep();
+  sweepTimer = setInterval(runSweep, SWEEP_INTERVAL_MS);
+
+  runDecay();
+  decayTimer = setInterval(runDecay, DECAY_INTERVAL_MS);
+}
+
+export function stopPunishmentScheduler() {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+  if (decayTimer) {
+    clearInterval(decayTimer);
+    decayTimer = null;
+  }
+}
@@ -0,0 +1,73 @@
+import type { SelectGuild, ModerationStrictness } from "@db/schema";
+
+const STRICTNESS_VALUES: ModerationStrictness[] = ["strict", "standard", "lenient"];
+
+// Added to the system prompt for channels in a stricter or looser category
+const STRICTNESS_PROMPTS: Record<ModerationStrictness, string> = {
+  strict: "This channel is held to a stricter standard. Apply the rules strictly and flag borderline messages.",
+  standard: "",
+  lenient: "This channel allows casual and crude language and mature topics. Only flag clear, serious violations of the rules.",
+};
+
+// Where a message was posted: its channel, the parent channel for threads, and the category
+export interface MessageLocation {
+  channelIds: string[];
+  categoryId: string | null;
+}
+
+/**
+ * Whether the bot should leave a message alone: it was posted in an excluded
+ * channel, a thread of one, or a channel under an excluded category, or the
+ * author has an exempt role.
+ */
+export function isOutOfScope(guild: SelectGuild, location: MessageLocation, roleIds: string[]): boolean {
+  const excluded = new Set(guild.excludedChannelIds);
+  if (location.channelIds.some(id => excluded.has(id))) {
+    return true;
+  }
+  if (location.categoryId && excluded.has(location.categoryId)) {
+    return true;
+  }
+  return roleIds.some(id => guild.exemptRoleIds.includes(id));
+}
+
+export function getStrictness(guild: SelectGuild, categoryId: string | null): ModerationStrictness {
+  return (categoryId && guild.categoryStrictness[categoryId]) || "standard";
+}
+
+export function getStrictnessPrompt(strictness: ModerationStrictness): string {
+  return STRICTNESS_PROMPTS[strictness];
+}
+
+function isIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(id => typeof id === "string" && /^\d+$/.test(id));
+}
+
+// Returns a problem with the moderation scope settings, or null when they are valid
+export function validateModerationScope(settings: {
+  excludedChannelIds?: unknown;
+  exemptRoleIds?: unknown;
+  categoryStrictness?: unknown;
+}): string | null {
+  if (settings.excludedChannelIds !== undefined && !isIdList(settings.excludedChannelIds)) {
+    return "Excluded channels must be a list of Discord channel IDs";
+  }
+  if (settings.exemptRoleIds !== undefined && !isIdList(settings.exemptRoleIds)) {
+    return "Exempt roles must be a list of Discord role IDs";
+  }
+  if (settings.categoryStrictness !== undefined) {
+    const strictness = settings.categoryStrictness;
+    if (typeof strictness !== "object" || strictness === null || Array.isArray(strictness)) {
+      return "Category strictness must map category IDs to a strictness";
+    }
+    for (const [categoryId, value] of Object.entries(strictness)) {
+      if (!/^\d+$/.test(categoryId)) {
+        return "Category strictness must map category IDs to a strictness";
+      }
+      if (!STRICTNESS_VALUES.includes(value)) {
+        return `Strictness must be one of ${STRICTNESS_VALUES.join(", ")}`;
+      }
+    }
+  }
+  return null;
+}
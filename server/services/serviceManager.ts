@@ -2,7 +2,9 @@ import { db } from "@db";
 import { discordSettings, openaiSettings } from "@db/schema";
 import { eq } from "drizzle-orm";
 import { setupDiscordBot } from "./discord";
-import { testOpenAIConnection } from "./openai";
+import { getLLMSettings, testLLMConnection } from "./llm";
+import { startPunishmentScheduler } from "./scheduler";
+import { decryptSecret } from "../secrets";
 
 export async function initializeServices() {
   console.log("Initializing services...");
@@ -16,7 +18,7 @@ export async function initializeServices() {
     if (discordConfig) {
       console.log("Found Discord configuration, attempting to connect...");
       try {
-        const setup = await setupDiscordBot(discordConfig.botToken);
+        const setup = await setupDiscordBot(decryptSecret(discordConfig.botToken));
         if (setup.success) {
           await db.update(discordSettings)
             .set({
@@ -50,23 +52,25 @@ export async function initializeServices() {
       console.log("No Discord configuration found");
     }
 
-    // Initialize OpenAI
-    const openaiConfig = await db.query.openaiSettings.findFirst({
-      orderBy: (openaiSettings, { desc }) => [desc(openaiSettings.createdAt)],
-    });
+    // Expire mutes and temporary bans, including any that lapsed while offline
+    startPunishmentScheduler();
+
+    // Initialize the LLM provider
+    const openaiConfig = await getLLMSettings();
 
     if (openaiConfig) {
-      console.log("Found OpenAI configuration, testing connection...");
+      console.log(`Found LLM configuration (${openaiConfig.provider}), testing connection...`);
       try {
-        await testOpenAIConnection();
+        const { latencyMs } = await testLLMConnection(openaiConfig);
         await db.update(openaiSettings)
           .set({
             status: "connected",
             error: null,
+            latencyMs,
             updatedAt: new Date(),
           })
           .where(eq(openaiSettings.id, openaiConfig.id));
-        console.log("OpenAI connection successful");
+        console.log("LLM connection successful");
       } catch (error: any) {
         await db.update(openaiSettings)
           .set({
@@ -75,10 +79,10 @@ export async function initializeServices() {
             updatedAt: new Date(),
           })
           .where(eq(openaiSettings.id, openaiConfig.id));
-        console.error("OpenAI connection error:", error);
+        console.error("LLM connection error:", error);
       }
     } else {
-      console.log("No OpenAI configuration found");
+      console.log("No LLM configuration found");
     }
   } catch (error) {
     console.error("Service initialization error:", error);
@@ -0,0 +1,302 @@
+import { db } from "@db";
+import { guilds, warningLevels, type SelectGuild, type SpamSettings } from "@db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { recordAudit, type AuditActor } from "./audit";
+
+export type SpamDetector = "burst" | "duplicate" | "mentions" | "emoji";
+
+const SPAM_DETECTORS: SpamDetector[] = ["burst", "duplicate", "mentions", "emoji"];
+
+// Short messages like "lol" or "F" are repeated too innocently to count as duplicates
+const MIN_DUPLICATE_LENGTH = 8;
+const MAX_WINDOW_SECONDS = 3600;
+const MAX_RAID_MINUTES = 24 * 60;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CUSTOM_EMOJI_PATTERN = /<a?:\w+:\d+>/g;
+const UNICODE_EMOJI_PATTERN = new RegExp("\\p{Extended_Pictographic}", "gu");
+
+export interface SpamMessage {
+  guildId: string;
+  userId: string;
+  channelId: string;
+  content: string;
+  mentions: number; // users, roles and @everyone mentioned
+  accountCreatedAt: Date;
+  sentAt: number;
+}
+
+export interface SpamMatch {
+  detector: SpamDetector;
+  warningLevelId: number;
+  reason: string;
+}
+
+interface WindowEntry {
+  time: number;
+  weight: number; // 1 per message, or the number of mentions or emoji in it
+  key?: string; // normalized content for duplicate detection
+}
+
+// Sliding windows keyed by "<detector>:<guild>:<user or channel>"
+const windows = new Map<string, WindowEntry[]>();
+
+function pushEntry(key: string, entry: WindowEntry, windowSeconds: number): WindowEntry[] {
+  const cutoff = entry.time - windowSeconds * 1000;
+  const recent = (windows.get(key) ?? []).filter(e => e.time > cutoff);
+  recent.push(entry);
+  windows.set(key, recent);
+  return recent;
+}
+
+function total(entries: WindowEntry[]): number {
+  return entries.reduce((sum, e) => sum + e.weight, 0);
+}
+
+export function countEmoji(content: string): number {
+  return (content.match(CUSTOM_EMOJI_PATTERN)?.length ?? 0) +
+    (content.replace(CUSTOM_EMOJI_PATTERN, "").match(UNICODE_EMOJI_PATTERN)?.length ?? 0);
+}
+
+function duplicateKey(content: string): string | null {
+  const key = content.toLowerCase().replace(/\s+/g, " ").trim();
+  return key.length >= MIN_DUPLICATE_LENGTH ? key : null;
+}
+
+/**
+ * Adds a message to the user's and channel's sliding windows and returns the
+ * first enabled detector it trips. Duplicates count both one user pasting the
+ * same text across channels and several users pasting it into one channel.
+ * A detector's window is cleared when it fires so a flood is warned once per
+ * threshold rather than on every message.
+ */
+export function detectSpam(settings: SpamSettings, message: SpamMessage): SpamMatch | null {
+  const { guildId, userId, channelId, sentAt: time } = message;
+  const counts: Record<SpamDetector, { keys: string[]; count: number } | null> = {
+    burst: null,
+    duplicate: null,
+    mentions: null,
+    emoji: null,
+  };
+
+  const burst = settings.burst;
+  if (burst.enabled && burst.warningLevelId) {
+    const key = `burst:${guildId}:${userId}`;
+    counts.burst = { keys: [key], count: total(pushEntry(key, { time, weight: 1 }, burst.windowSeconds)) };
+  }
+
+  const duplicate = settings.duplicate;
+  const contentKey = duplicateKey(message.content);
+  if (duplicate.enabled && duplicate.warningLevelId && contentKey) {
+    const userKey = `duplicate-user:${guildId}:${userId}`;
+    const channelKey = `duplicate-channel:${guildId}:${channelId}`;
+    const entry = { time, weight: 1, key: contentKey };
+    const byUser = pushEntry(userKey, entry, duplicate.windowSeconds).filter(e => e.key === contentKey);
+    const inChannel = pushEntry(channelKey, entry, duplicate.windowSeconds).filter(e => e.key === contentKey);
+    counts.duplicate = { keys: [userKey, channelKey], count: Math.max(byUser.length, inChannel.length) };
+  }
+
+  const mentions = settings.mentions;
+  if (mentions.enabled && mentions.warningLevelId && message.mentions > 0) {
+    const key = `mentions:${guildId}:${userId}`;
+    counts.mentions = { keys: [key], count: total(pushEntry(key, { time, weight: message.mentions }, mentions.windowSeconds)) };
+  }
+
+  const emoji = settings.emoji;
+  const emojiCount = countEmoji(message.content);
+  if (emoji.enabled && emoji.warningLevelId && emojiCount > 0) {
+    const key = `emoji:${guildId}:${userId}`;
+    counts.emoji = { keys: [key], count: total(pushEntry(key, { time, weight: emojiCount }, emoji.windowSeconds)) };
+  }
+
+  for (const detector of SPAM_DETECTORS) {
+    const detectorSettings = settings[detector];
+    const result = counts[detector];
+    if (!result || result.count < detectorSettings.threshold) {
+      continue;
+    }
+
+    if (detector === "duplicate") {
+      // Only forget the repeated text, the rest of the window still counts
+      for (const key of result.keys) {
+        windows.set(key, (windows.get(key) ?? []).filter(e => e.key !== contentKey));
+      }
+    } else {
+      result.keys.forEach(key => windows.delete(key));
+    }
+
+    return {
+      detector,
+      warningLevelId: detectorSettings.warningLevelId!,
+      reason: describeSpam(detector, result.count, detectorSettings.windowSeconds),
+    };
+  }
+
+  return null;
+}
+
+function describeSpam(detector: SpamDetector, count: number, windowSeconds: number): string {
+  const within = `within ${windowSeconds} seconds`;
+  switch (detector) {
+    case "burst":
+      return `Spam: ${count} messages ${within}`;
+    case "duplicate":
+      return `Spam: the same message posted ${count} times ${within}`;
+    case "mentions":
+      return `Spam: ${count} mentions ${within}`;
+    case "emoji":
+      return `Spam: ${count} emoji ${within}`;
+  }
+}
+
+export function isNewAccount(settings: SpamSettings, accountCreatedAt: Date, now = Date.now()): boolean {
+  return now - accountCreatedAt.getTime() < settings.raid.newAccountDays * DAY_MS;
+}
+
+export function isRaidModeActive(guild: SelectGuild, now = new Date()): boolean {
+  return !!guild.raidModeUntil && guild.raidModeUntil > now;
+}
+
+/**
+ * Tracks distinct new accounts posting across the guild and returns true when
+ * enough of them post within the raid window to start raid mode.
+ */
+export function detectRaid(settings: SpamSettings, message: SpamMessage): boolean {
+  const raid = settings.raid;
+  if (!raid.enabled || !isNewAccount(settings, message.accountCreatedAt, message.sentAt)) {
+    return false;
+  }
+
+  const key = `raid:${message.guildId}`;
+  const recent = pushEntry(key, { time: message.sentAt, weight: 1, key: message.userId }, raid.windowSeconds);
+  const accounts = new Set(recent.map(e => e.key)).size;
+  if (accounts < raid.accounts) {
+    return false;
+  }
+
+  windows.delete(key);
+  return true;
+}
+
+export async function startRaidMode(guild: SelectGuild, reason: string, actor: AuditActor): Promise<SelectGuild> {
+  const raidModeUntil = new Date(Date.now() + guild.spamSettings.raid.durationMinutes * 60 * 1000);
+  const [updated] = await db.update(guilds)
+    .set({ raidModeUntil, updatedAt: new Date() })
+    .where(eq(guilds.id, guild.id))
+    .returning();
+
+  console.warn('Raid mode started:', { guildId: guild.id, until: raidModeUntil, reason });
+
+  await recordAudit({
+    guildId: guild.id,
+    actor,
+    action: "guild.raid_mode_start",
+    targetType: "guild",
+    targetId: guild.id,
+    before: { raidModeUntil: guild.raidModeUntil },
+    after: { raidModeUntil, reason },
+  });
+
+  return updated;
+}
+
+export async function endRaidMode(guild: SelectGuild, actor: AuditActor): Promise<SelectGuild> {
+  const [updated] = await db.update(guilds)
+    .set({ raidModeUntil: null, updatedAt: new Date() })
+    .where(eq(guilds.id, guild.id))
+    .returning();
+
+  await recordAudit({
+    guildId: guild.id,
+    actor,
+    action: "guild.raid_mode_end",
+    targetType: "guild",
+    targetId: guild.id,
+    before: { raidModeUntil: guild.raidModeUntil },
+    after: { raidModeUntil: null },
+  });
+
+  return updated;
+}
+
+function validateWindow(label: string, threshold: unknown, windowSeconds: unknown): string | null {
+  if (!Number.isInteger(threshold) || (threshold as number) < 2) {
+    return `${label} threshold must be a whole number of at least 2`;
+  }
+  if (!Number.isInteger(windowSeconds) || (windowSeconds as number) < 1 || (windowSeconds as number) > MAX_WINDOW_SECONDS) {
+    return `${label} window must be between 1 and ${MAX_WINDOW_SECONDS} seconds`;
+  }
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Returns a problem with the spam settings, or null when they are valid
+export async function validateSpamSettings(guildId: string, settings: unknown): Promise<string | null> {
+  if (!isRecord(settings)) {
+    return "Spam settings must be an object";
+  }
+
+  const levelIds: number[] = [];
+  for (const detector of SPAM_DETECTORS) {
+    const value = settings[detector];
+    if (!isRecord(value) || typeof value.enabled !== "boolean") {
+      return `Missing ${detector} settings`;
+    }
+    const problem = validateWindow(detector, value.threshold, value.windowSeconds);
+    if (problem) {
+      return problem;
+    }
+    const warningLevelId = value.warningLevelId;
+    if (warningLevelId !== null && !Number.isInteger(warningLevelId)) {
+      return `${detector} warning level must be a warning level ID`;
+    }
+    if (value.enabled && warningLevelId === null) {
+      return `Choose a warning level for ${detector} detection`;
+    }
+    if (warningLevelId !== null) {
+      levelIds.push(warningLevelId as number);
+    }
+  }
+
+  const raid = settings.raid;
+  if (!isRecord(raid) || typeof raid.enabled !== "boolean") {
+    return "Missing raid settings";
+  }
+  const raidProblem = validateWindow("Raid", raid.accounts, raid.windowSeconds);
+  if (raidProblem) {
+    return raidProblem;
+  }
+  if (!Number.isInteger(raid.newAccountDays) || (raid.newAccountDays as number) < 1) {
+    return "New account age must be at least 1 day";
+  }
+  if (!Number.isInteger(raid.durationMinutes) || (raid.durationMinutes as number) < 1 ||
+    (raid.durationMinutes as number) > MAX_RAID_MINUTES) {
+    return `Raid mode duration must be between 1 and ${MAX_RAID_MINUTES} minutes`;
+  }
+
+  if (levelIds.length > 0) {
+    const levels = await db.query.warningLevels.findMany({
+      where: and(eq(warningLevels.guildId, guildId), inArray(warningLevels.id, levelIds)),
+    });
+    if (levels.length !== new Set(levelIds).size) {
+      return "Warning level not found";
+    }
+  }
+
+  return null;
+}
+
+// Drops windows nobody has posted into for a while so memory stays bounded
+const sweepTimer = setInterval(() => {
+  const cutoff = Date.now() - MAX_WINDOW_SECONDS * 1000;
+  for (const [key, entries] of Array.from(windows.entries())) {
+    if (entries.length === 0 || entries[entries.length - 1].time <= cutoff) {
+      windows.delete(key);
+    }
+  }
+}, SWEEP_INTERVAL_MS);
+sweepTimer.unref();
@@ -0,0 +1,355 @@
+import { db } from "@db";
+import { users, warnings, pendingReviews, type MediaAttachment, type MessageEdit, type SelectPendingReview, type SelectUser, type SelectWarning, type SelectWarningLevel } from "@db/schema";
+import { and, eq, ne, sql } from "drizzle-orm";
+import { syncUserPoints } from "./points";
+import { reversePunishments } from "./punishment-engine";
+import { recordAudit, actorReference, BOT_ACTOR, type AuditActor } from "./audit";
+
+export interface ContextMessage {
+  author: string;
+  content: string;
+}
+
+// Shape of the `warnings.message_context` column
+export interface StoredMessageContext {
+  channelName: string | null;
+  messages: ContextMessage[];
+}
+
+export interface ViolationInput {
+  guildId: string;
+  userId: string;
+  username: string;
+  warningLevel: SelectWarningLevel;
+  ruleTriggered: string;
+  messageContent: string;
+  contextMessages: ContextMessage[];
+  channelId?: string | null;
+  channelName?: string | null;
+  messageId?: string | null;
+  ruleId?: number | null; // the broken rule, for punishments tied to it
+  editHistory?: MessageEdit[]; // set when the violation was found in an edited message
+  attachments?: MediaAttachment[]; // images the vision model looked at
+  confidence?: number; // the AI's confidence in the verdict, shown in the mod-log
+  messageDeleted: boolean;
+}
+
+export interface ReviewInput extends Omit<ViolationInput, "messageDeleted"> {
+  ruleId: number | null;
+  confidence: number;
+}
+
+export interface RecordedViolation {
+  warning: SelectWarning;
+  user: SelectUser;
+  previousPoints: number;
+  totalPoints: number;
+}
+
+export async function getOrCreateUser(guildId: string, userId: string, username: string): Promise<SelectUser> {
+  const existingUser = await db.query.users.findFirst({
+    where: and(eq(users.id, userId), eq(users.guildId, guildId)),
+  });
+
+  if (existingUser) {
+    if (existingUser.username === username) {
+      return existingUser;
+    }
+
+    // Keep the stored username in sync with Discord
+    const [updatedUser] = await db.update(users)
+      .set({ username })
+      .where(and(eq(users.id, userId), eq(users.guildId, guildId)))
+      .returning();
+    return updatedUser;
+  }
+
+  console.log('Creating new user:', { userId, guildId });
+  await db.insert(users)
+    .values({
+      id: userId,
+      guildId,
+      username,
+      totalPoints: 0,
+    });
+
+  // Picks up points from other guilds when this guild shares points
+  await syncUserPoints(userId, guildId);
+
+  const newUser = await db.query.users.findFirst({
+    where: and(eq(users.id, userId), eq(users.guildId, guildId)),
+  });
+  if (!newUser) {
+    throw new Error(`Failed to create user ${userId}`);
+  }
+  return newUser;
+}
+
+/**
+ * Persists a violation: stores the warning row and adds its points to the
+ * user's total across the guild's points pool. Used by both the Discord bot
+ * and the test moderation route so the dashboard sees the same data
+ * regardless of where the violation came from.
+ */
+export async function recordViolation(input: ViolationInput, actor: AuditActor = BOT_ACTOR): Promise<RecordedViolation> {
+  const user = await getOrCreateUser(input.guildId, input.userId, input.username);
+
+  const messageContext: StoredMessageContext = {
+    channelName: input.channelName ?? null,
+    messages: input.contextMessages,
+  };
+
+  const [warning] = await db.insert(warnings)
+    .values({
+      guildId: input.guildId,
+      userId: user.id,
+      levelId: input.warningLevel.id,
+      points: input.warningLevel.points,
+      ruleTriggered: input.ruleTriggered,
+      messageContent: input.messageContent,
+      messageContext,
+      channelId: input.channelId ?? null,
+      messageId: input.messageId ?? null,
+      editHistory: input.editHistory ?? [],
+      attachments: input.attachments ?? [],
+      messageDeleted: input.messageDeleted,
+    })
+    .returning();
+
+  const totalPoints = await syncUserPoints(user.id, input.guildId);
+
+  console.log('Recorded violation:', {
+    warningId: warning.id,
+    guildId: input.guildId,
+    userId: user.id,
+    level: input.warningLevel.name,
+    previousPoints: user.totalPoints,
+    totalPoints,
+  });
+
+  await recordAudit({
+    guildId: input.guildId,
+    actor,
+    action: "warning.create",
+    targetType: "user",
+    targetId: user.id,
+    after: {
+      warningId: warning.id,
+      level: input.warningLevel.name,
+      points: warning.points,
+      ruleTriggered: warning.ruleTriggered,
+      messageDeleted: warning.messageDeleted,
+      totalPoints,
+    },
+  });
+
+  return {
+    warning,
+    user: { ...user, totalPoints },
+    previousPoints: user.totalPoints,
+    totalPoints,
+  };
+}
+
+/**
+ * Holds a low-confidence verdict for a moderator. Nothing is enforced: the
+ * message stays in place and no points are added until the review is approved.
+ */
+export async function queueViolationForReview(input: ReviewInput, actor: AuditActor = BOT_ACTOR): Promise<SelectPendingReview> {
+  const messageContext: StoredMessageContext = {
+    channelName: input.channelName ?? null,
+    messages: input.contextMessages,
+  };
+
+  const [review] = await db.insert(pendingReviews)
+    .values({
+      guildId: input.guildId,
+      userId: input.userId,
+      username: input.username,
+      levelId: input.warningLevel.id,
+      ruleId: input.ruleId,
+      ruleTriggered: input.ruleTriggered,
+      confidence: input.confidence,
+      messageContent: input.messageContent,
+      messageContext,
+      channelId: input.channelId ?? null,
+      messageId: input.messageId ?? null,
+      editHistory: input.editHistory ?? [],
+      attachments: input.attachments ?? [],
+    })
+    .returning();
+
+  console.log('Queued violation for review:', {
+    reviewId: review.id,
+    guildId: input.guildId,
+    userId: input.userId,
+    level: input.warningLevel.name,
+    confidence: input.confidence,
+    threshold: input.warningLevel.confidenceThreshold,
+  });
+
+  await recordAudit({
+    guildId: input.guildId,
+    actor,
+    action: "review.create",
+    targetType: "review",
+    targetId: review.id,
+    after: {
+      userId: review.userId,
+      level: input.warningLevel.name,
+      ruleTriggered: review.ruleTriggered,
+      confidence: review.confidence,
+    },
+  });
+
+  return review;
+}
+
+/**
+ * Appends an edit to the warnings and pending reviews already raised for a
+ * message, so moderators can see what it was changed to. The new content is
+ * still moderated on its own.
+ */
+export async function recordMessageEdit(guildId: string, messageId: string, edit: MessageEdit): Promise<void> {
+  const appendEdit = sql`edit_history || ${JSON.stringify([edit])}::jsonb`;
+
+  const updatedWarnings = await db.update(warnings)
+    .set({ editHistory: appendEdit })
+    .where(and(eq(warnings.guildId, guildId), eq(warnings.messageId, messageId)))
+    .returning({ id: warnings.id });
+
+  const updatedReviews = await db.update(pendingReviews)
+    .set({ editHistory: appendEdit })
+    .where(and(
+      eq(pendingReviews.guildId, guildId),
+      eq(pendingReviews.messageId, messageId),
+      eq(pendingReviews.status, "pending")
+    ))
+    .returning({ id: pendingReviews.id });
+
+  if (updatedWarnings.length > 0 || updatedReviews.length > 0) {
+    console.log('Recorded edit of flagged message:', {
+      guildId,
+      messageId,
+      warningIds: updatedWarnings.map(w => w.id),
+      reviewIds: updatedReviews.map(r => r.id),
+    });
+  }
+}
+
+/**
+ * Closes the reviews still waiting on a message's earlier content once an
+ * edit has its own verdict, so the old one can't be approved on top of it.
+ * The replacement is the warning the edit earned or the review it was queued as.
+ */
+export async function supersedeReviews(
+  guildId: string,
+  messageId: string,
+  replacement: { warningId: number } | { reviewId: number }
+): Promise<SelectPendingReview[]> {
+  const superseded = await db.update(pendingReviews)
+    .set({
+      status: "superseded",
+      reviewedBy: actorReference(BOT_ACTOR),
+      reviewedAt: new Date(),
+    })
+    .where(and(
+      eq(pendingReviews.guildId, guildId),
+      eq(pendingReviews.messageId, messageId),
+      eq(pendingReviews.status, "pending"),
+      "reviewId" in replacement ? ne(pendingReviews.id, replacement.reviewId) : undefined
+    ))
+    .returning();
+
+  for (const review of superseded) {
+    await recordAudit({
+      guildId,
+      actor: BOT_ACTOR,
+      action: "review.supersede",
+      targetType: "review",
+      targetId: review.id,
+      before: { status: "pending" },
+      after: { status: "superseded", ...replacement },
+    });
+  }
+
+  return superseded;
+}
+
+export interface PardonedWarning {
+  warning: SelectWarning;
+  totalPoints: number;
+}
+
+/**
+ * Ignores a warning, recalculates the user's points and reverses punishments
+ * for thresholds the new total no longer reaches. Shared by the dashboard, appeals and
+ * the /pardon command. Returns null when the warning doesn't exist in the guild.
+ */
+export async function pardonWarning(
+  warningId: number,
+  guildId: string,
+  actor: AuditActor,
+  reason: string
+): Promise<PardonedWarning | null> {
+  const warning = await db.query.warnings.findFirst({
+    where: and(
+      eq(warnings.id, warningId),
+      eq(warnings.guildId, guildId)
+    ),
+  });
+
+  if (!warning) {
+    return null;
+  }
+
+  const user = await db.query.users.findFirst({
+    where: and(
+      eq(users.id, warning.userId),
+      eq(users.guildId, warning.guildId)
+    ),
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  // Update warning as ignored
+  const [ignoredWarning] = await db.update(warnings)
+    .set({
+      messageIgnored: true,
+      ignoredAt: new Date(),
+      ignoredBy: actorReference(actor),
+      ignoreReason: reason,
+    })
+    .where(eq(warnings.id, warningId))
+    .returning();
+
+  // Recalculate total points without the ignored warning
+  const totalPoints = await syncUserPoints(user.id, user.guildId);
+
+  // Undo punishments for thresholds the user no longer reaches
+  const reversed = await reversePunishments(user.guildId, user.id, totalPoints, actor);
+
+  console.log('Pardoned warning:', { warningId, guildId, ignoredBy: actorReference(actor), totalPoints });
+
+  await recordAudit({
+    guildId,
+    actor,
+    action: "warning.pardon",
+    targetType: "warning",
+    targetId: warningId,
+    before: {
+      messageIgnored: warning.messageIgnored,
+      totalPoints: user.totalPoints,
+    },
+    after: {
+      messageIgnored: true,
+      ignoreReason: reason,
+      totalPoints,
+      reversedPunishmentIds: reversed.map(punishment => punishment.id),
+    },
+  });
+
+  return { warning: ignoredWarning, totalPoints };
+}
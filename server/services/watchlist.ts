@@ -0,0 +1,75 @@
+import { db } from "@db";
+import { users, deletedMessages, type SelectDeletedMessage, type SelectUser } from "@db/schema";
+import { and, eq } from "drizzle-orm";
+import { recordAudit, type AuditActor } from "./audit";
+
+export interface DeletedMessageInput {
+  guildId: string;
+  userId: string;
+  channelId: string;
+  channelName: string | null;
+  messageId: string;
+  content: string | null;
+  sentAt: Date | null;
+}
+
+export async function isWatchlisted(guildId: string, userId: string): Promise<boolean> {
+  const user = await db.query.users.findFirst({
+    where: and(eq(users.id, userId), eq(users.guildId, guildId)),
+  });
+  return !!user?.watchlisted;
+}
+
+// Returns null when the user isn't known in the guild
+export async function setWatchlisted(
+  guildId: string,
+  userId: string,
+  watchlisted: boolean,
+  actor: AuditActor
+): Promise<SelectUser | null> {
+  const [user] = await db.update(users)
+    .set({ watchlisted })
+    .where(and(eq(users.id, userId), eq(users.guildId, guildId)))
+    .returning();
+
+  if (!user) {
+    return null;
+  }
+
+  await recordAudit({
+    guildId,
+    actor,
+    action: watchlisted ? "user.watchlist_add" : "user.watchlist_remove",
+    targetType: "user",
+    targetId: userId,
+    after: { watchlisted },
+  });
+
+  return user;
+}
+
+/**
+ * Keeps a copy of a message a watchlisted user deleted. Messages deleted
+ * before the bot finished analysing them would otherwise leave nothing behind.
+ */
+export async function logDeletedMessage(input: DeletedMessageInput): Promise<SelectDeletedMessage> {
+  const [logged] = await db.insert(deletedMessages)
+    .values(input)
+    .returning();
+
+  console.log('Logged deleted message from watchlisted user:', {
+    guildId: input.guildId,
+    userId: input.userId,
+    messageId: input.messageId,
+    cached: input.content !== null,
+  });
+
+  return logged;
+}
+
+export async function listDeletedMessages(guildId: string, userId: string): Promise<SelectDeletedMessage[]> {
+  return db.query.deletedMessages.findMany({
+    where: and(eq(deletedMessages.guildId, guildId), eq(deletedMessages.userId, userId)),
+    orderBy: (deletedMessages, { desc }) => [desc(deletedMessages.deletedAt)],
+  });
+}
@@ -0,0 +1,88 @@
+import session from "express-session";
+import { db } from "@db";
+import { sessions } from "@db/schema";
+import { eq, lt } from "drizzle-orm";
+
+// Used when the cookie has no expiry of its own
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+type SessionData = session.SessionData & {
+  passport?: { user?: number };
+};
+
+function getExpiry(sess: session.SessionData): Date {
+  const expires = sess.cookie?.expires;
+  return expires ? new Date(expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+}
+
+/**
+ * express-session store backed by the sessions table. Each row also records
+ * the logged-in account so all of its sessions can be ended at once.
+ */
+export class PostgresSessionStore extends session.Store {
+  constructor() {
+    super();
+    const timer = setInterval(() => {
+      this.pruneExpired().catch(error => console.error("Error pruning sessions:", error));
+    }, PRUNE_INTERVAL_MS);
+    timer.unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void) {
+    db.query.sessions.findFirst({
+      where: eq(sessions.sid, sid),
+    })
+      .then(row => {
+        if (!row || row.expiresAt < new Date()) {
+          return callback(null, null);
+        }
+        callback(null, row.sess as session.SessionData);
+      })
+      .catch(callback);
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void) {
+    const values = {
+      sess,
+      userId: (sess as SessionData).passport?.user ?? null,
+      expiresAt: getExpiry(sess),
+    };
+
+    db.insert(sessions)
+      .values({ sid, ...values })
+      .onConflictDoUpdate({ target: sessions.sid, set: values })
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    db.delete(sessions)
+      .where(eq(sessions.sid, sid))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void) {
+    db.update(sessions)
+      .set({ expiresAt: getExpiry(sess) })
+      .where(eq(sessions.sid, sid))
+      .then(() => callback?.())
+      .catch(error => {
+        console.error("Error touching session:", error);
+        callback?.();
+      });
+  }
+
+  async pruneExpired() {
+    await db.delete(sessions).where(lt(sessions.expiresAt, new Date()));
+  }
+}
+
+// Ends every session of an account, e.g. for "sign out everywhere"
+export async function destroyUserSessions(userId: number): Promise<number> {
+  const deleted = await db.delete(sessions)
+    .where(eq(sessions.userId, userId))
+    .returning({ sid: sessions.sid });
+  return deleted.length;
+}